@@ -1,43 +1,55 @@
 -- ENS Service Database Schema
--- This file contains the SQL schema for the 3 required tables
+-- Generated from src/schema/tables.ts by `npm run generate-schema`; do not edit by hand.
+-- Databases are created and upgraded by the migrations in src/migrations (npm run migrate).
 
 -- Table 1: reminders - Stores ENS domain reminders
 CREATE TABLE IF NOT EXISTS reminders (
-    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
     domain VARCHAR(255) NOT NULL,
     wallet_address VARCHAR(42) NOT NULL, -- Ethereum address
     expiry_date TIMESTAMP WITH TIME ZONE NOT NULL,
-    reminders_sent JSONB DEFAULT '[]'::jsonb, -- Array of reminder types sent (30, 7, 1)
+    reminders_sent JSONB DEFAULT '[]'::jsonb, -- JSON array of reminder types sent
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    reminder_intervals JSONB DEFAULT '[30, 7, 1]'::jsonb, -- JSON array of days before expiry to send reminders
+    tracking_mode VARCHAR(10) NOT NULL DEFAULT 'owner' CHECK (tracking_mode ~ '^(owner|watch)$')
 );
 
--- Table 2: sent_reminders - Log of sent reminder messages  
+-- Table 2: sent_reminders - Log of sent reminder messages
 CREATE TABLE IF NOT EXISTS sent_reminders (
-    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-    reminder_id UUID REFERENCES reminders(id) ON DELETE CASCADE,
-    wallet_address VARCHAR(42) NOT NULL,
-    domain VARCHAR(255) NOT NULL,
-    reminder_type VARCHAR(20) NOT NULL, -- '30 day', '7 day', '1 day'
-    sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    reminder_id BIGINT REFERENCES reminders(id) ON DELETE CASCADE,
+    wallet_address VARCHAR(42) NOT NULL, -- Copied from the reminder
+    domain VARCHAR(255) NOT NULL, -- Copied from the reminder
+    reminder_type VARCHAR(20) NOT NULL CHECK (reminder_type ~ '^(day_[0-9]+|grace_period|premium_auction|available|expired)$'),
+    sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    message_id VARCHAR(255) -- XMTP message the reminder was delivered in
 );
 
 -- Table 3: conversations - XMTP conversation tracking
 CREATE TABLE IF NOT EXISTS conversations (
-    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-    wallet_address VARCHAR(42) NOT NULL,
+    id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    wallet_address VARCHAR(42) NOT NULL, -- The bot's wallet
     conversation_id VARCHAR(255) NOT NULL, -- XMTP conversation ID
-    peer_address VARCHAR(42) NOT NULL, -- Other party's wallet address
+    peer_address VARCHAR(42) NOT NULL, -- The user's wallet (lowercased)
     last_message_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    is_active BOOLEAN DEFAULT true
+    is_active BOOLEAN DEFAULT true -- False once the peer opts out (STOP) or blocks the bot
+);
+
+-- Table 4: scan_cursors - Last block processed by each on-chain event scanner
+CREATE TABLE IF NOT EXISTS scan_cursors (
+    id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    name VARCHAR(100) NOT NULL, -- Scanner the cursor belongs to
+    block_number INTEGER NOT NULL, -- Last block whose events were processed
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_reminders_wallet_address ON reminders(wallet_address);
 CREATE INDEX IF NOT EXISTS idx_reminders_expiry_date ON reminders(expiry_date);
 CREATE INDEX IF NOT EXISTS idx_reminders_domain ON reminders(domain);
-CREATE INDEX IF NOT EXISTS idx_reminders_wallet_domain ON reminders(wallet_address, domain);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reminders_wallet_domain ON reminders(wallet_address, domain);
 
 CREATE INDEX IF NOT EXISTS idx_sent_reminders_reminder_id ON sent_reminders(reminder_id);
 CREATE INDEX IF NOT EXISTS idx_sent_reminders_wallet_address ON sent_reminders(wallet_address);
@@ -46,26 +58,28 @@ CREATE INDEX IF NOT EXISTS idx_sent_reminders_sent_at ON sent_reminders(sent_at)
 CREATE INDEX IF NOT EXISTS idx_conversations_wallet_address ON conversations(wallet_address);
 CREATE INDEX IF NOT EXISTS idx_conversations_conversation_id ON conversations(conversation_id);
 CREATE INDEX IF NOT EXISTS idx_conversations_active ON conversations(is_active);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_wallet_peer ON conversations(wallet_address, peer_address);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scan_cursors_name ON scan_cursors(name);
 
--- Enable Row Level Security (RLS)
 ALTER TABLE reminders ENABLE ROW LEVEL SECURITY;
 ALTER TABLE sent_reminders ENABLE ROW LEVEL SECURITY;
 ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
 
--- RLS Policies
--- Users can only access their own reminders
+-- Users can only access their own rows
+DROP POLICY IF EXISTS reminders_user_policy ON reminders;
 CREATE POLICY reminders_user_policy ON reminders
     FOR ALL USING (wallet_address = current_setting('request.jwt.claims', true)::json->>'wallet_address');
 
--- Users can only access their own sent reminders
+DROP POLICY IF EXISTS sent_reminders_user_policy ON sent_reminders;
 CREATE POLICY sent_reminders_user_policy ON sent_reminders
     FOR ALL USING (wallet_address = current_setting('request.jwt.claims', true)::json->>'wallet_address');
 
--- Users can only access their own conversations
+DROP POLICY IF EXISTS conversations_user_policy ON conversations;
 CREATE POLICY conversations_user_policy ON conversations
     FOR ALL USING (wallet_address = current_setting('request.jwt.claims', true)::json->>'wallet_address');
 
--- Trigger to update updated_at column
+-- Keep updated_at current
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
 BEGIN
@@ -74,7 +88,8 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+DROP TRIGGER IF EXISTS update_reminders_updated_at ON reminders;
 CREATE TRIGGER update_reminders_updated_at
     BEFORE UPDATE ON reminders
     FOR EACH ROW
-    EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
+    EXECUTE FUNCTION update_updated_at_column();
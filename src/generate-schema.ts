@@ -0,0 +1,18 @@
+/**
+ * Regenerates schema.sql and src/schema/records.ts from the schema definition in src/schema/tables.ts
+ *
+ *   npm run generate-schema
+ */
+
+import { writeFileSync } from "fs";
+import { renderRecordTypes, renderSchemaSql } from "./schema/generate";
+
+const outputs: [string, string][] = [
+  ["schema.sql", renderSchemaSql()],
+  ["src/schema/records.ts", renderRecordTypes()]
+];
+
+for (const [path, content] of outputs) {
+  writeFileSync(path, content);
+  console.log(`✅ Wrote ${path}`);
+}
@@ -0,0 +1,81 @@
+/**
+ * Schema migrations CLI
+ *
+ *   npm run migrate -- status          List migrations and when they were applied
+ *   npm run migrate -- up [version]    Apply pending migrations, optionally only up to a version
+ *   npm run migrate -- down [steps]    Roll back the last migration, or the last <steps>
+ *
+ * Uses SQLite when DATABASE_URL is a sqlite:// URL, otherwise Supabase with SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import dotenv from "dotenv";
+import { createClient } from "@supabase/supabase-js";
+import { formatVersion, MigrationRunner, MigrationStore, SupabaseMigrationStore } from "./services/migration-runner";
+import { closeSqliteDatabases, openSqliteDatabase, parseSqliteUrl, SqliteMigrationStore } from "./services/sqlite-database";
+
+dotenv.config({ path: ".env.local" });
+
+const USAGE = "Usage: npm run migrate -- <status | up [version] | down [steps]>";
+
+function getMigrationStore(): MigrationStore {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (databaseUrl) {
+    if (!databaseUrl.startsWith("sqlite://")) {
+      throw new Error(`Unsupported DATABASE_URL '${databaseUrl}': only sqlite:// URLs are supported`);
+    }
+    return new SqliteMigrationStore(openSqliteDatabase(parseSqliteUrl(databaseUrl), { migrate: false }));
+  }
+
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Set DATABASE_URL to a sqlite:// URL, or SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (run: npm run setup-env)");
+  }
+  return new SupabaseMigrationStore(createClient(supabaseUrl, serviceRoleKey));
+}
+
+function parseCount(value: string | undefined, label: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Invalid ${label} '${value}': expected a positive whole number`);
+  }
+  return count;
+}
+
+async function main(args: string[]): Promise<void> {
+  const [command = "status", argument] = args;
+  const runner = new MigrationRunner(getMigrationStore());
+
+  switch (command) {
+    case "status": {
+      for (const migration of await runner.status()) {
+        const state = migration.applied_at ? `applied ${migration.applied_at}` : "pending";
+        console.log(`${formatVersion(migration.version)} ${migration.name.padEnd(40)} ${state}${migration.unknown ? " (not in this codebase)" : ""}`);
+      }
+      break;
+    }
+    case "up": {
+      const applied = await runner.migrate(parseCount(argument, "version"));
+      console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : "Database is up to date");
+      break;
+    }
+    case "down": {
+      const rolledBack = await runner.rollback(parseCount(argument, "step count") ?? 1);
+      console.log(rolledBack.length > 0 ? `Rolled back ${rolledBack.length} migration(s)` : "No migrations to roll back");
+      break;
+    }
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+main(process.argv.slice(2))
+  .catch(error => {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  })
+  .finally(closeSqliteDatabases);
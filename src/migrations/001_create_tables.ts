@@ -0,0 +1,101 @@
+/**
+ * Migration 001: the original reminders, sent_reminders and conversations tables
+ */
+
+import { Migration, NOW } from "./types";
+
+// Also part of the generated schema.sql
+export const ROW_LEVEL_SECURITY = `
+ALTER TABLE reminders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sent_reminders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own rows
+DROP POLICY IF EXISTS reminders_user_policy ON reminders;
+CREATE POLICY reminders_user_policy ON reminders
+    FOR ALL USING (wallet_address = current_setting('request.jwt.claims', true)::json->>'wallet_address');
+
+DROP POLICY IF EXISTS sent_reminders_user_policy ON sent_reminders;
+CREATE POLICY sent_reminders_user_policy ON sent_reminders
+    FOR ALL USING (wallet_address = current_setting('request.jwt.claims', true)::json->>'wallet_address');
+
+DROP POLICY IF EXISTS conversations_user_policy ON conversations;
+CREATE POLICY conversations_user_policy ON conversations
+    FOR ALL USING (wallet_address = current_setting('request.jwt.claims', true)::json->>'wallet_address');
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_reminders_updated_at ON reminders;
+CREATE TRIGGER update_reminders_updated_at
+    BEFORE UPDATE ON reminders
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column()`;
+
+export const createTables: Migration = {
+  version: 1,
+  name: 'create_tables',
+  up: [
+    {
+      type: 'create_table',
+      table: 'reminders',
+      columns: [
+        { name: 'id', type: 'primary_key' },
+        { name: 'domain', type: 'text', length: 255, notNull: true },
+        { name: 'wallet_address', type: 'text', length: 42, notNull: true },
+        { name: 'expiry_date', type: 'timestamp', notNull: true },
+        { name: 'reminders_sent', type: 'json', default: '[]' },
+        { name: 'created_at', type: 'timestamp', default: NOW },
+        { name: 'updated_at', type: 'timestamp', default: NOW }
+      ]
+    },
+    {
+      type: 'create_table',
+      table: 'sent_reminders',
+      columns: [
+        { name: 'id', type: 'primary_key' },
+        { name: 'reminder_id', type: 'foreign_key', references: 'reminders' },
+        { name: 'wallet_address', type: 'text', length: 42, notNull: true },
+        { name: 'domain', type: 'text', length: 255, notNull: true },
+        { name: 'reminder_type', type: 'text', length: 20, notNull: true },
+        { name: 'sent_at', type: 'timestamp', default: NOW }
+      ]
+    },
+    {
+      type: 'create_table',
+      table: 'conversations',
+      columns: [
+        { name: 'id', type: 'primary_key' },
+        { name: 'wallet_address', type: 'text', length: 42, notNull: true },
+        { name: 'conversation_id', type: 'text', length: 255, notNull: true },
+        { name: 'peer_address', type: 'text', length: 42, notNull: true },
+        { name: 'last_message_at', type: 'timestamp', default: NOW },
+        { name: 'created_at', type: 'timestamp', default: NOW },
+        { name: 'is_active', type: 'boolean', default: true }
+      ]
+    },
+    { type: 'create_index', name: 'idx_reminders_wallet_address', table: 'reminders', columns: ['wallet_address'] },
+    { type: 'create_index', name: 'idx_reminders_expiry_date', table: 'reminders', columns: ['expiry_date'] },
+    { type: 'create_index', name: 'idx_reminders_domain', table: 'reminders', columns: ['domain'] },
+    { type: 'create_index', name: 'idx_reminders_wallet_domain', table: 'reminders', columns: ['wallet_address', 'domain'] },
+    { type: 'create_index', name: 'idx_sent_reminders_reminder_id', table: 'sent_reminders', columns: ['reminder_id'] },
+    { type: 'create_index', name: 'idx_sent_reminders_wallet_address', table: 'sent_reminders', columns: ['wallet_address'] },
+    { type: 'create_index', name: 'idx_sent_reminders_sent_at', table: 'sent_reminders', columns: ['sent_at'] },
+    { type: 'create_index', name: 'idx_conversations_wallet_address', table: 'conversations', columns: ['wallet_address'] },
+    { type: 'create_index', name: 'idx_conversations_conversation_id', table: 'conversations', columns: ['conversation_id'] },
+    { type: 'create_index', name: 'idx_conversations_active', table: 'conversations', columns: ['is_active'] },
+    { type: 'sql', postgres: ROW_LEVEL_SECURITY }
+  ],
+  down: [
+    { type: 'drop_table', table: 'conversations' },
+    { type: 'drop_table', table: 'sent_reminders' },
+    { type: 'drop_table', table: 'reminders' },
+    { type: 'sql', postgres: 'DROP FUNCTION IF EXISTS update_updated_at_column()' }
+  ]
+};
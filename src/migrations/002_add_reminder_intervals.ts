@@ -0,0 +1,16 @@
+/**
+ * Migration 002: per-reminder intervals, in days before expiry
+ */
+
+import { Migration } from "./types";
+
+export const addReminderIntervals: Migration = {
+  version: 2,
+  name: 'add_reminder_intervals',
+  up: [
+    { type: 'add_column', table: 'reminders', column: { name: 'reminder_intervals', type: 'json', default: '[30, 7, 1]' } }
+  ],
+  down: [
+    { type: 'drop_column', table: 'reminders', column: 'reminder_intervals' }
+  ]
+};
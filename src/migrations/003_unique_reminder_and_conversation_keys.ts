@@ -0,0 +1,20 @@
+/**
+ * Migration 003: one reminder per wallet and domain, and one conversation per bot and peer, so both can be upserted
+ */
+
+import { Migration } from "./types";
+
+export const uniqueReminderAndConversationKeys: Migration = {
+  version: 3,
+  name: 'unique_reminder_and_conversation_keys',
+  up: [
+    { type: 'drop_index', name: 'idx_reminders_wallet_domain', table: 'reminders' },
+    { type: 'create_index', name: 'idx_reminders_wallet_domain', table: 'reminders', columns: ['wallet_address', 'domain'], unique: true },
+    { type: 'create_index', name: 'idx_conversations_wallet_peer', table: 'conversations', columns: ['wallet_address', 'peer_address'], unique: true }
+  ],
+  down: [
+    { type: 'drop_index', name: 'idx_conversations_wallet_peer', table: 'conversations' },
+    { type: 'drop_index', name: 'idx_reminders_wallet_domain', table: 'reminders' },
+    { type: 'create_index', name: 'idx_reminders_wallet_domain', table: 'reminders', columns: ['wallet_address', 'domain'] }
+  ]
+};
@@ -0,0 +1,16 @@
+/**
+ * Migration 004: the XMTP message id each reminder was delivered in
+ */
+
+import { Migration } from "./types";
+
+export const addSentReminderMessageId: Migration = {
+  version: 4,
+  name: 'add_sent_reminder_message_id',
+  up: [
+    { type: 'add_column', table: 'sent_reminders', column: { name: 'message_id', type: 'text', length: 255 } }
+  ],
+  down: [
+    { type: 'drop_column', table: 'sent_reminders', column: 'message_id' }
+  ]
+};
@@ -0,0 +1,60 @@
+/**
+ * Migration 005: bring the tables in line with the record types in src/schema
+ * Postgres databases created from the old schema.sql get integer ids instead of UUIDs, and sent reminder types
+ * written as '30 day' become day_30. Every database then only accepts the reminder types the service records.
+ */
+
+import { Migration } from "./types";
+
+export const REMINDER_TYPE_PATTERN = '^(day_[0-9]+|grace_period|premium_auction)$';
+
+// Replace UUID ids with identity columns, keeping sent reminders attached to their reminders
+const INTEGER_IDS = `
+DO $$
+BEGIN
+    IF (SELECT data_type FROM information_schema.columns WHERE table_name = 'reminders' AND column_name = 'id') = 'uuid' THEN
+        ALTER TABLE sent_reminders DROP CONSTRAINT IF EXISTS sent_reminders_reminder_id_fkey;
+
+        ALTER TABLE reminders ADD COLUMN new_id BIGINT GENERATED BY DEFAULT AS IDENTITY;
+        ALTER TABLE sent_reminders ADD COLUMN new_reminder_id BIGINT;
+        UPDATE sent_reminders SET new_reminder_id = reminders.new_id FROM reminders WHERE sent_reminders.reminder_id = reminders.id;
+        ALTER TABLE sent_reminders DROP COLUMN reminder_id;
+        ALTER TABLE sent_reminders RENAME COLUMN new_reminder_id TO reminder_id;
+
+        ALTER TABLE reminders DROP CONSTRAINT reminders_pkey;
+        ALTER TABLE reminders DROP COLUMN id;
+        ALTER TABLE reminders RENAME COLUMN new_id TO id;
+        ALTER TABLE reminders ADD PRIMARY KEY (id);
+
+        ALTER TABLE sent_reminders ADD CONSTRAINT sent_reminders_reminder_id_fkey
+            FOREIGN KEY (reminder_id) REFERENCES reminders(id) ON DELETE CASCADE;
+        CREATE INDEX IF NOT EXISTS idx_sent_reminders_reminder_id ON sent_reminders(reminder_id);
+
+        ALTER TABLE sent_reminders DROP CONSTRAINT sent_reminders_pkey;
+        ALTER TABLE sent_reminders DROP COLUMN id;
+        ALTER TABLE sent_reminders ADD COLUMN id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY;
+
+        ALTER TABLE conversations DROP CONSTRAINT conversations_pkey;
+        ALTER TABLE conversations DROP COLUMN id;
+        ALTER TABLE conversations ADD COLUMN id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY;
+    END IF;
+END $$`;
+
+const LEGACY_REMINDER_TYPES = `
+UPDATE sent_reminders
+SET reminder_type = 'day_' || substring(reminder_type FROM '^([0-9]+) day$')
+WHERE reminder_type ~ '^[0-9]+ day$'`;
+
+export const reconcileRecordTypes: Migration = {
+  version: 5,
+  name: 'reconcile_record_types',
+  up: [
+    { type: 'sql', postgres: INTEGER_IDS },
+    { type: 'sql', postgres: LEGACY_REMINDER_TYPES },
+    { type: 'add_check', table: 'sent_reminders', column: 'reminder_type', pattern: REMINDER_TYPE_PATTERN }
+  ],
+  // Ids stay integers: the original UUIDs are gone
+  down: [
+    { type: 'drop_check', table: 'sent_reminders', column: 'reminder_type' }
+  ]
+};
@@ -0,0 +1,26 @@
+/**
+ * Migration 006: the last block each on-chain event scanner has processed
+ */
+
+import { Migration, NOW } from "./types";
+
+export const addScanCursors: Migration = {
+  version: 6,
+  name: 'add_scan_cursors',
+  up: [
+    {
+      type: 'create_table',
+      table: 'scan_cursors',
+      columns: [
+        { name: 'id', type: 'primary_key' },
+        { name: 'name', type: 'text', length: 100, notNull: true },
+        { name: 'block_number', type: 'integer', notNull: true },
+        { name: 'updated_at', type: 'timestamp', default: NOW }
+      ]
+    },
+    { type: 'create_index', name: 'idx_scan_cursors_name', table: 'scan_cursors', columns: ['name'], unique: true }
+  ],
+  down: [
+    { type: 'drop_table', table: 'scan_cursors' }
+  ]
+};
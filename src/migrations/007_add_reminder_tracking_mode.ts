@@ -0,0 +1,22 @@
+/**
+ * Migration 007: whether a reminder is for a name the user holds or one they only watch
+ */
+
+import { Migration } from "./types";
+
+export const TRACKING_MODE_PATTERN = '^(owner|watch)$';
+
+export const addReminderTrackingMode: Migration = {
+  version: 7,
+  name: 'add_reminder_tracking_mode',
+  up: [
+    {
+      type: 'add_column',
+      table: 'reminders',
+      column: { name: 'tracking_mode', type: 'text', length: 10, notNull: true, default: 'owner', pattern: TRACKING_MODE_PATTERN }
+    }
+  ],
+  down: [
+    { type: 'drop_column', table: 'reminders', column: 'tracking_mode' }
+  ]
+};
@@ -0,0 +1,19 @@
+/**
+ * Migration 008: record the notice sent once a released name's premium auction ends and it is available again
+ */
+
+import { Migration } from "./types";
+import { REMINDER_TYPE_PATTERN as PREVIOUS_REMINDER_TYPE_PATTERN } from "./005_reconcile_record_types";
+
+export const REMINDER_TYPE_PATTERN = '^(day_[0-9]+|grace_period|premium_auction|available)$';
+
+export const addAvailableReminderType: Migration = {
+  version: 8,
+  name: 'add_available_reminder_type',
+  up: [
+    { type: 'add_check', table: 'sent_reminders', column: 'reminder_type', pattern: REMINDER_TYPE_PATTERN }
+  ],
+  down: [
+    { type: 'add_check', table: 'sent_reminders', column: 'reminder_type', pattern: PREVIOUS_REMINDER_TYPE_PATTERN }
+  ]
+};
@@ -0,0 +1,19 @@
+/**
+ * Migration 009: record the notice sent once a subname expires, which has no grace period or premium auction to follow
+ */
+
+import { Migration } from "./types";
+import { REMINDER_TYPE_PATTERN as PREVIOUS_REMINDER_TYPE_PATTERN } from "./008_add_available_reminder_type";
+
+export const REMINDER_TYPE_PATTERN = '^(day_[0-9]+|grace_period|premium_auction|available|expired)$';
+
+export const addExpiredReminderType: Migration = {
+  version: 9,
+  name: 'add_expired_reminder_type',
+  up: [
+    { type: 'add_check', table: 'sent_reminders', column: 'reminder_type', pattern: REMINDER_TYPE_PATTERN }
+  ],
+  down: [
+    { type: 'add_check', table: 'sent_reminders', column: 'reminder_type', pattern: PREVIOUS_REMINDER_TYPE_PATTERN }
+  ]
+};
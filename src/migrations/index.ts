@@ -0,0 +1,27 @@
+/**
+ * Schema migrations, in the order they are applied
+ * Add new migrations at the end with the next version number; never edit one that has been released
+ */
+
+import { Migration } from "./types";
+import { createTables } from "./001_create_tables";
+import { addReminderIntervals } from "./002_add_reminder_intervals";
+import { uniqueReminderAndConversationKeys } from "./003_unique_reminder_and_conversation_keys";
+import { addSentReminderMessageId } from "./004_add_sent_reminder_message_id";
+import { reconcileRecordTypes } from "./005_reconcile_record_types";
+import { addScanCursors } from "./006_add_scan_cursors";
+import { addReminderTrackingMode } from "./007_add_reminder_tracking_mode";
+import { addAvailableReminderType } from "./008_add_available_reminder_type";
+import { addExpiredReminderType } from "./009_add_expired_reminder_type";
+
+export const MIGRATIONS: Migration[] = [
+  createTables,
+  addReminderIntervals,
+  uniqueReminderAndConversationKeys,
+  addSentReminderMessageId,
+  reconcileRecordTypes,
+  addScanCursors,
+  addReminderTrackingMode,
+  addAvailableReminderType,
+  addExpiredReminderType
+];
@@ -0,0 +1,45 @@
+/**
+ * Schema operations that migrations are written in
+ * They are dialect-neutral: the runner renders them to Postgres or SQLite DDL and the mock database applies them directly
+ */
+
+// Default value for timestamp columns: the time the row is written
+export const NOW: unique symbol = Symbol("now");
+
+export type ColumnType =
+  | 'primary_key'  // UUID on Postgres, autoincrementing integer on SQLite
+  | 'foreign_key'  // References another table's primary key, deleting with it
+  | 'text'
+  | 'integer'
+  | 'boolean'
+  | 'timestamp'
+  | 'json';
+
+export interface ColumnDefinition {
+  name: string;
+  type: ColumnType;
+  length?: number; // VARCHAR length on Postgres
+  notNull?: boolean;
+  default?: string | number | boolean | typeof NOW; // JSON defaults are given as JSON text
+  references?: string; // Referenced table for foreign keys
+  pattern?: string; // Regular expression values must match, checked on Postgres and by the record validators
+}
+
+export type SchemaOperation =
+  | { type: 'create_table'; table: string; columns: ColumnDefinition[] }
+  | { type: 'drop_table'; table: string }
+  | { type: 'add_column'; table: string; column: ColumnDefinition }
+  | { type: 'drop_column'; table: string; column: string }
+  | { type: 'create_index'; name: string; table: string; columns: string[]; unique?: boolean }
+  | { type: 'drop_index'; name: string; table: string }
+  | { type: 'add_check'; table: string; column: string; pattern: string }
+  | { type: 'drop_check'; table: string; column: string }
+  // Raw statements for features only one dialect has, e.g. row level security; the mock database skips these
+  | { type: 'sql'; postgres?: string; sqlite?: string };
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: SchemaOperation[];
+  down: SchemaOperation[];
+}
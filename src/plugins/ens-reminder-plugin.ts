@@ -6,18 +6,31 @@ import {
   IAgentRuntime,
   Memory
 } from "@elizaos/core";
-import { ethers } from "ethers";
-import { createClient } from "@supabase/supabase-js";
-import cron from "node-cron";
-import { mockDatabaseService } from "../services/mock-database";
-
-// ENS Registrar ABI (for expiry dates)
-const ENS_REGISTRAR_ABI = [
-  "function nameExpires(uint256 id) external view returns (uint256)"
-];
-
-// ENS Registrar Address
-const ENS_REGISTRAR_ADDRESS = "0x57f1887a8BF19b14fC0dF6Fd9B2acc9Af147eA85";
+import { EnsDataSource, getEnsDataSource } from "../services/ens-data-source";
+import { getClock } from "../services/clock";
+import {
+  extractEnsNames,
+  findEnsNames,
+  getParentName,
+  InvalidEnsNameError,
+  isSubname,
+  normalizeEnsName
+} from "../services/ens-name";
+import { initializeReminderService, isRenewal } from "../services/reminder-service";
+import { InboundMessageRouter } from "../services/inbound-router";
+import { ReminderRecord, TrackingMode } from "../schema/records";
+import { getRepositories, ReminderInput } from "../services/repositories";
+import { getOwnedNameSource } from "../services/owned-names";
+import { pendingImports } from "../services/pending-imports";
+import { DomainLifecycle, getDomainLifecycle } from "../services/ens-lifecycle";
+import {
+  DEFAULT_REMINDER_INTERVALS,
+  InvalidReminderIntervalError,
+  formatReminderIntervals,
+  isDefaultReminderIntervals,
+  parseReminderIntervals,
+  parseStoredIntervals
+} from "../services/reminder-intervals";
 
 interface ReminderData {
   domain: string;
@@ -26,29 +39,11 @@ interface ReminderData {
   remindersSent: number[];
 }
 
-/**
- * Get the appropriate database client (mock or real)
- */
-function getDatabaseClient(runtime: IAgentRuntime) {
-  const supabaseUrl = runtime.getSetting("SUPABASE_URL");
-  const supabaseKey = runtime.getSetting("SUPABASE_ANON_KEY");
-  
-  // Use mock database in test mode or when configured
-  if (!supabaseUrl || !supabaseKey || supabaseUrl === "mock://localhost") {
-    console.log("[ENS Plugin] Using mock database");
-    return mockDatabaseService;
-  }
-  
-  // Use real Supabase client
-  console.log("[ENS Plugin] Using real Supabase database");
-  return createClient(supabaseUrl, supabaseKey);
-}
-
 class ENSService {
-  private provider: ethers.JsonRpcProvider;
+  private dataSource: EnsDataSource;
 
-  constructor(rpcUrl: string) {
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+  constructor(dataSource: EnsDataSource) {
+    this.dataSource = dataSource;
   }
 
   /**
@@ -56,41 +51,162 @@ class ENSService {
    */
   async getExpiryDate(domain: string): Promise<Date | null> {
     try {
-      // Remove .eth suffix if present
-      const name = domain.replace('.eth', '');
-      
-      // Calculate token ID (keccak256 hash of the name)
-      const tokenId = ethers.keccak256(ethers.toUtf8Bytes(name));
-      
-      // Get registrar contract
-      const registrar = new ethers.Contract(
-        ENS_REGISTRAR_ADDRESS,
-        ENS_REGISTRAR_ABI,
-        this.provider
-      );
-
-      // Get expiry timestamp
-      const expiryTimestamp = await registrar.nameExpires(tokenId);
-      
-      if (expiryTimestamp.toString() === "0") {
-        return null; // Domain doesn't exist or not registered
+      return await this.dataSource.getExpiry(domain);
+    } catch (error) {
+      console.error(`Error getting expiry for ${domain}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the expiry dates for many ENS domains in one batched lookup. Domains whose lookup failed are left out.
+   */
+  async getExpiryDates(domains: string[]): Promise<Map<string, Date | null>> {
+    const expiryDates = new Map<string, Date | null>();
+
+    try {
+      for (const lookup of await this.dataSource.getExpiries(domains)) {
+        if (lookup.error) {
+          console.error(`Error getting expiry for ${lookup.domain}:`, lookup.error);
+        } else {
+          expiryDates.set(lookup.domain, lookup.expiry);
+        }
       }
+    } catch (error) {
+      console.error(`Error getting expiries:`, error);
+    }
+
+    return expiryDates;
+  }
 
-      return new Date(Number(expiryTimestamp) * 1000);
+  /**
+   * Check whether an ENS domain is wrapped in the NameWrapper
+   */
+  async isWrapped(domain: string): Promise<boolean> {
+    try {
+      return (await this.dataSource.getWrappedName(domain)) !== null;
     } catch (error) {
-      console.error(`Error getting expiry for ${domain}:`, error);
+      console.error(`Error getting NameWrapper data for ${domain}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Check whether an address holds an ENS domain as its registrant, registry owner or NameWrapper owner,
+   * or null if that couldn't be looked up
+   */
+  async isHeldBy(domain: string, address: string): Promise<boolean | null> {
+    try {
+      const [registrant, owner, wrappedName] = await Promise.all([
+        this.dataSource.getRegistrant(domain),
+        this.dataSource.getOwner(domain),
+        this.dataSource.getWrappedName(domain)
+      ]);
+      return [registrant, owner, wrappedName?.owner].some(holder => holder?.toLowerCase() === address.toLowerCase());
+    } catch (error) {
+      console.error(`Error getting holders of ${domain}:`, error);
       return null;
     }
   }
 
   /**
-   * Check if a domain name is valid
+   * Get the lifecycle state for an ENS domain, or null if it has no expiry
    */
-  isValidDomain(domain: string): boolean {
-    // Basic validation for ENS domains
-    const domainRegex = /^[a-z0-9-]+\.eth$/i;
-    return domainRegex.test(domain);
+  async getLifecycle(domain: string): Promise<DomainLifecycle | null> {
+    const expiryDate = await this.getExpiryDate(domain);
+    return expiryDate ? getDomainLifecycle(expiryDate, getClock().now(), domain) : null;
+  }
+}
+
+/**
+ * Explain why each name in a message couldn't be normalized
+ */
+function formatInvalidNames(invalid: InvalidEnsNameError[]): string {
+  return invalid
+    .map(error => `⛔ "${error.input}" isn't a valid ENS name: ${error.reason}`)
+    .join("\n");
+}
+
+/**
+ * Short status label for a domain's lifecycle state
+ */
+function getStatusLabel(lifecycle: DomainLifecycle): string {
+  switch (lifecycle.state) {
+    case 'grace_period':
+      return "⚠️ IN GRACE PERIOD";
+    case 'premium_auction':
+      return "🔨 IN PREMIUM AUCTION";
+    case 'available':
+      return "🆓 RELEASED";
+    case 'expired':
+      return "⛔ EXPIRED";
+  }
+
+  if (lifecycle.daysUntilExpiry <= 1) {
+    return "🚨 EXPIRES TODAY";
+  } else if (lifecycle.daysUntilExpiry <= 7) {
+    return "⚡ EXPIRES SOON";
+  } else if (lifecycle.daysUntilExpiry <= 30) {
+    return "⏰ EXPIRES THIS MONTH";
+  }
+  return "✅ ACTIVE";
+}
+
+/**
+ * Remaining time until a domain's next lifecycle transition
+ */
+function getTimeRemainingText(lifecycle: DomainLifecycle): string {
+  switch (lifecycle.state) {
+    case 'active':
+      return `${lifecycle.daysUntilExpiry} days remaining`;
+    case 'grace_period':
+      return `Expired - grace period ends ${lifecycle.gracePeriodEndsAt.toDateString()}`;
+    case 'premium_auction':
+      return `Released - premium auction ends ${lifecycle.premiumEndsAt.toDateString()}`;
+    case 'available':
+      return "Released - available to register";
+    case 'expired':
+      return "Expired";
+  }
+}
+
+/**
+ * Explanation of what a domain's lifecycle state means for its owner
+ */
+function getStatusMessage(lifecycle: DomainLifecycle): string {
+  switch (lifecycle.state) {
+    case 'grace_period':
+      return `⚠️ This domain has expired and is in its grace period. Only the current owner can renew it until ${lifecycle.gracePeriodEndsAt.toDateString()}.`;
+    case 'premium_auction':
+      return `🔨 This domain has been released and is in a temporary premium auction until ${lifecycle.premiumEndsAt.toDateString()}. Anyone can register it at a decaying premium.`;
+    case 'available':
+      return "🆓 This domain has been released and is available for anyone to register at the standard price.";
+    case 'expired':
+      return "⛔ This subname has expired. Subnames have no grace period, so only the parent name's owner can issue it again.";
+  }
+
+  if (lifecycle.daysUntilExpiry <= 1) {
+    return "🚨 This domain expires today!";
+  } else if (lifecycle.daysUntilExpiry <= 7) {
+    return "⚡ This domain expires very soon!";
+  } else if (lifecycle.daysUntilExpiry <= 30) {
+    return "⏰ This domain expires within a month.";
   }
+  return "✅ This domain is active.";
+}
+
+/**
+ * Check whether SET_REMINDER only accepts names the sender holds; others can still be watched
+ */
+function ownedNamesOnly(runtime: IAgentRuntime): boolean {
+  return runtime.getSetting("ENS_OWNED_NAMES_ONLY") === "true";
+}
+
+/**
+ * Asking to watch a name follows it without claiming to hold it, e.g. to register it once released
+ */
+function getRequestedTrackingMode(text: string): TrackingMode {
+  return /\bwatch(ing)?\b/i.test(text) ? 'watch' : 'owner';
 }
 
 // Set Reminder Action
@@ -105,16 +221,11 @@ const setReminderAction: Action = {
   description: "Set a reminder for an ENS domain expiration",
   validate: async (runtime: IAgentRuntime, message: Memory) => {
     const text = message.content.text?.toLowerCase() || '';
+    // Whole words only, so "list my reminders" or "which domains are you tracking?" aren't taken as requests to set one
     return (
-      text.includes("remind") ||
-      text.includes("track") ||
-      text.includes("watch") ||
-      text.includes("set reminder")
-    ) && (
-      text.includes(".eth") ||
-      text.includes("domain") ||
-      text.includes("ens")
-    );
+      /\b(remind|track|watch)\b/.test(text) ||
+      /\bset (an? )?(ens )?reminder\b/.test(text)
+    ) && findEnsNames(text).length > 0;
   },
   handler: async (
     runtime: IAgentRuntime,
@@ -124,13 +235,12 @@ const setReminderAction: Action = {
     callback?: HandlerCallback
   ) => {
     try {
-      const rpcUrl = runtime.getSetting("ETHEREUM_RPC_URL") || "https://eth-mainnet.alchemyapi.io/v2/demo";
-      const ensService = new ENSService(rpcUrl);
+      const ensService = new ENSService(getEnsDataSource(runtime));
       const text = message.content.text || '';
       
       // Extract domain from message
-      const domainMatch = text.match(/([a-z0-9-]+\.eth)/i);
-      if (!domainMatch) {
+      const [mentionedDomain] = findEnsNames(text);
+      if (!mentionedDomain) {
         if (callback) {
           await callback({
             text: "Please specify a valid ENS domain (e.g., vitalik.eth)",
@@ -139,16 +249,36 @@ const setReminderAction: Action = {
         return;
       }
 
-      const domain = domainMatch[1].toLowerCase();
-      
-      // Validate domain format
-      if (!ensService.isValidDomain(domain)) {
-        if (callback) {
-          await callback({
-            text: `"${domain}" doesn't appear to be a valid ENS domain. Please use the format: name.eth`,
-          });
+      // Normalize it (ENSIP-15) so it is stored and looked up the way ENS hashes it
+      let domain: string;
+      try {
+        domain = normalizeEnsName(mentionedDomain);
+      } catch (error) {
+        if (error instanceof InvalidEnsNameError) {
+          if (callback) {
+            await callback({
+              text: `"${error.input}" doesn't appear to be a valid ENS domain: ${error.reason}. Please use the format: name.eth`,
+            });
+          }
+          return;
         }
-        return;
+        throw error;
+      }
+
+      // Parse custom reminder intervals, e.g. "60, 14 and 3 days before"
+      let customIntervals: number[] | null;
+      try {
+        customIntervals = parseReminderIntervals(text);
+      } catch (error) {
+        if (error instanceof InvalidReminderIntervalError) {
+          if (callback) {
+            await callback({
+              text: `${error.message}. Try something like "remind me about ${domain} 60, 14 and 3 days before".`,
+            });
+          }
+          return;
+        }
+        throw error;
       }
 
       // Get expiry date
@@ -156,56 +286,78 @@ const setReminderAction: Action = {
       if (!expiryDate) {
         if (callback) {
           await callback({
-            text: `I couldn't find an expiry date for "${domain}". This domain may not be registered or may be a subdomain.`,
+            text: `I couldn't find an expiry date for "${domain}". This domain may not be registered${isSubname(domain) ? ", or its parent may have expired" : ""}.`,
           });
         }
         return;
       }
 
-      // Check if domain is already expired
-      const now = new Date();
-      if (expiryDate < now) {
+      const walletAddress = message.entityId; // Using entityId as wallet address
+      const trackingMode = getRequestedTrackingMode(text);
+
+      // Only active domains can be tracked, as it's too late to remind the owner; expired ones can still be watched until they're released
+      const lifecycle = getDomainLifecycle(expiryDate, getClock().now(), domain);
+      if (lifecycle.state !== 'active' && (trackingMode === 'owner' || lifecycle.state === 'available' || lifecycle.state === 'expired')) {
         if (callback) {
           await callback({
-            text: `⚠️ "${domain}" has already expired on ${expiryDate.toDateString()}. You may still be able to renew it during the grace period.`,
+            text: `"${domain}" already expired on ${expiryDate.toDateString()}.\n\n${getStatusMessage(lifecycle)}`,
           });
         }
         return;
       }
 
-      // Get database client (mock or real)
-      const database = getDatabaseClient(runtime);
-
-      // Store reminder in database
-      const walletAddress = message.entityId; // Using entityId as wallet address
-      const reminderData = {
-        domain,
-        wallet_address: walletAddress,
-        expiry_date: expiryDate.toISOString(),
-        reminders_sent: JSON.stringify([]),
-        created_at: new Date().toISOString()
-      };
+      // In owned-names-only mode, reminders are only for names the sender holds
+      if (trackingMode === 'owner' && ownedNamesOnly(runtime)) {
+        const held = await ensService.isHeldBy(domain, walletAddress);
+        if (held !== true) {
+          if (callback) {
+            await callback({
+              text: held === null
+                ? `I couldn't check who holds "${domain}" right now. Please try again later.`
+                : `🔒 Your wallet doesn't hold "${domain}", so I can't set an expiry reminder for it.
 
-      const insertResult = database.from('reminders').insert(reminderData);
-      
-      // Handle the result based on whether it's mock or real database
-      let error = null;
-      if (typeof insertResult.then === 'function') {
-        // Mock database returns a promise-like object
-        await new Promise((resolve) => {
-          insertResult.then((result: any) => {
-            error = result.error;
-            resolve(result);
-          });
-        });
-      } else {
-        // Real Supabase client
-        const result = await insertResult;
-        error = result.error;
+To follow it anyway, say "watch ${domain}" and I'll let you know when it expires and is released.`,
+            });
+          }
+          return;
+        }
       }
 
-      if (error) {
-        console.error("Supabase error:", error);
+      const { reminders, sentReminders } = getRepositories(runtime);
+
+      let existing: ReminderRecord | null;
+      try {
+        // Look up an existing reminder for this wallet and domain
+        existing = await reminders.findByWalletAndDomain(walletAddress, domain);
+
+        // Upsert on (wallet_address, domain) so repeated requests refresh instead of duplicating
+        const reminderData: ReminderInput = {
+          domain,
+          wallet_address: walletAddress,
+          expiry_date: expiryDate.toISOString(),
+          tracking_mode: trackingMode
+        };
+        if (!existing) {
+          reminderData.reminders_sent = JSON.stringify([]);
+          reminderData.created_at = getClock().now().toISOString();
+        }
+        if (customIntervals || !existing) {
+          reminderData.reminder_intervals = JSON.stringify(customIntervals || DEFAULT_REMINDER_INTERVALS);
+        }
+
+        const saved = await reminders.upsert(reminderData);
+
+        // The name was renewed since it was last synced: start its reminders over for the new expiry
+        if (existing && isRenewal(new Date(existing.expiry_date), expiryDate)) {
+          await sentReminders.deleteForReminder(existing.id!);
+        }
+
+        // A watched name that already expired is told about its current phase in the reply, so the first notice is for the next one
+        if (lifecycle.state !== 'active' && !(await sentReminders.getSentTypes(saved.id!)).includes(lifecycle.state)) {
+          await sentReminders.markSent(saved.id!, lifecycle.state);
+        }
+      } catch (error) {
+        console.error("[ENS Plugin] Failed to save reminder:", error);
         if (callback) {
           await callback({
             text: "Sorry, I encountered an error setting up your reminder. Please try again later.",
@@ -214,11 +366,41 @@ const setReminderAction: Action = {
         return;
       }
 
-      const daysUntilExpiry = Math.ceil((expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+      const intervals = customIntervals
+        || parseStoredIntervals(existing?.reminder_intervals)
+        || DEFAULT_REMINDER_INTERVALS;
+      if (existing) {
+        const previousExpiry = new Date(existing.expiry_date);
+        const changeNote = previousExpiry.getTime() !== expiryDate.getTime()
+          ? ` (previously ${previousExpiry.toDateString()})`
+          : "";
+
+        if (callback) {
+          await callback({
+            text: lifecycle.state === 'active'
+              ? `🔄 Already ${trackingMode === 'watch' ? "watching" : "tracking"} "${domain}", expiry refreshed.\n\n📅 Expires: ${expiryDate.toDateString()}${changeNote} (${lifecycle.daysUntilExpiry} days from now)\n🔔 Reminders: ${formatReminderIntervals(intervals)} days before expiration`
+              : `🔄 Already watching "${domain}", expiry refreshed.\n\n📅 Expired: ${expiryDate.toDateString()}${changeNote}\n\n${getStatusMessage(lifecycle)}`,
+          });
+        }
+        return;
+      }
 
       if (callback) {
+        let responseText: string;
+        if (trackingMode === 'owner') {
+          responseText = `✅ Reminder set for "${domain}"!\n\n📅 Expires: ${expiryDate.toDateString()} (${lifecycle.daysUntilExpiry} days from now)\n\nI'll send you notifications at ${formatReminderIntervals(intervals)} day intervals before expiration.`;
+        } else if (lifecycle.state === 'active') {
+          responseText = `👀 Watching "${domain}"!\n\n📅 Expires: ${expiryDate.toDateString()} (${lifecycle.daysUntilExpiry} days from now)\n\nI'll let you know ${formatReminderIntervals(intervals)} days before it expires, and again if it's released for registration.`;
+        } else {
+          responseText = `👀 Watching "${domain}"!\n\n📅 Expired: ${expiryDate.toDateString()}\n\n${getStatusMessage(lifecycle)}\n\n${
+            lifecycle.state === 'grace_period'
+              ? "I'll let you know if its owner renews it, or when it's released for registration."
+              : "I'll let you know when the premium auction ends and anyone can register it at the standard price."
+          }`;
+        }
+
         await callback({
-          text: `✅ Reminder set for "${domain}"!\n\n📅 Expires: ${expiryDate.toDateString()} (${daysUntilExpiry} days from now)\n\nI'll send you notifications at 30, 7, and 1 day intervals before expiration.`,
+          text: responseText,
         });
       }
 
@@ -243,6 +425,30 @@ const setReminderAction: Action = {
           text: "I'll check the expiration date for vitalik.eth and set up reminders for you."
         }
       }
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "remind me about nick.eth 60, 14 and 3 days before" }
+      },
+      {
+        name: "{{user2}}",
+        content: {
+          text: "I'll remind you about nick.eth 60, 14, and 3 days before it expires."
+        }
+      }
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "watch ethereum.eth" }
+      },
+      {
+        name: "{{user2}}",
+        content: {
+          text: "I'll watch ethereum.eth and let you know when it expires and is released."
+        }
+      }
     ]
   ]
 };
@@ -263,7 +469,8 @@ const listRemindersAction: Action = {
       text.includes("list") ||
       text.includes("show") ||
       text.includes("my reminders") ||
-      text.includes("reminders")
+      text.includes("reminders") ||
+      /\b(tracking|watching)\b/.test(text)
     );
   },
   handler: async (
@@ -274,33 +481,14 @@ const listRemindersAction: Action = {
     callback?: HandlerCallback
   ) => {
     try {
-      const database = getDatabaseClient(runtime);
       const walletAddress = message.entityId;
-      
-      // Get user's reminders
-      const selectQuery = database.from('reminders').select('*');
-      
-      let reminders = null;
-      let error = null;
-      
-      if (typeof selectQuery.eq === 'function') {
-        // Mock database
-        await new Promise((resolve) => {
-          selectQuery.eq('wallet_address', walletAddress).then((result: any) => {
-            reminders = result.data;
-            error = result.error;
-            resolve(result);
-          });
-        });
-      } else {
-        // Real Supabase client
-        const result = await selectQuery.eq('wallet_address', walletAddress).order('expiry_date', { ascending: true });
-        reminders = result.data;
-        error = result.error;
-      }
 
-      if (error) {
-        console.error("Supabase error:", error);
+      // Get user's reminders
+      let reminders: ReminderRecord[];
+      try {
+        reminders = await getRepositories(runtime).reminders.findByWallet(walletAddress);
+      } catch (error) {
+        console.error("[ENS Plugin] Failed to list reminders:", error);
         if (callback) {
           await callback({
             text: "Sorry, I encountered an error retrieving your reminders. Please try again later.",
@@ -318,29 +506,30 @@ const listRemindersAction: Action = {
         return;
       }
 
-      const now = new Date();
+      // Show the current on-chain expiry, falling back to the stored one if the name can't be looked up
+      const currentExpiries = await new ENSService(getEnsDataSource(runtime)).getExpiryDates(reminders.map(reminder => reminder.domain));
+      const getExpiry = (reminder: ReminderRecord) => currentExpiries.get(reminder.domain) ?? new Date(reminder.expiry_date);
+      reminders.sort((a, b) => getExpiry(a).getTime() - getExpiry(b).getTime());
+
+      const now = getClock().now();
       let responseText = "📝 Your ENS Domain Reminders:\n\n";
 
       for (const reminder of reminders) {
-        const expiryDate = new Date(reminder.expiry_date);
-        const daysUntilExpiry = Math.ceil((expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-        
-        let status = "";
-        if (daysUntilExpiry <= 0) {
-          status = "⚠️ EXPIRED";
-        } else if (daysUntilExpiry <= 1) {
-          status = "🚨 EXPIRES TODAY";
-        } else if (daysUntilExpiry <= 7) {
-          status = "⚡ EXPIRES SOON";
-        } else if (daysUntilExpiry <= 30) {
-          status = "⏰ EXPIRES THIS MONTH";
-        } else {
-          status = "✅ ACTIVE";
-        }
+        const expiryDate = getExpiry(reminder);
+        const lifecycle = getDomainLifecycle(expiryDate, now, reminder.domain);
 
-        responseText += `${status} ${reminder.domain}\n`;
+        responseText += `${getStatusLabel(lifecycle)} ${reminder.domain}\n`;
+        if (reminder.tracking_mode === 'watch') {
+          responseText += `   👀 Watching - not held by your wallet\n`;
+        }
         responseText += `   📅 Expires: ${expiryDate.toDateString()}\n`;
-        responseText += `   ⏳ ${daysUntilExpiry > 0 ? daysUntilExpiry + ' days remaining' : 'Expired'}\n\n`;
+        responseText += `   ⏳ ${getTimeRemainingText(lifecycle)}\n`;
+
+        const intervals = parseStoredIntervals(reminder.reminder_intervals);
+        if (intervals && !isDefaultReminderIntervals(intervals)) {
+          responseText += `   🔔 Reminders: ${formatReminderIntervals(intervals)} days before\n`;
+        }
+        responseText += "\n";
       }
 
       if (callback) {
@@ -404,26 +593,58 @@ const checkExpiryAction: Action = {
     callback?: HandlerCallback
   ) => {
     try {
-      const rpcUrl = runtime.getSetting("ETHEREUM_RPC_URL") || "https://eth-mainnet.alchemyapi.io/v2/demo";
-      const ensService = new ENSService(rpcUrl);
+      const ensService = new ENSService(getEnsDataSource(runtime));
       const text = message.content.text || '';
       
-      // Extract domain from message
-      const domainMatch = text.match(/([a-z0-9-]+\.eth)/i);
-      if (!domainMatch) {
+      // Extract and normalize domains from message
+      const { names: domains, invalid } = extractEnsNames(text);
+      if (domains.length === 0) {
+        if (callback) {
+          await callback({
+            text: invalid.length > 0
+              ? `${formatInvalidNames(invalid)}\n\nPlease use the format: name.eth`
+              : "Please specify a valid ENS domain to check (e.g., vitalik.eth)",
+          });
+        }
+        return;
+      }
+
+      // Several domains are looked up in one batch and summarized
+      if (domains.length + invalid.length > 1) {
+        const expiryDates = await ensService.getExpiryDates(domains);
+        const now = getClock().now();
+        let responseText = "📋 ENS Domain Info:\n\n";
+
+        for (const error of invalid) {
+          responseText += `⛔ ${error.input}\n   Not a valid ENS name: ${error.reason}\n\n`;
+        }
+
+        for (const domain of domains) {
+          const expiryDate = expiryDates.get(domain);
+          if (!expiryDate) {
+            responseText += `❓ ${domain}\n   ${expiryDates.has(domain) ? "Not registered" : "Couldn't look up the expiry, please try again later"}\n\n`;
+            continue;
+          }
+
+          const lifecycle = getDomainLifecycle(expiryDate, now, domain);
+          responseText += `${getStatusLabel(lifecycle)} ${domain}\n`;
+          responseText += `   📅 Expires: ${expiryDate.toDateString()}\n`;
+          responseText += `   ⏳ ${getTimeRemainingText(lifecycle)}\n\n`;
+        }
+
         if (callback) {
           await callback({
-            text: "Please specify a valid ENS domain to check (e.g., vitalik.eth)",
+            text: responseText.trim(),
           });
         }
         return;
       }
 
-      const domain = domainMatch[1].toLowerCase();
+      const [domain] = domains;
       
-      // Get expiry date
-      const expiryDate = await ensService.getExpiryDate(domain);
-      if (!expiryDate) {
+      // Get lifecycle state
+      const lifecycle = await ensService.getLifecycle(domain);
+      if (!lifecycle) {
         if (callback) {
           await callback({
             text: `I couldn't find expiry information for "${domain}". This domain may not be registered.`,
@@ -432,25 +653,21 @@ const checkExpiryAction: Action = {
         return;
       }
 
-      const now = new Date();
-      const daysUntilExpiry = Math.ceil((expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+      const followUp = lifecycle.state === 'active'
+        ? `Want me to set a reminder? Just say "remind me about ${domain}"`
+        : `Manage it at https://app.ens.domains/${domain}`;
 
-      let statusMessage = "";
-      if (daysUntilExpiry <= 0) {
-        statusMessage = "⚠️ This domain has expired!";
-      } else if (daysUntilExpiry <= 1) {
-        statusMessage = "🚨 This domain expires today!";
-      } else if (daysUntilExpiry <= 7) {
-        statusMessage = "⚡ This domain expires very soon!";
-      } else if (daysUntilExpiry <= 30) {
-        statusMessage = "⏰ This domain expires within a month.";
-      } else {
-        statusMessage = "✅ This domain is active.";
+      let details = "";
+      if (await ensService.isWrapped(domain)) {
+        details += "\n🎁 Wrapped in the NameWrapper";
+      }
+      if (isSubname(domain)) {
+        details += `\n🔗 Subname of ${getParentName(domain)}, so it can't outlive it`;
       }
 
       if (callback) {
         await callback({
-          text: `📋 ENS Domain Info: ${domain}\n\n📅 Expires: ${expiryDate.toDateString()}\n⏳ ${daysUntilExpiry > 0 ? daysUntilExpiry + ' days remaining' : 'Expired'}\n\n${statusMessage}\n\nWant me to set a reminder? Just say "remind me about ${domain}"`,
+          text: `📋 ENS Domain Info: ${domain}\n\n📅 Expires: ${lifecycle.expiryDate.toDateString()}\n⏳ ${getTimeRemainingText(lifecycle)}${details}\n\n${getStatusMessage(lifecycle)}\n\n${followUp}`,
         });
       }
 
@@ -479,6 +696,329 @@ const checkExpiryAction: Action = {
   ]
 };
 
+// Remove Reminder Action
+const removeReminderAction: Action = {
+  name: "REMOVE_REMINDER",
+  similes: [
+    "STOP_TRACKING",
+    "DELETE_REMINDER",
+    "UNTRACK_DOMAIN",
+    "STOP_REMINDERS"
+  ],
+  description: "Stop tracking one or more ENS domains, or all of them",
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return (
+      text.includes("stop") ||
+      text.includes("remove") ||
+      text.includes("delete") ||
+      text.includes("untrack") ||
+      text.includes("unwatch")
+    ) && (
+      text.includes(".eth") ||
+      text.includes("all") ||
+      text.includes("reminder") ||
+      text.includes("tracking")
+    );
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: HandlerCallback
+  ) => {
+    try {
+      const text = message.content.text || '';
+
+      // Extract and normalize domains (or "all") from message
+      const { names: domains, invalid } = extractEnsNames(text);
+      const removeAll = domains.length === 0 && invalid.length === 0 && /\ball\b/i.test(text);
+
+      if (domains.length === 0 && !removeAll) {
+        if (callback) {
+          await callback({
+            text: invalid.length > 0
+              ? formatInvalidNames(invalid)
+              : "Please specify which ENS domain to stop tracking (e.g., vitalik.eth), or say \"stop tracking all\".",
+          });
+        }
+        return;
+      }
+
+      const { reminders: reminderRepository, sentReminders } = getRepositories(runtime);
+      const walletAddress = message.entityId;
+
+      let toRemove: ReminderRecord[];
+      let notTracked: string[];
+      try {
+        // Get user's reminders
+        const reminders = await reminderRepository.findByWallet(walletAddress);
+        toRemove = removeAll
+          ? reminders
+          : domains.flatMap(domain => reminders.filter(reminder => reminder.domain === domain));
+        notTracked = domains.filter(domain => !reminders.some(reminder => reminder.domain === domain));
+
+        // Delete the reminders along with their sent reminder history
+        for (const reminder of toRemove) {
+          await sentReminders.deleteForReminder(reminder.id!);
+          await reminderRepository.delete(reminder.id!);
+        }
+      } catch (error) {
+        console.error("[ENS Plugin] Failed to remove reminders:", error);
+        if (callback) {
+          await callback({
+            text: "Sorry, I encountered an error removing your reminders. Please try again later.",
+          });
+        }
+        return;
+      }
+
+      let responseText = "";
+      if (toRemove.length > 0) {
+        const removedDomains = Array.from(new Set(toRemove.map(reminder => reminder.domain)));
+        responseText += `🗑️ Stopped tracking: ${removedDomains.join(", ")}\n\nYou won't receive any more expiry reminders for ${removedDomains.length === 1 ? "this domain" : "these domains"}.`;
+      } else if (removeAll) {
+        responseText += "You don't have any active ENS domain reminders to remove.";
+      }
+
+      if (notTracked.length > 0) {
+        responseText += `${responseText ? "\n\n" : ""}ℹ️ I wasn't tracking: ${notTracked.join(", ")}`;
+      }
+
+      if (invalid.length > 0) {
+        responseText += `\n\n${formatInvalidNames(invalid)}`;
+      }
+
+      if (callback) {
+        await callback({
+          text: responseText,
+        });
+      }
+
+    } catch (error) {
+      console.error("Error removing reminder:", error);
+      if (callback) {
+        await callback({
+          text: "Sorry, I encountered an error removing your reminders. Please try again later.",
+        });
+      }
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "stop tracking vitalik.eth" }
+      },
+      {
+        name: "{{user2}}",
+        content: {
+          text: "I'll stop sending you expiry reminders for vitalik.eth."
+        }
+      }
+    ]
+  ]
+};
+
+// Import Names Action
+const importNamesAction: Action = {
+  name: "IMPORT_NAMES",
+  similes: [
+    "TRACK_ALL_NAMES",
+    "IMPORT_DOMAINS",
+    "TRACK_MY_NAMES"
+  ],
+  description: "Find the ENS names the user's wallet holds, preview their expiries and set reminders for the ones they confirm",
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return /\bimport\b/.test(text) || /\ball (of )?my (ens )?(names|domains)\b/.test(text);
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: HandlerCallback
+  ) => {
+    try {
+      const text = message.content.text || '';
+      const walletAddress = message.entityId;
+      const confirming = /\bconfirm\b/i.test(text);
+
+      // A confirmation only covers the names the sender was shown in their last preview
+      const offered = confirming ? pendingImports.get(walletAddress) : null;
+      if (confirming && !offered) {
+        if (callback) {
+          await callback({
+            text: "There's no import waiting for your confirmation, or it has expired. Say 'import my names' to see the names your wallet holds first.",
+          });
+        }
+        return;
+      }
+
+      let ownedNames: string[];
+      try {
+        ownedNames = await getOwnedNameSource(runtime).getOwnedNames(walletAddress);
+      } catch (error) {
+        console.error("[ENS Plugin] Failed to find owned names:", error);
+        if (callback) {
+          await callback({
+            text: "Sorry, I couldn't look up the names your wallet holds. Please try again later.",
+          });
+        }
+        return;
+      }
+
+      if (ownedNames.length === 0) {
+        if (callback) {
+          await callback({
+            text: "I didn't find any .eth names held by your wallet. You can still set reminders one at a time with 'remind me about domain.eth'.",
+          });
+        }
+        return;
+      }
+
+      const { reminders } = getRepositories(runtime);
+      let tracked: Set<string>;
+      try {
+        tracked = new Set((await reminders.findByWallet(walletAddress)).map(reminder => reminder.domain));
+      } catch (error) {
+        console.error("[ENS Plugin] Failed to list reminders:", error);
+        if (callback) {
+          await callback({
+            text: "Sorry, I encountered an error retrieving your reminders. Please try again later.",
+          });
+        }
+        return;
+      }
+
+      const expiryDates = await new ENSService(getEnsDataSource(runtime)).getExpiryDates(ownedNames);
+      const now = getClock().now();
+      const getLifecycle = (name: string) => {
+        const expiryDate = expiryDates.get(name);
+        return expiryDate ? getDomainLifecycle(expiryDate, now, name) : null;
+      };
+
+      // Only active names that aren't tracked yet can be imported, soonest expiry first
+      ownedNames.sort((a, b) => (expiryDates.get(a)?.getTime() ?? Infinity) - (expiryDates.get(b)?.getTime() ?? Infinity));
+      const importable = ownedNames.filter(name => !tracked.has(name) && getLifecycle(name)?.state === 'active');
+
+      // Without a confirmation, show what would be imported and remember it for the confirmation
+      if (!offered) {
+        pendingImports.set(walletAddress, importable);
+
+        let responseText = `📥 Found ${ownedNames.length} .eth name${ownedNames.length === 1 ? "" : "s"} held by your wallet:\n\n`;
+
+        for (const name of ownedNames) {
+          const lifecycle = getLifecycle(name);
+          if (!lifecycle) {
+            responseText += `❓ ${name}\n   Couldn't look up the expiry\n\n`;
+            continue;
+          }
+
+          responseText += `${getStatusLabel(lifecycle)} ${name}\n`;
+          responseText += `   📅 Expires: ${lifecycle.expiryDate.toDateString()}\n`;
+          if (tracked.has(name)) {
+            responseText += "   🔔 Already tracking\n";
+          } else if (lifecycle.state !== 'active') {
+            responseText += `   ⏳ ${getTimeRemainingText(lifecycle)}\n`;
+          }
+          responseText += "\n";
+        }
+
+        responseText += importable.length > 0
+          ? `Reply "confirm import" to track ${importable.length === 1 ? "it" : `all ${importable.length} new names`}, or "confirm import" followed by the names you want, e.g. "confirm import ${importable[0]}".`
+          : "There's nothing new to import: I'm already tracking every active name your wallet holds.";
+
+        if (callback) {
+          await callback({
+            text: responseText.trim(),
+          });
+        }
+        return;
+      }
+
+      // Import the names picked in the confirmation, or all of the ones offered, if they are still importable
+      const { names: picked } = extractEnsNames(text);
+      const confirmable = importable.filter(name => offered.includes(name));
+      const selected = picked.length > 0 ? confirmable.filter(name => picked.includes(name)) : confirmable;
+      const skipped = picked.filter(name => !confirmable.includes(name));
+
+      const imported: string[] = [];
+      try {
+        for (const name of selected) {
+          await reminders.upsert({
+            domain: name,
+            wallet_address: walletAddress,
+            expiry_date: expiryDates.get(name)!.toISOString(),
+            reminders_sent: JSON.stringify([]),
+            reminder_intervals: JSON.stringify(DEFAULT_REMINDER_INTERVALS),
+            tracking_mode: 'owner',
+            created_at: now.toISOString()
+          });
+          imported.push(name);
+        }
+      } catch (error) {
+        console.error("[ENS Plugin] Failed to import reminders:", error);
+      }
+      pendingImports.remove(walletAddress, imported);
+
+      let responseText = imported.length > 0
+        ? `✅ Now tracking ${imported.length} name${imported.length === 1 ? "" : "s"}: ${imported.join(", ")}\n\nI'll send you notifications at ${formatReminderIntervals(DEFAULT_REMINDER_INTERVALS)} day intervals before each one expires.`
+        : "I didn't import any names.";
+
+      if (imported.length < selected.length) {
+        responseText += `\n\nSorry, I encountered an error importing ${selected.slice(imported.length).join(", ")}. Please try again later.`;
+      }
+
+      if (skipped.length > 0) {
+        responseText += `\n\nℹ️ Not imported, as they weren't in the names I offered, your wallet doesn't hold them, they aren't active or I'm already tracking them: ${skipped.join(", ")}`;
+      }
+
+      if (callback) {
+        await callback({
+          text: responseText,
+        });
+      }
+
+    } catch (error) {
+      console.error("Error importing names:", error);
+      if (callback) {
+        await callback({
+          text: "Sorry, I encountered an error importing your names. Please try again later.",
+        });
+      }
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "track all my names" }
+      },
+      {
+        name: "{{user2}}",
+        content: {
+          text: "Here are the .eth names your wallet holds. Reply \"confirm import\" to track them."
+        }
+      }
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "confirm import vitalik.eth" }
+      },
+      {
+        name: "{{user2}}",
+        content: {
+          text: "I'll start tracking vitalik.eth."
+        }
+      }
+    ]
+  ]
+};
+
 // Plugin definition
 export const ensReminderPlugin: Plugin = {
   name: "ens-reminder",
@@ -486,13 +1026,27 @@ export const ensReminderPlugin: Plugin = {
   actions: [
     setReminderAction,
     listRemindersAction,
-    checkExpiryAction
+    checkExpiryAction,
+    removeReminderAction,
+    importNamesAction
   ],
   providers: [],
   evaluators: [],
   services: []
 };
 
+// Actions that handle inbound DMs, in routing order. REMOVE_REMINDER and IMPORT_NAMES go before
+// SET_REMINDER so "stop watching x.eth" or "import x.eth and track it" never set a reminder, and
+// SET_REMINDER only takes a remind / track / watch request naming a .eth name, so lists and checks
+// like "show my tracked domains" or "check x.eth and show reminders" reach the actions after it.
+export const inboundActions: Action[] = [
+  removeReminderAction,
+  importNamesAction,
+  setReminderAction,
+  checkExpiryAction,
+  listRemindersAction
+];
+
 // Enhanced service initialization
 export async function initializeENSReminderService(runtime: IAgentRuntime) {
   console.log('[ENS Plugin] Initializing ENS Reminder Plugin');
@@ -506,8 +1060,16 @@ export async function initializeENSReminderService(runtime: IAgentRuntime) {
       console.log('[ENS Plugin] Running in mock mode - using mock services');
       // Mock services are already initialized in the test setup
     } else {
-      console.log('[ENS Plugin] Running in production mode - would initialize real services');
-      // TODO: Initialize real XMTP and Supabase services
+      console.log('[ENS Plugin] Running in production mode - connecting XMTP and starting the scheduler');
+      const reminderService = await initializeReminderService(runtime);
+
+      const router = new InboundMessageRouter({
+        runtime,
+        transport: reminderService.getTransport(),
+        actions: inboundActions,
+        conversations: reminderService.getConversationTracker()
+      });
+      router.start();
     }
     
     console.log('[ENS Plugin] ENS Reminder Plugin initialized successfully');
@@ -0,0 +1,99 @@
+/**
+ * Generates schema.sql and the record types from the schema definition
+ */
+
+import { renderColumn, renderOperation, SqlDialect } from "../services/migration-runner";
+import { POSTGRES_EXTRAS, SCHEMA, SCHEMA_TYPES, SchemaColumn, TableSchema } from "./tables";
+
+const GENERATED_NOTE = "Generated from src/schema/tables.ts by `npm run generate-schema`; do not edit by hand";
+
+function renderTableSql(table: TableSchema, index: number, dialect: SqlDialect): string {
+  const columns = table.columns.map((column, position) => {
+    const separator = position < table.columns.length - 1 ? ',' : '';
+    const comment = column.comment ? ` -- ${column.comment}` : '';
+    return `    ${renderColumn(column, dialect)}${separator}${comment}`;
+  });
+
+  return `-- Table ${index + 1}: ${table.name} - ${table.comment}
+CREATE TABLE IF NOT EXISTS ${table.name} (
+${columns.join('\n')}
+);`;
+}
+
+function renderIndexesSql(table: TableSchema, dialect: SqlDialect): string {
+  return table.indexes
+    .flatMap(index => renderOperation({ type: 'create_index', table: table.name, ...index }, dialect))
+    .map(statement => `${statement};`)
+    .join('\n');
+}
+
+/**
+ * Render the full schema as SQL. The Postgres rendering is schema.sql.
+ */
+export function renderSchemaSql(dialect: SqlDialect = 'postgres'): string {
+  const sections = [
+    `-- ENS Service Database Schema
+-- ${GENERATED_NOTE}.
+-- Databases are created and upgraded by the migrations in src/migrations (npm run migrate).`,
+    ...SCHEMA.map((table, index) => renderTableSql(table, index, dialect)),
+    `-- Indexes for performance\n${SCHEMA.map(table => renderIndexesSql(table, dialect)).join('\n\n')}`
+  ];
+  if (dialect === 'postgres') {
+    sections.push(`${POSTGRES_EXTRAS.trim()};`);
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+function renderFieldType(column: SchemaColumn): string {
+  if (column.tsType) {
+    return column.tsType;
+  }
+
+  switch (column.type) {
+    case 'primary_key':
+    case 'foreign_key':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'text':
+    case 'timestamp':
+    case 'json':
+      return 'string';
+  }
+}
+
+/**
+ * Whether a record always has a column: ids are assigned by the database,
+ * and columns that are NOT NULL or have a default are always filled in
+ */
+export function isRequiredField(column: SchemaColumn): boolean {
+  return column.type !== 'primary_key' && (column.notNull === true || column.default !== undefined);
+}
+
+function renderRecordInterface(table: TableSchema): string {
+  const fields = table.columns.map(column => {
+    const comment = column.comment ? `  /** ${column.comment} */\n` : '';
+    return `${comment}  ${column.name}${isRequiredField(column) ? '' : '?'}: ${renderFieldType(column)};`;
+  });
+
+  return `/** Row in ${table.name}: ${table.comment} */
+export interface ${table.recordType} {
+${fields.join('\n')}
+}`;
+}
+
+/**
+ * Render the TypeScript record types, written to src/schema/records.ts
+ */
+export function renderRecordTypes(): string {
+  const types = SCHEMA_TYPES.map(type => `// ${type.comment}\nexport type ${type.name} = ${type.type};`);
+
+  return `/**
+ * Record types for the database tables
+ * ${GENERATED_NOTE}
+ */
+
+${[...types, ...SCHEMA.map(renderRecordInterface)].join('\n\n')}
+`;
+}
@@ -0,0 +1,65 @@
+/**
+ * Record types for the database tables
+ * Generated from src/schema/tables.ts by `npm run generate-schema`; do not edit by hand
+ */
+
+// Interval reminders are recorded as `day_<days before expiry>`, lifecycle notices by state
+export type ReminderType = `day_${number}` | 'grace_period' | 'premium_auction' | 'available' | 'expired';
+
+// Reminders are for names the user holds (owner) or only follows, e.g. to register once released (watch)
+export type TrackingMode = 'owner' | 'watch';
+
+/** Row in reminders: Stores ENS domain reminders */
+export interface ReminderRecord {
+  id?: number;
+  domain: string;
+  /** Ethereum address */
+  wallet_address: string;
+  expiry_date: string;
+  /** JSON array of reminder types sent */
+  reminders_sent: string;
+  created_at: string;
+  updated_at: string;
+  /** JSON array of days before expiry to send reminders */
+  reminder_intervals: string;
+  tracking_mode: TrackingMode;
+}
+
+/** Row in sent_reminders: Log of sent reminder messages */
+export interface SentReminderRecord {
+  id?: number;
+  reminder_id?: number;
+  /** Copied from the reminder */
+  wallet_address: string;
+  /** Copied from the reminder */
+  domain: string;
+  reminder_type: ReminderType;
+  sent_at: string;
+  /** XMTP message the reminder was delivered in */
+  message_id?: string;
+}
+
+/** Row in conversations: XMTP conversation tracking */
+export interface ConversationRecord {
+  id?: number;
+  /** The bot's wallet */
+  wallet_address: string;
+  /** XMTP conversation ID */
+  conversation_id: string;
+  /** The user's wallet (lowercased) */
+  peer_address: string;
+  last_message_at: string;
+  created_at: string;
+  /** False once the peer opts out (STOP) or blocks the bot */
+  is_active: boolean;
+}
+
+/** Row in scan_cursors: Last block processed by each on-chain event scanner */
+export interface ScanCursorRecord {
+  id?: number;
+  /** Scanner the cursor belongs to */
+  name: string;
+  /** Last block whose events were processed */
+  block_number: number;
+  updated_at: string;
+}
@@ -0,0 +1,137 @@
+/**
+ * The database schema: the single source of truth for the tables
+ * schema.sql and the record types in records.ts are generated from it (npm run generate-schema),
+ * the record validators read it, and the migrations must build exactly these tables
+ */
+
+import { ColumnDefinition, NOW } from "../migrations/types";
+import { ROW_LEVEL_SECURITY } from "../migrations/001_create_tables";
+import { TRACKING_MODE_PATTERN } from "../migrations/007_add_reminder_tracking_mode";
+import { REMINDER_TYPE_PATTERN } from "../migrations/009_add_expired_reminder_type";
+
+export interface SchemaColumn extends ColumnDefinition {
+  /** Shown in schema.sql and on the record type */
+  comment?: string;
+  /** TypeScript type for the generated record, when narrower than the column type */
+  tsType?: string;
+}
+
+export interface SchemaIndex {
+  name: string;
+  columns: string[];
+  unique?: boolean;
+}
+
+export interface TableSchema {
+  name: string;
+  /** Name of the generated record type */
+  recordType: string;
+  comment: string;
+  columns: SchemaColumn[];
+  indexes: SchemaIndex[];
+}
+
+// Named types the generated records refer to
+export const SCHEMA_TYPES: { name: string; comment: string; type: string }[] = [
+  {
+    name: 'ReminderType',
+    comment: 'Interval reminders are recorded as `day_<days before expiry>`, lifecycle notices by state',
+    type: "`day_${number}` | 'grace_period' | 'premium_auction' | 'available' | 'expired'"
+  },
+  {
+    name: 'TrackingMode',
+    comment: "Reminders are for names the user holds (owner) or only follows, e.g. to register once released (watch)",
+    type: "'owner' | 'watch'"
+  }
+];
+
+// Columns are listed in the order the migrations create them
+export const SCHEMA: TableSchema[] = [
+  {
+    name: 'reminders',
+    recordType: 'ReminderRecord',
+    comment: 'Stores ENS domain reminders',
+    columns: [
+      { name: 'id', type: 'primary_key' },
+      { name: 'domain', type: 'text', length: 255, notNull: true },
+      { name: 'wallet_address', type: 'text', length: 42, notNull: true, comment: 'Ethereum address' },
+      { name: 'expiry_date', type: 'timestamp', notNull: true },
+      { name: 'reminders_sent', type: 'json', default: '[]', comment: 'JSON array of reminder types sent' },
+      { name: 'created_at', type: 'timestamp', default: NOW },
+      { name: 'updated_at', type: 'timestamp', default: NOW },
+      { name: 'reminder_intervals', type: 'json', default: '[30, 7, 1]', comment: 'JSON array of days before expiry to send reminders' },
+      { name: 'tracking_mode', type: 'text', length: 10, notNull: true, default: 'owner', pattern: TRACKING_MODE_PATTERN, tsType: 'TrackingMode' }
+    ],
+    indexes: [
+      { name: 'idx_reminders_wallet_address', columns: ['wallet_address'] },
+      { name: 'idx_reminders_expiry_date', columns: ['expiry_date'] },
+      { name: 'idx_reminders_domain', columns: ['domain'] },
+      { name: 'idx_reminders_wallet_domain', columns: ['wallet_address', 'domain'], unique: true }
+    ]
+  },
+  {
+    name: 'sent_reminders',
+    recordType: 'SentReminderRecord',
+    comment: 'Log of sent reminder messages',
+    columns: [
+      { name: 'id', type: 'primary_key' },
+      { name: 'reminder_id', type: 'foreign_key', references: 'reminders' },
+      { name: 'wallet_address', type: 'text', length: 42, notNull: true, comment: 'Copied from the reminder' },
+      { name: 'domain', type: 'text', length: 255, notNull: true, comment: 'Copied from the reminder' },
+      { name: 'reminder_type', type: 'text', length: 20, notNull: true, pattern: REMINDER_TYPE_PATTERN, tsType: 'ReminderType' },
+      { name: 'sent_at', type: 'timestamp', default: NOW },
+      { name: 'message_id', type: 'text', length: 255, comment: 'XMTP message the reminder was delivered in' }
+    ],
+    indexes: [
+      { name: 'idx_sent_reminders_reminder_id', columns: ['reminder_id'] },
+      { name: 'idx_sent_reminders_wallet_address', columns: ['wallet_address'] },
+      { name: 'idx_sent_reminders_sent_at', columns: ['sent_at'] }
+    ]
+  },
+  {
+    name: 'conversations',
+    recordType: 'ConversationRecord',
+    comment: 'XMTP conversation tracking',
+    columns: [
+      { name: 'id', type: 'primary_key' },
+      { name: 'wallet_address', type: 'text', length: 42, notNull: true, comment: "The bot's wallet" },
+      { name: 'conversation_id', type: 'text', length: 255, notNull: true, comment: 'XMTP conversation ID' },
+      { name: 'peer_address', type: 'text', length: 42, notNull: true, comment: "The user's wallet (lowercased)" },
+      { name: 'last_message_at', type: 'timestamp', default: NOW },
+      { name: 'created_at', type: 'timestamp', default: NOW },
+      { name: 'is_active', type: 'boolean', default: true, comment: 'False once the peer opts out (STOP) or blocks the bot' }
+    ],
+    indexes: [
+      { name: 'idx_conversations_wallet_address', columns: ['wallet_address'] },
+      { name: 'idx_conversations_conversation_id', columns: ['conversation_id'] },
+      { name: 'idx_conversations_active', columns: ['is_active'] },
+      { name: 'idx_conversations_wallet_peer', columns: ['wallet_address', 'peer_address'], unique: true }
+    ]
+  },
+  {
+    name: 'scan_cursors',
+    recordType: 'ScanCursorRecord',
+    comment: 'Last block processed by each on-chain event scanner',
+    columns: [
+      { name: 'id', type: 'primary_key' },
+      { name: 'name', type: 'text', length: 100, notNull: true, comment: 'Scanner the cursor belongs to' },
+      { name: 'block_number', type: 'integer', notNull: true, comment: 'Last block whose events were processed' },
+      { name: 'updated_at', type: 'timestamp', default: NOW }
+    ],
+    indexes: [
+      { name: 'idx_scan_cursors_name', columns: ['name'], unique: true }
+    ]
+  }
+];
+
+// Row level security policies and the updated_at trigger, which only exist on Postgres
+export const POSTGRES_EXTRAS = ROW_LEVEL_SECURITY;
+
+export type TableName = 'reminders' | 'sent_reminders' | 'conversations' | 'scan_cursors';
+
+/**
+ * Get a table's schema
+ */
+export function getTableSchema(table: string): TableSchema | undefined {
+  return SCHEMA.find(candidate => candidate.name === table);
+}
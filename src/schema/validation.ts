@@ -0,0 +1,84 @@
+/**
+ * Record validators built from the schema definition
+ * They check what the database would: required columns, value types and patterns
+ */
+
+import { ColumnDefinition } from "../migrations/types";
+import { getTableSchema, TableName } from "./tables";
+
+export interface RecordIssue {
+  column: string;
+  problem: 'required' | 'type' | 'pattern' | 'unknown';
+  message: string;
+}
+
+function checkType(column: ColumnDefinition, value: unknown): string | null {
+  switch (column.type) {
+    case 'primary_key':
+    case 'foreign_key':
+    case 'integer':
+      return Number.isInteger(value) ? null : 'must be an integer';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be a boolean';
+    case 'text':
+      return typeof value === 'string' ? null : 'must be a string';
+    case 'timestamp':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? null : 'must be an ISO 8601 timestamp';
+    case 'json':
+      if (typeof value !== 'string') {
+        return 'must be JSON text';
+      }
+      try {
+        JSON.parse(value);
+        return null;
+      } catch {
+        return 'must be JSON text';
+      }
+  }
+}
+
+/**
+ * Check a record against column definitions.
+ * With `partial`, as for updates, only the columns present are checked.
+ */
+export function validateColumns(
+  table: string,
+  columns: ColumnDefinition[],
+  record: Record<string, unknown>,
+  { partial = false }: { partial?: boolean } = {}
+): RecordIssue[] {
+  const issues: RecordIssue[] = [];
+
+  for (const name of Object.keys(record)) {
+    if (record[name] !== undefined && !columns.some(column => column.name === name)) {
+      issues.push({ column: name, problem: 'unknown', message: `${table} has no column ${name}` });
+    }
+  }
+
+  for (const column of columns) {
+    const value = record[column.name];
+    if (value === undefined || value === null) {
+      const omitted = value === undefined && (partial || column.default !== undefined || column.type === 'primary_key');
+      if (column.notNull && !omitted) {
+        issues.push({ column: column.name, problem: 'required', message: `${table}.${column.name} is required` });
+      }
+      continue;
+    }
+
+    const typeError = checkType(column, value);
+    if (typeError) {
+      issues.push({ column: column.name, problem: 'type', message: `${table}.${column.name} ${typeError}` });
+    } else if (column.pattern && !new RegExp(column.pattern).test(value as string)) {
+      issues.push({ column: column.name, problem: 'pattern', message: `${table}.${column.name} must match ${column.pattern}` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check a record against a table in the schema definition
+ */
+export function validateRecord(table: TableName, record: Record<string, unknown>, options?: { partial?: boolean }): RecordIssue[] {
+  return validateColumns(table, getTableSchema(table)!.columns, record, options);
+}
@@ -0,0 +1,68 @@
+/**
+ * Clock abstraction shared by the reminder service, plugin actions and mock services
+ * Production reads the system time; tests install a FakeClock to move virtual time around
+ */
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date()
+};
+
+export class FakeClock implements Clock {
+  private time: number;
+
+  constructor(start: Date = new Date()) {
+    this.time = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  /**
+   * Jump to a specific time
+   */
+  setTime(date: Date): void {
+    this.time = date.getTime();
+  }
+
+  /**
+   * Move time forward by a number of milliseconds
+   */
+  advance(ms: number): void {
+    this.time += ms;
+  }
+
+  /**
+   * Move time forward by a number of days
+   */
+  advanceDays(days: number): void {
+    this.advance(days * 24 * 60 * 60 * 1000);
+  }
+}
+
+let currentClock: Clock = systemClock;
+
+/**
+ * Get the clock in use
+ */
+export function getClock(): Clock {
+  return currentClock;
+}
+
+/**
+ * Replace the clock in use (for testing)
+ */
+export function setClock(clock: Clock): void {
+  currentClock = clock;
+}
+
+/**
+ * Restore the system clock
+ */
+export function resetClock(): void {
+  currentClock = systemClock;
+}
@@ -0,0 +1,171 @@
+/**
+ * Conversation tracking for the messaging layer
+ * Keeps the conversations table in step with every inbound and outbound message, and records opt-outs and blocks
+ */
+
+import { ConversationRecord } from "../schema/records";
+import { ConversationRepository, createInMemoryRepositories } from "./repositories";
+import { getClock } from "./clock";
+import {
+  MessagingStats,
+  MessagingTransport,
+  PeerUnavailableError,
+  TransportConversation,
+  TransportMessage
+} from "./messaging-transport";
+
+export type ConsentCommand = 'opt_out' | 'opt_in';
+
+// Whole-message commands, so "stop tracking vitalik.eth" is still routed to REMOVE_REMINDER
+const OPT_OUT_COMMANDS = ["stop", "unsubscribe", "opt out", "opt-out", "optout", "block"];
+const OPT_IN_COMMANDS = ["start", "subscribe", "resubscribe", "opt in", "opt-in", "optin", "unblock"];
+
+/**
+ * Recognise an opt-out or opt-in command, or null for any other message
+ */
+export function getConsentCommand(text: string): ConsentCommand | null {
+  const command = text.trim().toLowerCase().replace(/[.!]+$/, "");
+  if (OPT_OUT_COMMANDS.includes(command)) {
+    return 'opt_out';
+  }
+  if (OPT_IN_COMMANDS.includes(command)) {
+    return 'opt_in';
+  }
+  return null;
+}
+
+export class ConversationTracker {
+  constructor(
+    private readonly transport: MessagingTransport,
+    private readonly repository: ConversationRepository = createInMemoryRepositories().conversations
+  ) {}
+
+  /**
+   * Create or refresh the conversation record for a message
+   */
+  async recordMessage(message: TransportMessage, direction: 'inbound' | 'outbound'): Promise<void> {
+    const peerAddress = direction === 'inbound' ? message.sender : message.recipient;
+
+    try {
+      await this.repository.upsert({
+        wallet_address: this.getBotAddress(),
+        peer_address: peerAddress.toLowerCase(),
+        conversation_id: message.conversation,
+        last_message_at: message.timestamp.toISOString()
+      });
+    } catch (error) {
+      console.error(`[Conversations] Failed to record ${direction} message for ${peerAddress}:`, error);
+    }
+  }
+
+  /**
+   * Mark a peer's conversation active or inactive, creating the record if needed
+   */
+  async setActive(peerAddress: string, isActive: boolean): Promise<void> {
+    const existing = await this.getConversation(peerAddress);
+
+    await this.repository.upsert({
+      wallet_address: this.getBotAddress(),
+      peer_address: peerAddress.toLowerCase(),
+      conversation_id: existing?.conversation_id || peerAddress.toLowerCase(),
+      is_active: isActive,
+      ...(existing ? {} : { created_at: getClock().now().toISOString() })
+    });
+
+    console.log(`[Conversations] Marked conversation with ${peerAddress} ${isActive ? "active" : "inactive"}`);
+  }
+
+  /**
+   * Check whether the bot may message a peer. Peers without a conversation yet are active.
+   */
+  async isActive(peerAddress: string): Promise<boolean> {
+    const conversation = await this.getConversation(peerAddress);
+    return conversation?.is_active !== false;
+  }
+
+  /**
+   * Get the conversation record with a peer
+   */
+  async getConversation(peerAddress: string): Promise<ConversationRecord | null> {
+    return this.repository.findByPeer(this.getBotAddress(), peerAddress.toLowerCase());
+  }
+
+  private getBotAddress(): string {
+    return this.transport.getAddress().toLowerCase();
+  }
+}
+
+/**
+ * Messaging transport decorator that records every message in the conversations table,
+ * and marks a conversation inactive when the peer can no longer be messaged
+ */
+export class TrackedTransport implements MessagingTransport {
+  readonly conversations: ConversationTracker;
+
+  constructor(private readonly inner: MessagingTransport, repository?: ConversationRepository) {
+    this.conversations = new ConversationTracker(inner, repository);
+  }
+
+  get kind(): string {
+    return this.inner.kind;
+  }
+
+  getAddress(): string {
+    return this.inner.getAddress();
+  }
+
+  connect(): Promise<void> {
+    return this.inner.connect();
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  isReady(): boolean {
+    return this.inner.isReady();
+  }
+
+  async sendMessage(recipientAddress: string, content: string): Promise<TransportMessage> {
+    try {
+      const message = await this.inner.sendMessage(recipientAddress, content);
+      await this.conversations.recordMessage(message, 'outbound');
+      return message;
+    } catch (error) {
+      if (error instanceof PeerUnavailableError) {
+        await this.conversations.setActive(recipientAddress, false);
+      }
+      throw error;
+    }
+  }
+
+  streamIncoming(): AsyncIterableIterator<TransportMessage> {
+    const incoming = this.inner.streamIncoming();
+    const conversations = this.conversations;
+
+    // A plain iterator rather than an async generator, so return() ends a pending next() immediately
+    return {
+      async next(): Promise<IteratorResult<TransportMessage>> {
+        const result = await incoming.next();
+        if (!result.done) {
+          await conversations.recordMessage(result.value, 'inbound');
+        }
+        return result;
+      },
+      async return(): Promise<IteratorResult<TransportMessage>> {
+        return incoming.return ? incoming.return() : { value: undefined, done: true };
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      }
+    };
+  }
+
+  getConversations(): Promise<TransportConversation[]> {
+    return this.inner.getConversations();
+  }
+
+  getStats(): MessagingStats {
+    return this.inner.getStats();
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Cron expression parser and next-run calculator
+ * Supports standard 5-field expressions with ranges, steps, lists, month/day names and @daily-style macros
+ */
+
+import { InvalidScheduleError, isValidTimezone } from "./scheduler";
+
+export const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *"
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Longest month length for each month, allowing for leap years
+const MAX_DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Give up searching for a next run after this long (covers Feb 29 schedules)
+const SEARCH_HORIZON_MS = 8 * 366 * 24 * 60 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesOffset?: number; // Value of the first name, e.g. 1 for "jan"
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, namesOffset: 0 }
+];
+
+interface WallClock {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+export class CronExpression {
+  private constructor(
+    readonly source: string,
+    readonly expanded: string,
+    private readonly minutes: Set<number>,
+    private readonly hours: Set<number>,
+    private readonly daysOfMonth: Set<number>,
+    private readonly months: Set<number>,
+    private readonly daysOfWeek: Set<number>,
+    private readonly daysOfMonthRestricted: boolean,
+    private readonly daysOfWeekRestricted: boolean
+  ) {}
+
+  /**
+   * Parse a cron expression or macro, throwing InvalidScheduleError if it is malformed
+   */
+  static parse(expression: string): CronExpression {
+    const trimmed = expression.trim();
+    const expanded = trimmed.startsWith("@") ? CRON_MACROS[trimmed.toLowerCase()] : trimmed;
+    if (expanded === undefined) {
+      throw new InvalidScheduleError(expression, `unknown macro '${trimmed}'`);
+    }
+
+    const fields = expanded.split(/\s+/);
+    if (fields.length !== 5) {
+      throw new InvalidScheduleError(expression, "expected 5 fields (minute hour day-of-month month day-of-week)");
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+      (field, index) => parseField(expression, field, FIELDS[index])
+    );
+
+    // Sunday can be written as 0 or 7
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+
+    const cronExpression = new CronExpression(
+      expression,
+      expanded,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      // As in standard cron, a day field starting with "*" (e.g. "*/2") counts as unrestricted
+      !fields[2].startsWith("*"),
+      !fields[4].startsWith("*")
+    );
+
+    if (!cronExpression.canEverMatch()) {
+      throw new InvalidScheduleError(expression, "day of month never occurs in the selected months");
+    }
+
+    return cronExpression;
+  }
+
+  /**
+   * Check whether an expression is valid without throwing
+   */
+  static isValid(expression: string): boolean {
+    try {
+      CronExpression.parse(expression);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Get the first fire time strictly after `after`, in the given IANA timezone (host timezone if omitted)
+   */
+  next(after: Date, timezone?: string): Date {
+    if (timezone && !isValidTimezone(timezone)) {
+      throw new InvalidScheduleError(this.source, `unknown timezone '${timezone}'`);
+    }
+
+    const limit = after.getTime() + SEARCH_HORIZON_MS;
+    let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+    while (time <= limit) {
+      const wall = getWallClock(new Date(time), timezone);
+
+      // Skip whole hours at a time when the day or hour cannot match
+      if (!this.matchesDay(wall) || !this.hours.has(wall.hour)) {
+        time += (60 - wall.minute) * MINUTE_MS;
+        continue;
+      }
+
+      if (this.minutes.has(wall.minute)) {
+        return new Date(time);
+      }
+      time += MINUTE_MS;
+    }
+
+    throw new Error(`No run time found for cron expression '${this.source}'`);
+  }
+
+  /**
+   * Check whether the expression fires at the given minute
+   */
+  matches(date: Date, timezone?: string): boolean {
+    const wall = getWallClock(date, timezone);
+    return this.matchesDay(wall) && this.hours.has(wall.hour) && this.minutes.has(wall.minute);
+  }
+
+  /**
+   * Match the date fields. As in standard cron, when both day of month and day of week are
+   * restricted a day matching either one fires.
+   */
+  private matchesDay(wall: WallClock): boolean {
+    if (!this.months.has(wall.month)) {
+      return false;
+    }
+
+    const dayOfMonth = this.daysOfMonth.has(wall.day);
+    const dayOfWeek = this.daysOfWeek.has(wall.weekday);
+    if (this.daysOfMonthRestricted && this.daysOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+
+  /**
+   * Reject expressions like "0 0 31 2 *" that can never fire
+   */
+  private canEverMatch(): boolean {
+    if (this.daysOfWeekRestricted && this.daysOfMonthRestricted) {
+      return true;
+    }
+    const earliestDay = Math.min(...this.daysOfMonth);
+    return Array.from(this.months).some(month => earliestDay <= MAX_DAYS_IN_MONTH[month - 1]);
+  }
+}
+
+/**
+ * Parse one field into the set of values it matches
+ */
+function parseField(expression: string, field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText, ...rest] = part.split("/");
+    if (rest.length > 0 || range === "") {
+      throw new InvalidScheduleError(expression, `invalid ${spec.name} '${part}'`);
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!/^\d+$/.test(stepText ?? "1") || step < 1) {
+      throw new InvalidScheduleError(expression, `invalid step '${stepText}' in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else {
+      const bounds = range.split("-");
+      if (bounds.length > 2) {
+        throw new InvalidScheduleError(expression, `invalid ${spec.name} range '${range}'`);
+      }
+      start = parseValue(expression, bounds[0], spec);
+      // "5/15" means every 15 starting at 5
+      end = bounds.length === 2 ? parseValue(expression, bounds[1], spec) : stepText === undefined ? start : spec.max;
+      if (start > end) {
+        throw new InvalidScheduleError(expression, `${spec.name} range '${range}' is backwards`);
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a single number or name within a field
+ */
+function parseValue(expression: string, text: string, spec: FieldSpec): number {
+  const nameIndex = spec.names ? spec.names.indexOf(text.toLowerCase()) : -1;
+  const value = nameIndex >= 0 ? nameIndex + (spec.namesOffset ?? 0) : /^\d+$/.test(text) ? Number(text) : NaN;
+
+  if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+    throw new InvalidScheduleError(expression, `${spec.name} '${text}' must be between ${spec.min} and ${spec.max}`);
+  }
+  return value;
+}
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+/**
+ * Read the wall clock fields of a date in a timezone (host timezone if omitted)
+ */
+function getWallClock(date: Date, timezone?: string): WallClock {
+  if (!timezone) {
+    return {
+      minute: date.getMinutes(),
+      hour: date.getHours(),
+      day: date.getDate(),
+      month: date.getMonth() + 1,
+      weekday: date.getDay()
+    };
+  }
+
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short"
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase())
+  };
+}
@@ -0,0 +1,382 @@
+/**
+ * ENS Data Source abstraction
+ * Separates on-chain ENS lookups from the plugin so they can be served by RPC or by local fixtures
+ */
+
+import { IAgentRuntime } from "@elizaos/core";
+import { ethers } from "ethers";
+import { mockEnsDataSource } from "./mock-ens";
+import { getNameChain, parseEnsName } from "./ens-name";
+import { getWrappedEthExpiry } from "./ens-lifecycle";
+
+// ENS Registry Address (same on all networks)
+export const ENS_REGISTRY_ADDRESS = "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e";
+
+// ENS BaseRegistrar Address (.eth registrar)
+export const ENS_REGISTRAR_ADDRESS = "0x57f1887a8BF19b14fC0dF6Fd9B2acc9Af147eA85";
+
+// ENS NameWrapper Address (holds wrapped names and their fuses and expiries)
+export const NAME_WRAPPER_ADDRESS = "0xD4416b13d2b3a9aBae7AcD5D6C2BbDBE25686401";
+
+// Multicall3 Address (same on all networks)
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+// Names looked up per Multicall3 call
+export const DEFAULT_MULTICALL_CHUNK_SIZE = 100;
+
+const ENS_REGISTRY_ABI = [
+  "function owner(bytes32 node) external view returns (address)",
+  "function resolver(bytes32 node) external view returns (address)"
+];
+
+const ENS_REGISTRAR_ABI = [
+  "function nameExpires(uint256 id) external view returns (uint256)",
+  "function ownerOf(uint256 tokenId) external view returns (address)",
+  "function available(uint256 id) external view returns (bool)"
+];
+
+const NAME_WRAPPER_ABI = [
+  "function getData(uint256 id) external view returns (address owner, uint32 fuses, uint64 expiry)"
+];
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+];
+
+/**
+ * Registration status of a name as reported by the registrar
+ */
+export type EnsNameStatus = 'registered' | 'available';
+
+/**
+ * A name held by the NameWrapper
+ */
+export interface WrappedName {
+  owner: string | null;
+  fuses: number;
+  /** The NameWrapper's own expiry; for .eth second-level names this is the registrar expiry plus the grace period */
+  expiry: Date | null;
+}
+
+/**
+ * Result of looking up one name in a batch. A failed lookup carries its error instead of failing the batch.
+ */
+export interface ExpiryLookup {
+  domain: string;
+  expiry: Date | null;
+  error?: Error;
+}
+
+/**
+ * Source of ENS name data (expiry, ownership, resolver, status)
+ */
+export interface EnsDataSource {
+  readonly kind: string;
+
+  /**
+   * Get the effective expiry for a name, or null if it has never been registered or doesn't exist.
+   * For .eth second-level names this is the registrar expiry. A subname can't outlive its parent,
+   * so a wrapped subname's NameWrapper expiry is capped by its parent's, and an unwrapped one takes its parent's.
+   */
+  getExpiry(domain: string): Promise<Date | null>;
+
+  /**
+   * Get the effective expiries of many names at once, in the order given
+   */
+  getExpiries(domains: string[]): Promise<ExpiryLookup[]>;
+
+  /**
+   * Get a name's NameWrapper data, or null if it isn't wrapped
+   */
+  getWrappedName(domain: string): Promise<WrappedName | null>;
+
+  /**
+   * Get the ENS registry owner (controller) of a name
+   */
+  getOwner(domain: string): Promise<string | null>;
+
+  /**
+   * Get the registrant (NFT holder) of a .eth second-level name, or null for subnames, which the registrar doesn't hold
+   */
+  getRegistrant(domain: string): Promise<string | null>;
+
+  /**
+   * Get the resolver address configured for a name
+   */
+  getResolver(domain: string): Promise<string | null>;
+
+  /**
+   * Get the registration status of a name
+   */
+  getNameStatus(domain: string): Promise<EnsNameStatus>;
+}
+
+/**
+ * Convert a registrar expiry timestamp to a date, mapping 0 (never registered) to null
+ */
+function toExpiryDate(expiryTimestamp: bigint): Date | null {
+  return expiryTimestamp === 0n ? null : new Date(Number(expiryTimestamp) * 1000);
+}
+
+/**
+ * The earlier of a wrapped name's own expiry and its parent's NameWrapper expiry
+ */
+function capByParent(expiry: Date, parentWrappedExpiry: Date): Date {
+  return expiry < parentWrappedExpiry ? expiry : parentWrappedExpiry;
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Normalize an address returned by a contract, mapping the zero address to null
+ */
+function toAddressOrNull(address: string): string | null {
+  return address === ethers.ZeroAddress ? null : address;
+}
+
+/**
+ * EnsDataSource backed by a JSON-RPC provider talking to the ENS contracts
+ */
+export class RpcEnsDataSource implements EnsDataSource {
+  readonly kind = "rpc";
+  private provider: ethers.Provider;
+  private registry: ethers.Contract;
+  private registrar: ethers.Contract;
+  private nameWrapper: ethers.Contract;
+  private multicall: ethers.Contract;
+  private multicallChunkSize: number;
+
+  constructor(rpcUrl: string | ethers.Provider, options: { multicallChunkSize?: number } = {}) {
+    this.provider = typeof rpcUrl === "string" ? createMainnetProvider(rpcUrl) : rpcUrl;
+    this.registry = new ethers.Contract(ENS_REGISTRY_ADDRESS, ENS_REGISTRY_ABI, this.provider);
+    this.registrar = new ethers.Contract(ENS_REGISTRAR_ADDRESS, ENS_REGISTRAR_ABI, this.provider);
+    this.nameWrapper = new ethers.Contract(NAME_WRAPPER_ADDRESS, NAME_WRAPPER_ABI, this.provider);
+    this.multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, this.provider);
+    this.multicallChunkSize = options.multicallChunkSize || DEFAULT_MULTICALL_CHUNK_SIZE;
+  }
+
+  async getExpiry(domain: string): Promise<Date | null> {
+    const [lookup] = await this.getExpiries([domain]);
+    if (lookup.error) {
+      throw lookup.error;
+    }
+    return lookup.expiry;
+  }
+
+  /**
+   * Stop the provider, for a data source that won't be used again
+   */
+  destroy(): void {
+    this.provider.destroy();
+  }
+
+  /**
+   * Looks names up in chunks, one Multicall3 aggregate3 call per chunk. A name fails if any call it depends on fails;
+   * if a whole chunk's call fails, every name in that chunk carries the error.
+   */
+  async getExpiries(domains: string[]): Promise<ExpiryLookup[]> {
+    const lookups: ExpiryLookup[] = [];
+
+    for (let start = 0; start < domains.length; start += this.multicallChunkSize) {
+      lookups.push(...await this.getExpiryChunk(domains.slice(start, start + this.multicallChunkSize)));
+    }
+
+    return lookups;
+  }
+
+  async getOwner(domain: string): Promise<string | null> {
+    const owner: string = await this.registry.owner(parseEnsName(domain).node);
+    return toAddressOrNull(owner);
+  }
+
+  async getRegistrant(domain: string): Promise<string | null> {
+    const { isSubname, secondLevelLabelhash } = parseEnsName(domain);
+    if (isSubname) {
+      return null;
+    }
+
+    try {
+      const registrant: string = await this.registrar.ownerOf(secondLevelLabelhash);
+      return toAddressOrNull(registrant);
+    } catch (error) {
+      // ownerOf reverts for names that are unregistered or past their grace period
+      return null;
+    }
+  }
+
+  async getResolver(domain: string): Promise<string | null> {
+    const resolver: string = await this.registry.resolver(parseEnsName(domain).node);
+    return toAddressOrNull(resolver);
+  }
+
+  async getWrappedName(domain: string): Promise<WrappedName | null> {
+    const [owner, fuses, expiry] = await this.nameWrapper.getData(BigInt(parseEnsName(domain).node));
+    if (owner === ethers.ZeroAddress && expiry === 0n) {
+      return null;
+    }
+    return { owner: toAddressOrNull(owner), fuses: Number(fuses), expiry: toExpiryDate(expiry) };
+  }
+
+  /**
+   * A second-level name's status comes from the registrar; a subname is registered for as long as it has an expiry
+   */
+  async getNameStatus(domain: string): Promise<EnsNameStatus> {
+    const { isSubname, secondLevelLabelhash } = parseEnsName(domain);
+    if (isSubname) {
+      return (await this.getExpiry(domain)) ? 'registered' : 'available';
+    }
+
+    const available: boolean = await this.registrar.available(secondLevelLabelhash);
+    return available ? 'available' : 'registered';
+  }
+
+  /**
+   * Each name needs its second-level name's registrar expiry, plus the NameWrapper data and registry owner of
+   * every subname on the way down to it. Calls shared between names in the chunk are only made once.
+   */
+  private async getExpiryChunk(domains: string[]): Promise<ExpiryLookup[]> {
+    const calls: { target: string; allowFailure: boolean; callData: string }[] = [];
+    const callIndexes = new Map<string, number>();
+    const addCall = (key: string, target: string, callData: () => string) => {
+      if (!callIndexes.has(key)) {
+        callIndexes.set(key, calls.length);
+        calls.push({ target, allowFailure: true, callData: callData() });
+      }
+    };
+
+    // A name that can't be normalized fails on its own rather than taking the rest of the chunk with it
+    const chains = domains.map((domain): string[] | Error => {
+      try {
+        const { name, secondLevelLabelhash } = parseEnsName(domain);
+        const [secondLevelName, ...subnames] = getNameChain(name);
+        addCall(`expiry:${secondLevelName}`, ENS_REGISTRAR_ADDRESS, () =>
+          this.registrar.interface.encodeFunctionData("nameExpires", [secondLevelLabelhash]));
+        for (const subname of subnames) {
+          const node = ethers.namehash(subname);
+          addCall(`wrapped:${subname}`, NAME_WRAPPER_ADDRESS, () =>
+            this.nameWrapper.interface.encodeFunctionData("getData", [BigInt(node)]));
+          addCall(`owner:${subname}`, ENS_REGISTRY_ADDRESS, () =>
+            this.registry.interface.encodeFunctionData("owner", [node]));
+        }
+        return [secondLevelName, ...subnames];
+      } catch (error) {
+        return toError(error);
+      }
+    });
+
+    let results: { success: boolean; returnData: string }[] = [];
+    let chunkError: Error | undefined;
+    if (calls.length > 0) {
+      try {
+        results = await this.multicall.aggregate3.staticCall(calls);
+      } catch (error) {
+        chunkError = toError(error);
+      }
+    }
+
+    const decode = (key: string, contract: ethers.Contract, method: string): ethers.Result => {
+      const { success, returnData } = results[callIndexes.get(key)!];
+      if (!success) {
+        throw new Error(`${method} reverted for ${key.slice(key.indexOf(":") + 1)}`);
+      }
+      return contract.interface.decodeFunctionResult(method, returnData);
+    };
+
+    return domains.map((domain, index): ExpiryLookup => {
+      const chain = chains[index];
+      if (chain instanceof Error) {
+        return { domain, expiry: null, error: chain };
+      }
+      if (chunkError) {
+        return { domain, expiry: null, error: chunkError };
+      }
+
+      try {
+        const [secondLevelName, ...subnames] = chain;
+        let expiry = toExpiryDate(decode(`expiry:${secondLevelName}`, this.registrar, "nameExpires")[0]);
+        // Wrapped subnames are capped by their parent's NameWrapper expiry, which for a second-level name includes its grace period
+        let parentWrappedExpiry = expiry && getWrappedEthExpiry(expiry);
+
+        for (const subname of subnames) {
+          if (!expiry || !parentWrappedExpiry) {
+            break;
+          }
+          const [, , wrappedExpiry] = decode(`wrapped:${subname}`, this.nameWrapper, "getData");
+          const [owner] = decode(`owner:${subname}`, this.registry, "owner");
+
+          if (wrappedExpiry > 0n) {
+            expiry = capByParent(toExpiryDate(wrappedExpiry)!, parentWrappedExpiry);
+            parentWrappedExpiry = expiry;
+          } else if (owner === ethers.ZeroAddress) {
+            // Never created
+            expiry = null;
+          }
+          // Otherwise it's unwrapped, and lasts as long as its parent
+        }
+
+        return { domain, expiry };
+      } catch (error) {
+        return { domain, expiry: null, error: toError(error) };
+      }
+    });
+  }
+}
+
+/**
+ * Create a provider for the mainnet ENS contracts. The network is fixed rather than detected, so an unreachable
+ * RPC URL fails the calls made through it instead of retrying detection in the background forever.
+ */
+export function createMainnetProvider(rpcUrl: string): ethers.JsonRpcProvider {
+  return new ethers.JsonRpcProvider(rpcUrl, "mainnet", { staticNetwork: true });
+}
+
+/**
+ * Check whether ENS data comes from fixtures: when ENS_DATA_SOURCE is "fixture", or in MOCK_MODE unless it says otherwise
+ */
+export function usesEnsFixtures(runtime: IAgentRuntime): boolean {
+  const configuredSource = runtime.getSetting("ENS_DATA_SOURCE");
+  return configuredSource
+    ? configuredSource === "fixture"
+    : runtime.getSetting("MOCK_MODE") === "true";
+}
+
+// RPC data sources, shared by every caller that uses the same endpoint
+const rpcDataSources: Map<string, RpcEnsDataSource> = new Map();
+
+/**
+ * Get the appropriate ENS data source (fixture or RPC)
+ */
+export function getEnsDataSource(runtime: IAgentRuntime): EnsDataSource {
+  // Use fixture data in test mode or when configured
+  if (usesEnsFixtures(runtime)) {
+    const fixturePath = runtime.getSetting("ENS_FIXTURE_PATH");
+    if (fixturePath) {
+      mockEnsDataSource.loadFromFile(fixturePath);
+    }
+    console.log("[ENS] Using fixture ENS data source");
+    return mockEnsDataSource;
+  }
+
+  const rpcUrl = runtime.getSetting("ETHEREUM_RPC_URL") || "https://eth-mainnet.alchemyapi.io/v2/demo";
+  const existing = rpcDataSources.get(rpcUrl);
+  if (existing) {
+    return existing;
+  }
+
+  const multicallChunkSize = parseInt(runtime.getSetting("ENS_MULTICALL_CHUNK_SIZE") || "", 10);
+  const dataSource = new RpcEnsDataSource(rpcUrl, { multicallChunkSize: multicallChunkSize > 0 ? multicallChunkSize : undefined });
+  rpcDataSources.set(rpcUrl, dataSource);
+  return dataSource;
+}
+
+/**
+ * Destroy every shared RPC data source
+ */
+export function closeEnsDataSources(): void {
+  for (const dataSource of rpcDataSources.values()) {
+    dataSource.destroy();
+  }
+  rpcDataSources.clear();
+}
@@ -0,0 +1,95 @@
+/**
+ * ENS Domain Lifecycle model
+ * Classifies a .eth name relative to its registrar expiry: active, grace period, premium auction or available.
+ * Subnames only have a NameWrapper expiry, after which they are simply expired.
+ */
+
+import { getClock } from "./clock";
+import { isSubname } from "./ens-name";
+
+// Registrar grace period after expiry, during which only the previous owner can renew
+export const GRACE_PERIOD_DAYS = 90;
+
+// Temporary premium Dutch auction after the grace period ends
+export const PREMIUM_PERIOD_DAYS = 21;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DomainState = 'active' | 'grace_period' | 'premium_auction' | 'available' | 'expired';
+
+export interface DomainLifecycle {
+  state: DomainState;
+  expiryDate: Date;
+  gracePeriodEndsAt: Date; // The expiry itself for subnames, which have no grace period
+  premiumEndsAt: Date; // The expiry itself for subnames, which have no premium auction
+  daysUntilExpiry: number; // Negative once the name has expired
+  nextTransitionAt: Date | null; // When the name moves to its next state, null once available or expired
+}
+
+/**
+ * The NameWrapper expiry of a .eth second-level name: it keeps the name, and the subnames under it, through the grace period
+ */
+export function getWrappedEthExpiry(registrarExpiry: Date): Date {
+  return new Date(registrarExpiry.getTime() + GRACE_PERIOD_DAYS * DAY_MS);
+}
+
+/**
+ * Whole days from `now` until `date`, rounded up (negative for past dates)
+ */
+export function daysUntil(date: Date, now: Date): number {
+  return Math.ceil((date.getTime() - now.getTime()) / DAY_MS);
+}
+
+/**
+ * Classify a name by its registrar expiry, or a subname by its NameWrapper expiry when the domain is given.
+ *
+ * Boundaries follow the BaseRegistrar: a name is expired once `now >= expiry`, and only becomes
+ * available once `expiry + GRACE_PERIOD < now`, at which point the premium auction starts.
+ * The NameWrapper keeps a subname until `expiry < now`, and then it is expired with nothing after it.
+ */
+export function getDomainLifecycle(expiryDate: Date, now: Date = getClock().now(), domain?: string): DomainLifecycle {
+  if (domain && isSubname(domain)) {
+    return getSubnameLifecycle(expiryDate, now);
+  }
+
+  const gracePeriodEndsAt = new Date(expiryDate.getTime() + GRACE_PERIOD_DAYS * DAY_MS);
+  const premiumEndsAt = new Date(gracePeriodEndsAt.getTime() + PREMIUM_PERIOD_DAYS * DAY_MS);
+  const time = now.getTime();
+
+  let state: DomainState;
+  let nextTransitionAt: Date | null;
+  if (time < expiryDate.getTime()) {
+    state = 'active';
+    nextTransitionAt = expiryDate;
+  } else if (time <= gracePeriodEndsAt.getTime()) {
+    state = 'grace_period';
+    nextTransitionAt = gracePeriodEndsAt;
+  } else if (time < premiumEndsAt.getTime()) {
+    state = 'premium_auction';
+    nextTransitionAt = premiumEndsAt;
+  } else {
+    state = 'available';
+    nextTransitionAt = null;
+  }
+
+  return {
+    state,
+    expiryDate,
+    gracePeriodEndsAt,
+    premiumEndsAt,
+    daysUntilExpiry: daysUntil(expiryDate, now),
+    nextTransitionAt
+  };
+}
+
+function getSubnameLifecycle(expiryDate: Date, now: Date): DomainLifecycle {
+  const active = now.getTime() <= expiryDate.getTime();
+  return {
+    state: active ? 'active' : 'expired',
+    expiryDate,
+    gracePeriodEndsAt: expiryDate,
+    premiumEndsAt: expiryDate,
+    daysUntilExpiry: daysUntil(expiryDate, now),
+    nextTransitionAt: active ? expiryDate : null
+  };
+}
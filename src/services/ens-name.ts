@@ -0,0 +1,146 @@
+/**
+ * ENS name normalization (ENSIP-15)
+ * Every name that enters the bot goes through here, so names are stored, compared and hashed in their normalized form
+ */
+
+import { ethers } from "ethers";
+
+/**
+ * Thrown when a name can't be normalized, e.g. it has disallowed characters or mixes confusable scripts
+ */
+export class InvalidEnsNameError extends Error {
+  constructor(public readonly input: string, public readonly reason: string) {
+    super(`"${input}" is not a valid ENS name: ${reason}`);
+    this.name = "InvalidEnsNameError";
+  }
+}
+
+// A name in free text: everything up to ".eth" that isn't whitespace or surrounding punctuation
+const NAME_IN_TEXT = /[^\s,;:!?"'()<>[\]{}]+\.eth(?![\p{L}\p{N}_-])/giu;
+
+/**
+ * Normalize a .eth name per ENSIP-15, e.g. "Vitalik.ETH" becomes "vitalik.eth"
+ */
+export function normalizeEnsName(name: string): string {
+  let normalized: string;
+  try {
+    normalized = ethers.ensNormalize(name.trim());
+  } catch (error) {
+    throw new InvalidEnsNameError(name, describeNormalizationError(error));
+  }
+
+  if (!normalized.endsWith(".eth") || normalized === ".eth") {
+    throw new InvalidEnsNameError(name, "only .eth names are supported");
+  }
+  return normalized;
+}
+
+/**
+ * A normalized .eth name split into the parts the ENS contracts are keyed by
+ */
+export interface ParsedEnsName {
+  name: string;
+  /** From the leftmost label down to the TLD, e.g. ["pay", "vitalik", "eth"] */
+  labels: string[];
+  tld: string;
+  /** The second-level name the .eth registrar knows about, e.g. "vitalik.eth" for "pay.vitalik.eth" */
+  secondLevelName: string;
+  /** The labelhash of the second-level label, which is also its registrar token ID */
+  secondLevelLabelhash: string;
+  /** The labelhash of the leftmost label */
+  labelhash: string;
+  /** The namehash the registry and NameWrapper key the name by */
+  node: string;
+  isSubname: boolean;
+}
+
+/**
+ * Normalize a .eth name and split it into labels, TLD and second-level name, with its hashes
+ */
+export function parseEnsName(name: string): ParsedEnsName {
+  const normalized = normalizeEnsName(name);
+  const labels = normalized.split(".");
+  const secondLevelLabel = labels[labels.length - 2];
+
+  return {
+    name: normalized,
+    labels,
+    tld: labels[labels.length - 1],
+    secondLevelName: labels.slice(-2).join("."),
+    secondLevelLabelhash: ethers.id(secondLevelLabel),
+    labelhash: ethers.id(labels[0]),
+    node: ethers.namehash(normalized),
+    isSubname: labels.length > 2
+  };
+}
+
+/**
+ * The .eth second-level name a normalized name sits under, followed by each subname down to the name itself,
+ * e.g. ["vitalik.eth", "pay.vitalik.eth"] for "pay.vitalik.eth"
+ */
+export function getNameChain(name: string): string[] {
+  const labels = name.split(".");
+  const chain: string[] = [];
+  for (let depth = 2; depth <= labels.length; depth++) {
+    chain.push(labels.slice(-depth).join("."));
+  }
+  return chain;
+}
+
+/**
+ * Check whether a normalized name is a subname, i.e. sits below a .eth second-level name
+ */
+export function isSubname(name: string): boolean {
+  return getNameChain(name).length > 1;
+}
+
+/**
+ * Get the parent of a normalized name, e.g. "vitalik.eth" for "pay.vitalik.eth"
+ */
+export function getParentName(name: string): string {
+  return name.slice(name.indexOf(".") + 1);
+}
+
+/**
+ * Find the .eth names mentioned in a message, as written
+ */
+export function findEnsNames(text: string): string[] {
+  return text.match(NAME_IN_TEXT) || [];
+}
+
+/**
+ * Find and normalize the .eth names mentioned in a message, without duplicates.
+ * Names that fail normalization are returned separately so the user can be told why.
+ */
+export function extractEnsNames(text: string): { names: string[]; invalid: InvalidEnsNameError[] } {
+  const names: string[] = [];
+  const invalid: InvalidEnsNameError[] = [];
+
+  for (const candidate of findEnsNames(text)) {
+    try {
+      const name = normalizeEnsName(candidate);
+      if (!names.includes(name)) {
+        names.push(name);
+      }
+    } catch (error) {
+      if (!(error instanceof InvalidEnsNameError)) {
+        throw error;
+      }
+      invalid.push(error);
+    }
+  }
+
+  return { names, invalid };
+}
+
+/**
+ * Pull the reason out of an ethers normalization error, e.g. 'Invalid label "a_b": underscore allowed only at start'
+ */
+function describeNormalizationError(error: unknown): string {
+  const message = (error as { shortMessage?: string })?.shortMessage
+    ?? (error instanceof Error ? error.message : String(error));
+  const reason = message.match(/^invalid ENS name \((.*)\)$/)?.[1] ?? message;
+
+  // ens-normalize marks quoted labels with bidi controls so they display safely; they only get in the way in chat
+  return reason.replace(/[‎‏]/g, "");
+}
@@ -0,0 +1,152 @@
+/**
+ * Inbound message router
+ * Streams DMs from the messaging transport, runs each through the plugin actions and replies in the same conversation
+ */
+
+import { Action, IAgentRuntime, Memory, UUID } from "@elizaos/core";
+import { MessagingTransport, TransportMessage } from "./messaging-transport";
+import { ConversationTracker, getConsentCommand } from "./conversation-tracker";
+
+export interface InboundRouterConfig {
+  runtime: IAgentRuntime;
+  transport: MessagingTransport;
+  actions: Action[]; // Checked in order, the first action whose validate() passes handles the message
+  conversations?: ConversationTracker; // Handles STOP / START opt-out commands when provided
+}
+
+export const HELP_TEXT = `👋 I can help you keep your ENS names from expiring. Try:
+
+• "Remind me about vitalik.eth" to set a reminder
+• "Check when vitalik.eth expires" to look up an expiry date
+• "List my reminders" to see what I'm tracking
+• "Stop tracking vitalik.eth" to remove a reminder`;
+
+export const OPT_OUT_TEXT = "🔕 You've been unsubscribed and won't receive any more expiry reminders. Reply START to turn them back on.";
+
+export const OPT_IN_TEXT = "🔔 Welcome back! Expiry reminders are turned back on.";
+
+export class InboundMessageRouter {
+  private runtime: IAgentRuntime;
+  private transport: MessagingTransport;
+  private actions: Action[];
+  private conversations?: ConversationTracker;
+  private stream?: AsyncIterableIterator<TransportMessage>;
+  private loop?: Promise<void>;
+
+  constructor(config: InboundRouterConfig) {
+    this.runtime = config.runtime;
+    this.transport = config.transport;
+    this.actions = config.actions;
+    this.conversations = config.conversations;
+  }
+
+  /**
+   * Start consuming incoming messages in the background
+   */
+  start(): void {
+    if (this.stream) {
+      console.log("[InboundRouter] Already started");
+      return;
+    }
+
+    const stream = this.transport.streamIncoming();
+    this.stream = stream;
+    this.loop = (async () => {
+      for await (const message of stream) {
+        await this.handleMessage(message);
+      }
+    })();
+
+    console.log(`[InboundRouter] Listening for messages on ${this.transport.kind} transport`);
+  }
+
+  /**
+   * Stop consuming messages, waiting for the message in progress to finish
+   */
+  async stop(): Promise<void> {
+    if (!this.stream) {
+      return;
+    }
+
+    await this.stream.return?.();
+    await this.loop;
+    this.stream = undefined;
+    this.loop = undefined;
+    console.log("[InboundRouter] Stopped");
+  }
+
+  /**
+   * Route a single message to the first matching action and send its replies back to the sender
+   */
+  async handleMessage(message: TransportMessage): Promise<string[]> {
+    const replies: string[] = [];
+
+    try {
+      const consent = getConsentCommand(message.content);
+      if (consent && this.conversations) {
+        await this.conversations.setActive(message.sender, consent === 'opt_in');
+        replies.push(consent === 'opt_out' ? OPT_OUT_TEXT : OPT_IN_TEXT);
+        return this.sendReplies(message, replies);
+      }
+
+      const memory = this.toMemory(message);
+      const action = await this.findAction(memory);
+      if (action) {
+        console.log(`[InboundRouter] Routing message from ${message.sender} to ${action.name}`);
+        await action.handler(this.runtime, memory, undefined, {}, async (response) => {
+          if (response.text) {
+            replies.push(response.text);
+          }
+          return [];
+        });
+      } else {
+        replies.push(HELP_TEXT);
+      }
+    } catch (error) {
+      console.error(`[InboundRouter] Failed to handle message from ${message.sender}:`, error);
+      replies.push("Sorry, something went wrong handling your message. Please try again.");
+    }
+
+    return this.sendReplies(message, replies);
+  }
+
+  private async sendReplies(message: TransportMessage, replies: string[]): Promise<string[]> {
+    for (const reply of replies) {
+      try {
+        await this.transport.sendMessage(message.sender, reply);
+      } catch (error) {
+        console.error(`[InboundRouter] Failed to reply to ${message.sender}:`, error);
+      }
+    }
+
+    return replies;
+  }
+
+  private async findAction(memory: Memory): Promise<Action | undefined> {
+    for (const action of this.actions) {
+      if (await action.validate(this.runtime, memory)) {
+        return action;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Convert a transport message into an agent memory, using the sender address as the entity.
+   * Ids are the transport's own rather than UUIDs: the plugin actions read the entity as the wallet address.
+   */
+  private toMemory(message: TransportMessage): Memory {
+    const memory: Memory = {
+      id: message.id as UUID,
+      entityId: message.sender as UUID,
+      agentId: this.runtime.agentId,
+      roomId: message.conversation as UUID,
+      content: {
+        text: message.content,
+        source: this.transport.kind
+      },
+      createdAt: message.timestamp.getTime()
+    };
+    return memory;
+  }
+}
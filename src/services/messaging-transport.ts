@@ -0,0 +1,103 @@
+/**
+ * Messaging transport contract shared by the XMTP transport and the mock XMTP service
+ * The reminder service only talks to this interface, so production wiring is a config switch
+ */
+
+export interface TransportMessage {
+  id: string;
+  sender: string;
+  recipient: string;
+  content: string;
+  timestamp: Date;
+  conversation: string;
+}
+
+export interface TransportConversation {
+  peerAddress: string;
+  createdAt: Date;
+}
+
+export interface MessagingStats {
+  totalConversations: number;
+  totalMessages: number;
+  totalSentMessages: number;
+}
+
+export interface MessagingTransport {
+  readonly kind: string;
+  getAddress(): string;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  isReady(): boolean;
+  sendMessage(recipientAddress: string, content: string): Promise<TransportMessage>;
+  streamIncoming(): AsyncIterableIterator<TransportMessage>;
+  getConversations(): Promise<TransportConversation[]>;
+  getStats(): MessagingStats;
+}
+
+/**
+ * Thrown when a peer can no longer be messaged, e.g. because they blocked the bot
+ */
+export class PeerUnavailableError extends Error {
+  constructor(public readonly peerAddress: string, reason: string) {
+    super(`Cannot message ${peerAddress}: ${reason}`);
+    this.name = "PeerUnavailableError";
+  }
+}
+
+/**
+ * Async iterator over pushed messages, used to expose incoming message streams.
+ * Iteration ends once the queue is closed and drained, or when the consumer calls return().
+ */
+export class MessageQueue<T> implements AsyncIterableIterator<T> {
+  private items: T[] = [];
+  private waiting: ((result: IteratorResult<T>) => void)[] = [];
+  private closed: boolean = false;
+
+  constructor(private readonly onClose?: () => void) {}
+
+  push(item: T): void {
+    if (this.closed) {
+      return;
+    }
+
+    const resolve = this.waiting.shift();
+    if (resolve) {
+      resolve({ value: item, done: false });
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    for (const resolve of this.waiting.splice(0)) {
+      resolve({ value: undefined, done: true });
+    }
+    this.onClose?.();
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.items.length > 0) {
+      return Promise.resolve({ value: this.items.shift()!, done: false });
+    }
+    if (this.closed) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  async return(): Promise<IteratorResult<T>> {
+    this.items = [];
+    this.close();
+    return { value: undefined, done: true };
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Versioned schema migrations
+ * Migrations are described as dialect-neutral schema operations, rendered to Postgres or SQLite DDL,
+ * or applied directly by the mock database, and recorded in a schema_migrations table
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { MIGRATIONS } from "../migrations";
+import { ColumnDefinition, Migration, NOW, SchemaOperation } from "../migrations/types";
+
+export type MigrationDirection = 'up' | 'down';
+
+export type SqlDialect = 'postgres' | 'sqlite';
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+  /** Applied to the database but missing from this codebase */
+  unknown?: boolean;
+}
+
+/**
+ * Where migrations are applied and recorded
+ */
+export interface MigrationStore {
+  /** Migrations recorded in schema_migrations, in version order */
+  getApplied(): Promise<AppliedMigration[]>;
+  /** Run a migration in one direction and update schema_migrations, atomically where the database allows */
+  apply(migration: Migration, direction: MigrationDirection): Promise<void>;
+}
+
+/**
+ * Thrown when a migration cannot be planned or fails to apply
+ */
+export class MigrationError extends Error {
+  constructor(public readonly version: number, error: unknown) {
+    super(`Migration ${formatVersion(version)} failed: ${error instanceof Error ? error.message : String(error)}`);
+    this.name = "MigrationError";
+  }
+}
+
+export const SCHEMA_MIGRATIONS_TABLE = 'schema_migrations';
+
+/**
+ * Format a version the way migration files are numbered, e.g. 001
+ */
+export function formatVersion(version: number): string {
+  return String(version).padStart(3, '0');
+}
+
+/**
+ * Migrations not yet applied, up to and including the target version, in the order to apply them
+ */
+export function getPendingMigrations(migrations: Migration[], applied: number[], target?: number): Migration[] {
+  return [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter(migration => !applied.includes(migration.version))
+    .filter(migration => target === undefined || migration.version <= target);
+}
+
+/**
+ * The most recently applied migrations, newest first, in the order to roll them back
+ */
+export function getRollbackMigrations(migrations: Migration[], applied: number[], steps: number): Migration[] {
+  return [...applied]
+    .sort((a, b) => b - a)
+    .slice(0, steps)
+    .map(version => {
+      const migration = migrations.find(candidate => candidate.version === version);
+      if (!migration) {
+        throw new MigrationError(version, "it was applied to the database but is not defined in this codebase");
+      }
+      return migration;
+    });
+}
+
+// SQL rendering
+
+function renderColumnType(column: ColumnDefinition, dialect: SqlDialect): string {
+  switch (column.type) {
+    case 'primary_key':
+      return dialect === 'postgres' ? 'BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY' : 'INTEGER PRIMARY KEY AUTOINCREMENT';
+    case 'foreign_key':
+      return `${dialect === 'postgres' ? 'BIGINT' : 'INTEGER'} REFERENCES ${column.references}(id) ON DELETE CASCADE`;
+    case 'text':
+      return dialect === 'postgres' && column.length ? `VARCHAR(${column.length})` : 'TEXT';
+    case 'integer':
+      return 'INTEGER';
+    case 'boolean':
+      return dialect === 'postgres' ? 'BOOLEAN' : 'INTEGER';
+    case 'timestamp':
+      return dialect === 'postgres' ? 'TIMESTAMP WITH TIME ZONE' : 'TEXT';
+    case 'json':
+      return dialect === 'postgres' ? 'JSONB' : 'TEXT';
+  }
+}
+
+function renderDefault(column: ColumnDefinition, dialect: SqlDialect): string {
+  const value = column.default;
+  if (value === NOW) {
+    return dialect === 'postgres' ? 'NOW()' : "(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))";
+  }
+  if (typeof value === 'boolean') {
+    return dialect === 'postgres' ? String(value) : value ? '1' : '0';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  const literal = quote(String(value));
+  return dialect === 'postgres' && column.type === 'json' ? `${literal}::jsonb` : literal;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Postgres names unnamed column checks <table>_<column>_check, so migrations can add and drop them by the same name
+function checkConstraintName(table: string, column: string): string {
+  return `${table}_${column}_check`;
+}
+
+/**
+ * Render a column definition, as in CREATE TABLE. Patterns become CHECK constraints on Postgres only, since SQLite has no regular expressions.
+ */
+export function renderColumn(column: ColumnDefinition, dialect: SqlDialect): string {
+  let sql = `${column.name} ${renderColumnType(column, dialect)}`;
+  if (column.notNull) {
+    sql += ' NOT NULL';
+  }
+  if (column.default !== undefined) {
+    sql += ` DEFAULT ${renderDefault(column, dialect)}`;
+  }
+  if (column.pattern && dialect === 'postgres') {
+    sql += ` CHECK (${column.name} ~ ${quote(column.pattern)})`;
+  }
+  return sql;
+}
+
+/**
+ * Render a schema operation as SQL statements for a dialect
+ */
+export function renderOperation(operation: SchemaOperation, dialect: SqlDialect): string[] {
+  switch (operation.type) {
+    case 'create_table':
+      return [`CREATE TABLE IF NOT EXISTS ${operation.table} (\n    ${operation.columns
+        .map(column => renderColumn(column, dialect))
+        .join(',\n    ')}\n)`];
+    case 'drop_table':
+      return [`DROP TABLE IF EXISTS ${operation.table}`];
+    case 'add_column':
+      // SQLite has no ADD COLUMN IF NOT EXISTS
+      return [`ALTER TABLE ${operation.table} ADD COLUMN ${dialect === 'postgres' ? 'IF NOT EXISTS ' : ''}${renderColumn(operation.column, dialect)}`];
+    case 'drop_column':
+      return [`ALTER TABLE ${operation.table} DROP COLUMN ${dialect === 'postgres' ? 'IF EXISTS ' : ''}${operation.column}`];
+    case 'create_index':
+      return [`CREATE ${operation.unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${operation.name} ON ${operation.table}(${operation.columns.join(', ')})`];
+    case 'drop_index':
+      return [`DROP INDEX IF EXISTS ${operation.name}`];
+    case 'add_check': {
+      if (dialect !== 'postgres') {
+        return [];
+      }
+      const name = checkConstraintName(operation.table, operation.column);
+      return [
+        `ALTER TABLE ${operation.table} DROP CONSTRAINT IF EXISTS ${name}`,
+        `ALTER TABLE ${operation.table} ADD CONSTRAINT ${name} CHECK (${operation.column} ~ ${quote(operation.pattern)})`
+      ];
+    }
+    case 'drop_check':
+      return dialect === 'postgres'
+        ? [`ALTER TABLE ${operation.table} DROP CONSTRAINT IF EXISTS ${checkConstraintName(operation.table, operation.column)}`]
+        : [];
+    case 'sql': {
+      const sql = operation[dialect];
+      return sql ? [sql] : [];
+    }
+  }
+}
+
+/**
+ * Render one direction of a migration as SQL statements, without the schema_migrations bookkeeping
+ */
+export function renderMigration(migration: Migration, direction: MigrationDirection, dialect: SqlDialect): string[] {
+  return migration[direction].flatMap(operation => renderOperation(operation, dialect));
+}
+
+/**
+ * The schema_migrations table, created before any migration runs
+ */
+export function renderSchemaMigrationsTable(dialect: SqlDialect): string {
+  return `CREATE TABLE IF NOT EXISTS ${SCHEMA_MIGRATIONS_TABLE} (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at ${dialect === 'postgres' ? 'TIMESTAMP WITH TIME ZONE DEFAULT NOW()' : "TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))"}
+)`;
+}
+
+/**
+ * Applies and rolls back migrations against a store
+ */
+export class MigrationRunner {
+  constructor(
+    private readonly store: MigrationStore,
+    private readonly migrations: Migration[] = MIGRATIONS
+  ) {}
+
+  /**
+   * Apply pending migrations up to the target version (default: all), returning the ones applied
+   */
+  async migrate(target?: number): Promise<Migration[]> {
+    const applied = (await this.store.getApplied()).map(migration => migration.version);
+    const pending = getPendingMigrations(this.migrations, applied, target);
+
+    for (const migration of pending) {
+      await this.run(migration, 'up');
+    }
+    return pending;
+  }
+
+  /**
+   * Roll back the most recently applied migrations, returning the ones rolled back
+   */
+  async rollback(steps: number = 1): Promise<Migration[]> {
+    const applied = (await this.store.getApplied()).map(migration => migration.version);
+    const rollbacks = getRollbackMigrations(this.migrations, applied, steps);
+
+    for (const migration of rollbacks) {
+      await this.run(migration, 'down');
+    }
+    return rollbacks;
+  }
+
+  /**
+   * Every known migration with when it was applied, plus any applied migrations this codebase doesn't define
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.store.getApplied();
+    const statuses: MigrationStatus[] = this.migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied_at: applied.find(record => record.version === migration.version)?.applied_at ?? null
+    }));
+
+    for (const record of applied) {
+      if (!this.migrations.some(migration => migration.version === record.version)) {
+        statuses.push({ ...record, unknown: true });
+      }
+    }
+    return statuses.sort((a, b) => a.version - b.version);
+  }
+
+  private async run(migration: Migration, direction: MigrationDirection): Promise<void> {
+    try {
+      await this.store.apply(migration, direction);
+    } catch (error) {
+      throw error instanceof MigrationError ? error : new MigrationError(migration.version, error);
+    }
+    console.log(`[Migrations] ${direction === 'up' ? 'Applied' : 'Rolled back'} ${formatVersion(migration.version)} ${migration.name}`);
+  }
+}
+
+/**
+ * Migrations on Supabase, run through an `exec_sql(sql text)` database function.
+ * Each migration and its bookkeeping are sent as a single call, so they commit together.
+ */
+export class SupabaseMigrationStore implements MigrationStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async getApplied(): Promise<AppliedMigration[]> {
+    await this.exec(renderSchemaMigrationsTable('postgres'));
+
+    const { data, error } = await this.client
+      .from(SCHEMA_MIGRATIONS_TABLE)
+      .select('version, name, applied_at')
+      .order('version', { ascending: true });
+    if (error) {
+      throw new Error(`Failed to read ${SCHEMA_MIGRATIONS_TABLE}: ${error.message}`);
+    }
+    return data as AppliedMigration[];
+  }
+
+  async apply(migration: Migration, direction: MigrationDirection): Promise<void> {
+    const bookkeeping = direction === 'up'
+      ? `INSERT INTO ${SCHEMA_MIGRATIONS_TABLE} (version, name) VALUES (${migration.version}, '${migration.name}')`
+      : `DELETE FROM ${SCHEMA_MIGRATIONS_TABLE} WHERE version = ${migration.version}`;
+
+    await this.exec([...renderMigration(migration, direction, 'postgres'), bookkeeping].join(';\n'));
+  }
+
+  private async exec(sql: string): Promise<void> {
+    const { error } = await this.client.rpc('exec_sql', { sql });
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
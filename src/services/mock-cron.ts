@@ -3,36 +3,40 @@
  * This service simulates cron job functionality for development and testing
  */
 
-export interface CronJob {
-  id: string;
-  schedule: string;
-  callback: () => Promise<void> | void;
-  lastRun?: Date;
-  nextRun?: Date;
-  isRunning: boolean;
-  runCount: number;
-}
+import { Clock, FakeClock, getClock } from "./clock";
+import { CronExpression } from "./cron-expression";
+import { CronJob, ScheduleOptions, Scheduler, SchedulerStats } from "./scheduler";
+
+export type { CronJob } from "./scheduler";
 
-export class MockCronService {
+export class MockCronService implements Scheduler {
   private jobs: Map<string, CronJob> = new Map();
+  private activeRuns: Map<string, Promise<void>> = new Map();
   private isActive: boolean = false;
   private simulationInterval?: NodeJS.Timeout;
 
-  constructor() {
+  // Uses the shared clock unless one is injected
+  constructor(private readonly clock?: Clock) {
     console.log("[MockCron] Initializing mock cron service");
   }
 
   /**
-   * Schedule a new cron job
+   * Schedule a new cron job, throwing InvalidScheduleError for malformed expressions
    */
-  schedule(id: string, cronExpression: string, callback: () => Promise<void> | void): CronJob {
+  schedule(
+    id: string,
+    cronExpression: string,
+    callback: () => Promise<void> | void,
+    options: ScheduleOptions = {}
+  ): CronJob {
     const job: CronJob = {
       id,
       schedule: cronExpression,
+      timezone: options.timezone,
       callback,
       isRunning: false,
       runCount: 0,
-      nextRun: this.calculateNextRun(cronExpression)
+      nextRun: this.calculateNextRun(cronExpression, options.timezone)
     };
 
     this.jobs.set(id, job);
@@ -144,12 +148,7 @@ export class MockCronService {
   /**
    * Get service statistics
    */
-  getStats(): {
-    totalJobs: number;
-    runningJobs: number;
-    totalRuns: number;
-    isActive: boolean;
-  } {
+  getStats(): SchedulerStats {
     const jobs = Array.from(this.jobs.values());
     return {
       totalJobs: jobs.length,
@@ -168,6 +167,43 @@ export class MockCronService {
     console.log("[MockCron] Reset all jobs and stopped service");
   }
 
+  /**
+   * Get the current time on the injected clock, or the shared clock if none was given
+   */
+  now(): Date {
+    return (this.clock ?? getClock()).now();
+  }
+
+  /**
+   * Move the clock forward and run every job that became due (for testing).
+   * Only a FakeClock can be moved, so one must be injected or installed with setClock().
+   */
+  async advanceTime(ms: number): Promise<void> {
+    const clock = this.clock ?? getClock();
+    if (!(clock instanceof FakeClock)) {
+      throw new Error("advanceTime() needs a FakeClock, injected or installed with setClock()");
+    }
+
+    clock.advance(ms);
+    console.log(`[MockCron] Advanced clock to ${this.now().toISOString()}`);
+    await this.runDueJobs();
+  }
+
+  /**
+   * Run every job whose next run time has passed on the clock, one after another (for testing)
+   */
+  async runDueJobs(): Promise<void> {
+    // Let runs started by the polling loop finish first so their results are visible
+    await Promise.all(this.activeRuns.values());
+
+    const dueJobs = Array.from(this.jobs.values())
+      .filter(job => !job.isRunning && job.nextRun && this.now() >= job.nextRun);
+
+    for (const job of dueJobs) {
+      await this.executeJob(job);
+    }
+  }
+
   /**
    * Set up a job to run immediately and then at intervals (for testing)
    */
@@ -187,13 +223,23 @@ export class MockCronService {
   /**
    * Execute a specific job
    */
-  private async executeJob(job: CronJob): Promise<void> {
-    if (job.isRunning) {
-      return;
+  private executeJob(job: CronJob): Promise<void> {
+    const activeRun = this.activeRuns.get(job.id);
+    if (activeRun) {
+      return activeRun;
     }
 
+    const run = this.runJob(job).finally(() => this.activeRuns.delete(job.id));
+    this.activeRuns.set(job.id, run);
+    return run;
+  }
+
+  /**
+   * Run a job's callback and update its statistics
+   */
+  private async runJob(job: CronJob): Promise<void> {
     job.isRunning = true;
-    job.lastRun = new Date();
+    job.lastRun = this.now();
     job.runCount++;
 
     console.log(`[MockCron] Executing job '${job.id}' (run #${job.runCount})`);
@@ -205,7 +251,7 @@ export class MockCronService {
       console.error(`[MockCron] Job '${job.id}' failed:`, error);
     } finally {
       job.isRunning = false;
-      job.nextRun = this.calculateNextRun(job.schedule);
+      job.nextRun = this.calculateNextRun(job.schedule, job.timezone);
     }
   }
 
@@ -217,7 +263,7 @@ export class MockCronService {
       return;
     }
 
-    const now = new Date();
+    const now = this.now();
     
     for (const job of this.jobs.values()) {
       if (!job.isRunning && job.nextRun && now >= job.nextRun) {
@@ -227,23 +273,10 @@ export class MockCronService {
   }
 
   /**
-   * Calculate the next run time for a cron expression
-   * In mock mode, we'll use simplified logic
+   * Calculate the next run time for a cron expression on the clock
    */
-  private calculateNextRun(cronExpression: string): Date {
-    const now = new Date();
-    
-    // For mock mode, let's simulate different intervals based on common patterns
-    if (cronExpression.includes("0 9 * * *")) {
-      // Daily at 9 AM - simulate as 10 seconds from now
-      return new Date(now.getTime() + 10000);
-    } else if (cronExpression.includes("* * * * *")) {
-      // Every minute - simulate as 5 seconds from now
-      return new Date(now.getTime() + 5000);
-    } else {
-      // Default - 30 seconds from now
-      return new Date(now.getTime() + 30000);
-    }
+  private calculateNextRun(cronExpression: string, timezone?: string): Date {
+    return CronExpression.parse(cronExpression).next(this.now(), timezone);
   }
 }
 
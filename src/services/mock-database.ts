@@ -3,35 +3,34 @@
  * This service simulates Supabase database functionality using in-memory storage
  */
 
-export interface ReminderRecord {
-  id?: number;
-  domain: string;
-  wallet_address: string;
-  expiry_date: string;
-  reminders_sent: string;
-  created_at: string;
-  updated_at?: string;
+import { getClock } from "./clock";
+import { AppliedMigration, getPendingMigrations, MigrationDirection, MigrationStore, SCHEMA_MIGRATIONS_TABLE } from "./migration-runner";
+import { MIGRATIONS } from "../migrations";
+import { ColumnDefinition, Migration, NOW, SchemaOperation } from "../migrations/types";
+import { RecordIssue, validateColumns } from "../schema/validation";
+import { TableName } from "../schema/tables";
+
+export type FilterOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'in';
+
+export interface QueryFilter {
+  column: string;
+  operator: FilterOperator;
+  value: any;
 }
 
-export interface SentReminderRecord {
-  id?: number;
-  reminder_id: number;
-  sent_at: string;
-  reminder_type: 'day_30' | 'day_7' | 'day_1';
-  message_id?: string;
+export interface QueryOrder {
+  column: string;
+  ascending: boolean;
+  nullsFirst: boolean;
 }
 
-export interface ConversationRecord {
-  id?: number;
-  wallet_address: string;
-  conversation_id: string;
-  created_at: string;
-  last_message_at?: string;
-}
-
-export interface QueryResult<T> {
-  data: T[] | null;
+/**
+ * Result of an awaited query, shaped like a Supabase response
+ */
+export interface QueryResponse<T = any> {
+  data: T;
   error: any;
+  count: number | null;
 }
 
 export interface InsertResult {
@@ -39,245 +38,351 @@ export interface InsertResult {
   error: any;
 }
 
-export interface UpdateResult {
-  data: any;
-  error: any;
+export interface UpsertOptions {
+  onConflict?: string; // Comma-separated conflict columns, defaults to the primary key
 }
 
-export interface DeleteResult {
-  data: any;
-  error: any;
+export interface SelectOptions {
+  count?: 'exact'; // Include the number of matching rows, ignoring limit and range
+  head?: boolean; // Only return the count, without any rows
+}
+
+export type QueryOperation =
+  | { type: 'select' }
+  | { type: 'insert'; values: any }
+  | { type: 'upsert'; values: any; options?: UpsertOptions }
+  | { type: 'update'; values: any }
+  | { type: 'delete' };
+
+export interface MockQuery {
+  table: string;
+  operation: QueryOperation;
+  columns: string | null; // Columns to return; null for a mutation without select()
+  count: boolean;
+  head: boolean;
+  filters: QueryFilter[];
+  orders: QueryOrder[];
+  offset: number;
+  limit?: number;
+  single?: 'single' | 'maybe_single';
+}
+
+/**
+ * Chainable, awaitable subset of the Supabase PostgREST query builder.
+ * Like Supabase, nothing runs until the query is awaited, and it runs again on every await.
+ */
+export class MockQueryBuilder implements PromiseLike<QueryResponse> {
+  private query: MockQuery;
+
+  constructor(
+    table: string,
+    operation: QueryOperation,
+    private readonly run: (query: MockQuery) => QueryResponse
+  ) {
+    this.query = {
+      table,
+      operation,
+      columns: operation.type === 'select' ? '*' : null,
+      count: false,
+      head: false,
+      filters: [],
+      orders: [],
+      offset: 0
+    };
+  }
+
+  /**
+   * Choose the returned columns, e.g. "id, domain". After a mutation, returns the affected rows.
+   */
+  select(columns: string = '*', options: SelectOptions = {}): this {
+    this.query.columns = columns;
+    this.query.count = options.count === 'exact';
+    this.query.head = options.head === true;
+    return this;
+  }
+
+  eq(column: string, value: any): this {
+    return this.filter(column, 'eq', value);
+  }
+
+  neq(column: string, value: any): this {
+    return this.filter(column, 'neq', value);
+  }
+
+  lt(column: string, value: any): this {
+    return this.filter(column, 'lt', value);
+  }
+
+  lte(column: string, value: any): this {
+    return this.filter(column, 'lte', value);
+  }
+
+  gt(column: string, value: any): this {
+    return this.filter(column, 'gt', value);
+  }
+
+  gte(column: string, value: any): this {
+    return this.filter(column, 'gte', value);
+  }
+
+  in(column: string, values: readonly any[]): this {
+    return this.filter(column, 'in', values);
+  }
+
+  /**
+   * Sort the results. Calls chain, so later columns break ties in earlier ones.
+   */
+  order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}): this {
+    const ascending = options.ascending !== false;
+    // Postgres puts nulls last when ascending and first when descending
+    this.query.orders.push({ column, ascending, nullsFirst: options.nullsFirst ?? !ascending });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.query.limit = count;
+    return this;
+  }
+
+  /**
+   * Return rows `from` to `to`, both inclusive and zero-based
+   */
+  range(from: number, to: number): this {
+    this.query.offset = from;
+    this.query.limit = Math.max(0, to - from + 1);
+    return this;
+  }
+
+  /**
+   * Return a single row object, failing unless exactly one row matches
+   */
+  single(): this {
+    this.query.single = 'single';
+    return this;
+  }
+
+  /**
+   * Return a single row object or null, failing if more than one row matches
+   */
+  maybeSingle(): this {
+    this.query.single = 'maybe_single';
+    return this;
+  }
+
+  then<TResult1 = QueryResponse, TResult2 = never>(
+    onfulfilled?: ((value: QueryResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    // Run immediately so the query's effects are visible as soon as it is awaited
+    return Promise.resolve(this.run({ ...this.query })).then(onfulfilled, onrejected);
+  }
+
+  private filter(column: string, operator: FilterOperator, value: any): this {
+    this.query.filters.push({ column, operator, value });
+    return this;
+  }
+}
+
+// A unique index, enforced on insert
+interface UniqueKey {
+  table: string;
+  columns: string[];
 }
 
+// Postgres error codes for records that fail validation
+const ISSUE_CODES: Record<RecordIssue['problem'], string> = {
+  required: '23502',
+  type: '22P02',
+  pattern: '23514',
+  unknown: 'PGRST204'
+};
+
 export class MockDatabaseService {
-  private reminders: Map<number, ReminderRecord> = new Map();
-  private sentReminders: Map<number, SentReminderRecord> = new Map();
-  private conversations: Map<number, ConversationRecord> = new Map();
-  private nextId: { reminders: number; sentReminders: number; conversations: number } = {
-    reminders: 1,
-    sentReminders: 1,
-    conversations: 1
-  };
+  // Rows by id for each table, created and altered by the schema migrations
+  private tables: Map<string, Map<number, any>> = new Map();
+  private columns: Map<string, ColumnDefinition[]> = new Map();
+  private nextIds: Map<string, number> = new Map();
+  private uniqueKeys: Map<string, UniqueKey> = new Map();
 
   constructor() {
     console.log("[MockDB] Initializing mock database service");
+    this.migrate();
     this.seedTestData();
   }
 
   /**
    * Mock Supabase client interface
    */
-  from(table: 'reminders' | 'sent_reminders' | 'conversations') {
+  from(table: TableName | 'schema_migrations') {
+    const run = (query: MockQuery) => this.executeQuery(query);
     return {
-      select: (columns: string = '*') => this.createSelectQuery(table, columns),
-      insert: (data: any) => this.createInsertQuery(table, data),
-      update: (data: any) => this.createUpdateQuery(table, data),
-      delete: () => this.createDeleteQuery(table)
+      select: (columns: string = '*', options?: SelectOptions) =>
+        new MockQueryBuilder(table, { type: 'select' }, run).select(columns, options),
+      insert: (values: any) => new MockQueryBuilder(table, { type: 'insert', values }, run),
+      upsert: (values: any, options?: UpsertOptions) => new MockQueryBuilder(table, { type: 'upsert', values, options }, run),
+      update: (values: any) => new MockQueryBuilder(table, { type: 'update', values }, run),
+      delete: () => new MockQueryBuilder(table, { type: 'delete' }, run)
     };
   }
 
   /**
-   * Create a select query builder
+   * Execute a query built by MockQueryBuilder.
+   * Like Supabase, mutations only return the written rows when select() is chained; without it their data is null.
    */
-  private createSelectQuery(table: string, columns: string) {
-    const self = this;
-    return {
-      eq: (column: string, value: any) => ({
-        then: (callback: (result: QueryResult<any>) => void) => {
-          const result = self.executeSelect(table, columns, { [column]: value });
-          callback(result);
-        }
-      }),
-      neq: (column: string, value: any) => ({
-        then: (callback: (result: QueryResult<any>) => void) => {
-          const result = self.executeSelect(table, columns, { [`${column}_neq`]: value });
-          callback(result);
-        }
-      }),
-      lt: (column: string, value: any) => ({
-        then: (callback: (result: QueryResult<any>) => void) => {
-          const result = self.executeSelect(table, columns, { [`${column}_lt`]: value });
-          callback(result);
-        }
-      }),
-      lte: (column: string, value: any) => ({
-        then: (callback: (result: QueryResult<any>) => void) => {
-          const result = self.executeSelect(table, columns, { [`${column}_lte`]: value });
-          callback(result);
-        }
-      }),
-      gt: (column: string, value: any) => ({
-        then: (callback: (result: QueryResult<any>) => void) => {
-          const result = self.executeSelect(table, columns, { [`${column}_gt`]: value });
-          callback(result);
+  private executeQuery(query: MockQuery): QueryResponse {
+    try {
+      if (!this.getTable(query.table)) {
+        return { data: null, error: { message: `Unknown table: ${query.table}` }, count: null };
+      }
+
+      let rows: any[];
+      let total: number;
+
+      switch (query.operation.type) {
+        case 'select': {
+          const matching = this.executeSelect(query.table, query.filters);
+          total = matching.length;
+          rows = this.paginate(this.sortRows(matching, query.orders), query);
+          break;
         }
-      }),
-      gte: (column: string, value: any) => ({
-        then: (callback: (result: QueryResult<any>) => void) => {
-          const result = self.executeSelect(table, columns, { [`${column}_gte`]: value });
-          callback(result);
+        case 'insert':
+        case 'upsert': {
+          const values = query.operation.values;
+          const records = Array.isArray(values) ? values : [values];
+          rows = [];
+          for (const record of records) {
+            const result = query.operation.type === 'insert'
+              ? this.executeInsert(query.table, record)
+              : this.executeUpsert(query.table, record, query.operation.options);
+            if (result.error) {
+              return { data: null, error: result.error, count: null };
+            }
+            rows.push(result.data);
+          }
+          total = rows.length;
+          break;
         }
-      }),
-      order: (column: string, options?: { ascending?: boolean }) => ({
-        then: (callback: (result: QueryResult<any>) => void) => {
-          const result = self.executeSelect(table, columns, {});
-          if (result.data) {
-            result.data.sort((a, b) => {
-              const aVal = a[column];
-              const bVal = b[column];
-              const ascending = options?.ascending !== false;
-              
-              if (aVal < bVal) return ascending ? -1 : 1;
-              if (aVal > bVal) return ascending ? 1 : -1;
-              return 0;
-            });
+        case 'update': {
+          const invalid = this.validate(query.table, query.operation.values, true);
+          if (invalid) {
+            return { data: null, error: invalid, count: null };
           }
-          callback(result);
+          rows = this.executeUpdate(query.table, query.operation.values, query.filters);
+          total = rows.length;
+          break;
         }
-      }),
-      // Direct execution without filters
-      then: (callback: (result: QueryResult<any>) => void) => {
-        const result = self.executeSelect(table, columns, {});
-        callback(result);
+        case 'delete':
+          rows = this.executeDelete(query.table, query.filters);
+          total = rows.length;
+          break;
       }
-    };
+
+      const count = query.count ? total : null;
+      if (query.columns === null || query.head) {
+        return { data: null, error: null, count };
+      }
+
+      const data = rows.map(row => this.project(row, query.columns!));
+      if (query.single) {
+        if (data.length > 1 || (data.length === 0 && query.single === 'single')) {
+          return {
+            data: null,
+            error: { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' },
+            count
+          };
+        }
+        return { data: data[0] ?? null, error: null, count };
+      }
+
+      return { data, error: null, count };
+    } catch (error) {
+      console.error(`[MockDB] Query error on ${query.table}:`, error);
+      return { data: null, error, count: null };
+    }
   }
 
   /**
-   * Create an insert query builder
+   * Execute a select query
    */
-  private createInsertQuery(table: string, data: any) {
-    return {
-      then: (callback: (result: InsertResult) => void) => {
-        callback(this.executeInsert(table, data));
-      }
-    };
+  private executeSelect(table: string, filters: QueryFilter[]): any[] {
+    const data = Array.from(this.getTable(table)!.values())
+      .filter(record => this.matchesFilters(record, filters));
+
+    console.log(`[MockDB] SELECT from ${table}: found ${data.length} records`);
+    return data;
   }
 
   /**
-   * Create an update query builder
+   * Sort rows by each order in turn
    */
-  private createUpdateQuery(table: string, data: any) {
-    return {
-      eq: (column: string, value: any) => ({
-        then: (callback: (result: UpdateResult) => void) => {
-          callback(this.executeUpdate(table, data, { [column]: value }));
+  private sortRows(rows: any[], orders: QueryOrder[]): any[] {
+    return [...rows].sort((a, b) => {
+      for (const { column, ascending, nullsFirst } of orders) {
+        const aVal = a[column];
+        const bVal = b[column];
+
+        if (aVal == null || bVal == null) {
+          if (aVal == null && bVal == null) continue;
+          return (aVal == null) === nullsFirst ? -1 : 1;
         }
-      })
-    };
+        if (aVal < bVal) return ascending ? -1 : 1;
+        if (aVal > bVal) return ascending ? 1 : -1;
+      }
+      return 0;
+    });
   }
 
   /**
-   * Create a delete query builder
+   * Apply range() and limit() to sorted rows
    */
-  private createDeleteQuery(table: string) {
-    return {
-      eq: (column: string, value: any) => ({
-        then: (callback: (result: DeleteResult) => void) => {
-          callback(this.executeDelete(table, { [column]: value }));
-        }
-      })
-    };
+  private paginate(rows: any[], query: MockQuery): any[] {
+    const end = query.limit === undefined ? undefined : query.offset + query.limit;
+    return rows.slice(query.offset, end);
   }
 
   /**
-   * Execute a select query
+   * Pick the selected columns from a row, e.g. "id, domain" or "*"
    */
-  private executeSelect(table: string, columns: string, filters: any): QueryResult<any> {
-    try {
-      let data: any[] = [];
-
-      switch (table) {
-        case 'reminders':
-          data = Array.from(this.reminders.values());
-          break;
-        case 'sent_reminders':
-          data = Array.from(this.sentReminders.values());
-          break;
-        case 'conversations':
-          data = Array.from(this.conversations.values());
-          break;
-        default:
-          return { data: null, error: { message: `Unknown table: ${table}` } };
-      }
-
-      // Apply filters
-      data = data.filter(record => {
-        for (const [key, value] of Object.entries(filters)) {
-          if (key.endsWith('_neq')) {
-            const column = key.replace('_neq', '');
-            if (record[column] === value) return false;
-          } else if (key.endsWith('_lt')) {
-            const column = key.replace('_lt', '');
-            if (!(record[column] < value)) return false;
-          } else if (key.endsWith('_lte')) {
-            const column = key.replace('_lte', '');
-            if (!(record[column] <= value)) return false;
-          } else if (key.endsWith('_gt')) {
-            const column = key.replace('_gt', '');
-            if (!(record[column] > value)) return false;
-          } else if (key.endsWith('_gte')) {
-            const column = key.replace('_gte', '');
-            if (!(record[column] >= value)) return false;
-          } else {
-            if (record[key] !== value) return false;
-          }
-        }
-        return true;
-      });
+  private project(row: any, columns: string): any {
+    const selected = columns.split(',').map(column => column.trim()).filter(Boolean);
+    if (selected.length === 0 || selected.includes('*')) {
+      return { ...row };
+    }
 
-      console.log(`[MockDB] SELECT from ${table}: found ${data.length} records`);
-      return { data, error: null };
-    } catch (error) {
-      console.error(`[MockDB] SELECT error:`, error);
-      return { data: null, error };
+    const projected: Record<string, any> = {};
+    for (const column of selected) {
+      projected[column] = row[column] ?? null;
     }
+    return projected;
   }
 
   /**
    * Execute an insert query
    */
-  private executeInsert(table: string, data: any): InsertResult {
+  private executeInsert(table: string, record: any): InsertResult {
     try {
-      const record = Array.isArray(data) ? data[0] : data;
-      
-      switch (table) {
-        case 'reminders':
-          const reminderId = this.nextId.reminders++;
-          const reminderRecord: ReminderRecord = {
-            ...record,
-            id: reminderId,
-            created_at: record.created_at || new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          };
-          this.reminders.set(reminderId, reminderRecord);
-          console.log(`[MockDB] INSERT into reminders: ${reminderRecord.domain}`);
-          return { data: reminderRecord, error: null };
-
-        case 'sent_reminders':
-          const sentId = this.nextId.sentReminders++;
-          const sentRecord: SentReminderRecord = {
-            ...record,
-            id: sentId
-          };
-          this.sentReminders.set(sentId, sentRecord);
-          console.log(`[MockDB] INSERT into sent_reminders: reminder_id ${sentRecord.reminder_id}`);
-          return { data: sentRecord, error: null };
-
-        case 'conversations':
-          const convId = this.nextId.conversations++;
-          const convRecord: ConversationRecord = {
-            ...record,
-            id: convId,
-            created_at: record.created_at || new Date().toISOString()
-          };
-          this.conversations.set(convId, convRecord);
-          console.log(`[MockDB] INSERT into conversations: ${convRecord.wallet_address}`);
-          return { data: convRecord, error: null };
+      const invalid = this.validate(table, record, false);
+      if (invalid) {
+        return { data: null, error: invalid };
+      }
 
-        default:
-          return { data: null, error: { message: `Unknown table: ${table}` } };
+      for (const [name, key] of this.uniqueKeys) {
+        if (key.table === table && this.findConflict(table, record, key.columns)) {
+          return {
+            data: null,
+            error: {
+              code: '23505',
+              message: `duplicate key value violates unique constraint "${name}" on ${table} (${key.columns.join(', ')})`
+            }
+          };
+        }
       }
+
+      const id = this.allocateId(table);
+      const inserted = { ...this.getDefaults(table), ...withoutUndefined(record), id };
+      this.getTable(table)!.set(id, inserted);
+      console.log(`[MockDB] INSERT into ${table}: record ${id}`);
+      return { data: inserted, error: null };
     } catch (error) {
       console.error(`[MockDB] INSERT error:`, error);
       return { data: null, error };
@@ -285,105 +390,147 @@ export class MockDatabaseService {
   }
 
   /**
-   * Execute an update query
+   * Execute an upsert query, updating the row that matches the conflict columns or inserting a new one
    */
-  private executeUpdate(table: string, data: any, filters: any): UpdateResult {
-    try {
-      let updated = 0;
-
-      switch (table) {
-        case 'reminders':
-          for (const [id, record] of this.reminders.entries()) {
-            if (this.matchesFilters(record, filters)) {
-              this.reminders.set(id, {
-                ...record,
-                ...data,
-                updated_at: new Date().toISOString()
-              });
-              updated++;
-            }
-          }
-          break;
+  private executeUpsert(table: string, record: any, options?: UpsertOptions): InsertResult {
+    const conflictColumns = (options?.onConflict || 'id').split(',').map(column => column.trim());
+    const existing = this.findConflict(table, record, conflictColumns);
 
-        case 'sent_reminders':
-          for (const [id, record] of this.sentReminders.entries()) {
-            if (this.matchesFilters(record, filters)) {
-              this.sentReminders.set(id, { ...record, ...data });
-              updated++;
-            }
-          }
-          break;
+    if (!existing) {
+      return this.executeInsert(table, record);
+    }
 
-        case 'conversations':
-          for (const [id, record] of this.conversations.entries()) {
-            if (this.matchesFilters(record, filters)) {
-              this.conversations.set(id, { ...record, ...data });
-              updated++;
-            }
-          }
-          break;
-      }
+    const invalid = this.validate(table, record, true);
+    if (invalid) {
+      return { data: null, error: invalid };
+    }
 
-      console.log(`[MockDB] UPDATE ${table}: ${updated} records updated`);
-      return { data: { count: updated }, error: null };
-    } catch (error) {
-      console.error(`[MockDB] UPDATE error:`, error);
-      return { data: null, error };
+    const [updated] = this.executeUpdate(table, record, [{ column: 'id', operator: 'eq', value: existing.id }]);
+    console.log(`[MockDB] UPSERT ${table}: updated record ${existing.id}`);
+    return { data: updated, error: null };
+  }
+
+  /**
+   * Find an existing record with the same values for the given columns
+   */
+  private findConflict(table: string, record: any, columns?: string[]): any {
+    if (!columns || columns.some(column => record[column] === undefined)) {
+      return undefined;
+    }
+
+    const rows = this.getTable(table);
+    if (!rows) {
+      return undefined;
+    }
+
+    for (const existing of rows.values()) {
+      if (columns.every(column => (existing as any)[column] === record[column])) {
+        return existing;
+      }
     }
+    return undefined;
   }
 
   /**
-   * Execute a delete query
+   * Get the storage map for a table
    */
-  private executeDelete(table: string, filters: any): DeleteResult {
-    try {
-      let deleted = 0;
-
-      switch (table) {
-        case 'reminders':
-          for (const [id, record] of this.reminders.entries()) {
-            if (this.matchesFilters(record, filters)) {
-              this.reminders.delete(id);
-              deleted++;
-            }
-          }
-          break;
+  private getTable(table: string): Map<number, any> | undefined {
+    return this.tables.get(table);
+  }
 
-        case 'sent_reminders':
-          for (const [id, record] of this.sentReminders.entries()) {
-            if (this.matchesFilters(record, filters)) {
-              this.sentReminders.delete(id);
-              deleted++;
-            }
-          }
-          break;
+  /**
+   * Check a record against the table's columns, returning the Postgres-style error for the first problem
+   */
+  private validate(table: string, record: any, partial: boolean): { code: string; message: string } | null {
+    const columns = this.columns.get(table);
+    const [issue] = columns ? validateColumns(table, columns, record, { partial }) : [];
+    return issue ? { code: ISSUE_CODES[issue.problem], message: issue.message } : null;
+  }
 
-        case 'conversations':
-          for (const [id, record] of this.conversations.entries()) {
-            if (this.matchesFilters(record, filters)) {
-              this.conversations.delete(id);
-              deleted++;
-            }
-          }
-          break;
+  /**
+   * Default values for a new row, as the database fills them in
+   */
+  private getDefaults(table: string): Record<string, any> {
+    const defaults: Record<string, any> = {};
+    for (const column of this.columns.get(table) ?? []) {
+      if (column.default !== undefined) {
+        defaults[column.name] = this.defaultValue(column);
       }
+    }
+    return defaults;
+  }
 
-      console.log(`[MockDB] DELETE from ${table}: ${deleted} records deleted`);
-      return { data: { count: deleted }, error: null };
-    } catch (error) {
-      console.error(`[MockDB] DELETE error:`, error);
-      return { data: null, error };
+  /**
+   * Take the next id for a table
+   */
+  private allocateId(table: string): number {
+    const id = this.nextIds.get(table) ?? 1;
+    this.nextIds.set(table, id + 1);
+    return id;
+  }
+
+  /**
+   * Execute an update query, returning the updated rows
+   */
+  private executeUpdate(table: string, data: any, filters: QueryFilter[]): any[] {
+    const rows = this.getTable(table)!;
+    const updated: any[] = [];
+
+    for (const [id, record] of rows.entries()) {
+      if (this.matchesFilters(record, filters)) {
+        const next = table === 'reminders'
+          ? { ...record, ...data, updated_at: getClock().now().toISOString() }
+          : { ...record, ...data };
+        rows.set(id, next);
+        updated.push(next);
+      }
     }
+
+    console.log(`[MockDB] UPDATE ${table}: ${updated.length} records updated`);
+    return updated;
   }
 
   /**
-   * Check if a record matches the given filters
+   * Execute a delete query, returning the deleted rows
    */
-  private matchesFilters(record: any, filters: any): boolean {
-    for (const [key, value] of Object.entries(filters)) {
-      if (record[key] !== value) return false;
+  private executeDelete(table: string, filters: QueryFilter[]): any[] {
+    const rows = this.getTable(table)!;
+    const deleted: any[] = [];
+
+    for (const [id, record] of rows.entries()) {
+      if (this.matchesFilters(record, filters)) {
+        rows.delete(id);
+        deleted.push(record);
+      }
     }
-    return true;
+
+    console.log(`[MockDB] DELETE from ${table}: ${deleted.length} records deleted`);
+    return deleted;
+  }
+
+  /**
+   * Check if a record matches every filter. Comparisons against null never match, as in SQL.
+   */
+  private matchesFilters(record: any, filters: QueryFilter[]): boolean {
+    return filters.every(({ column, operator, value }) => {
+      const actual = record[column];
+      switch (operator) {
+        case 'eq':
+          return actual === value;
+        case 'neq':
+          return actual != null && actual !== value;
+        case 'in':
+          return (value as any[]).includes(actual);
+        case 'lt':
+          return actual != null && actual < value;
+        case 'lte':
+          return actual != null && actual <= value;
+        case 'gt':
+          return actual != null && actual > value;
+        case 'gte':
+          return actual != null && actual >= value;
+      }
+    });
   }
 
   /**
@@ -395,9 +542,9 @@ export class MockDatabaseService {
     conversations: number;
   } {
     return {
-      reminders: this.reminders.size,
-      sentReminders: this.sentReminders.size,
-      conversations: this.conversations.size
+      reminders: this.getTable('reminders')?.size ?? 0,
+      sentReminders: this.getTable('sent_reminders')?.size ?? 0,
+      conversations: this.getTable('conversations')?.size ?? 0
     };
   }
 
@@ -405,33 +552,170 @@ export class MockDatabaseService {
    * Reset all data (for testing)
    */
   reset(): void {
-    this.reminders.clear();
-    this.sentReminders.clear();
-    this.conversations.clear();
-    this.nextId = { reminders: 1, sentReminders: 1, conversations: 1 };
+    this.tables.clear();
+    this.columns.clear();
+    this.nextIds.clear();
+    this.uniqueKeys.clear();
+    this.migrate();
     console.log("[MockDB] Reset all data");
   }
 
+  /**
+   * A table's columns and unique keys as the applied migrations define them
+   */
+  describeTable(table: string): { columns: ColumnDefinition[]; uniqueKeys: { name: string; columns: string[] }[] } | undefined {
+    const columns = this.columns.get(table);
+    if (!columns) {
+      return undefined;
+    }
+
+    const uniqueKeys = Array.from(this.uniqueKeys)
+      .filter(([, key]) => key.table === table)
+      .map(([name, key]) => ({ name, columns: key.columns }));
+    return { columns: columns.map(column => ({ ...column })), uniqueKeys };
+  }
+
+  /**
+   * Migrations recorded in schema_migrations, in version order
+   */
+  getAppliedMigrations(): AppliedMigration[] {
+    return Array.from(this.getTable(SCHEMA_MIGRATIONS_TABLE)!.values())
+      .sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Apply a migration's schema operations in one direction and record it in schema_migrations.
+   * Raw SQL operations are skipped, since they only affect real databases.
+   */
+  applyMigration(migration: Migration, direction: MigrationDirection): void {
+    for (const operation of migration[direction]) {
+      this.applySchemaOperation(operation);
+    }
+
+    const applied = this.getTable(SCHEMA_MIGRATIONS_TABLE)!;
+    if (direction === 'up') {
+      applied.set(migration.version, {
+        version: migration.version,
+        name: migration.name,
+        applied_at: getClock().now().toISOString()
+      });
+    } else {
+      applied.delete(migration.version);
+    }
+  }
+
+  /**
+   * Apply every pending migration
+   */
+  private migrate(migrations: Migration[] = MIGRATIONS): void {
+    if (!this.tables.has(SCHEMA_MIGRATIONS_TABLE)) {
+      this.tables.set(SCHEMA_MIGRATIONS_TABLE, new Map());
+    }
+
+    const applied = this.getAppliedMigrations().map(migration => migration.version);
+    for (const migration of getPendingMigrations(migrations, applied)) {
+      this.applyMigration(migration, 'up');
+    }
+  }
+
+  private applySchemaOperation(operation: SchemaOperation): void {
+    switch (operation.type) {
+      case 'create_table':
+        if (!this.tables.has(operation.table)) {
+          this.tables.set(operation.table, new Map());
+          this.columns.set(operation.table, operation.columns.map(column => ({ ...column })));
+        }
+        break;
+      case 'drop_table':
+        this.tables.delete(operation.table);
+        this.columns.delete(operation.table);
+        this.nextIds.delete(operation.table);
+        for (const [name, key] of this.uniqueKeys) {
+          if (key.table === operation.table) {
+            this.uniqueKeys.delete(name);
+          }
+        }
+        break;
+      case 'add_column':
+        this.columns.get(operation.table)?.push({ ...operation.column });
+        for (const row of this.getTable(operation.table)?.values() ?? []) {
+          row[operation.column.name] ??= this.defaultValue(operation.column);
+        }
+        break;
+      case 'drop_column':
+        this.columns.set(operation.table, (this.columns.get(operation.table) ?? []).filter(column => column.name !== operation.column));
+        for (const row of this.getTable(operation.table)?.values() ?? []) {
+          delete row[operation.column];
+        }
+        break;
+      case 'add_check':
+      case 'drop_check':
+        for (const column of this.columns.get(operation.table) ?? []) {
+          if (column.name === operation.column && operation.type === 'add_check') {
+            column.pattern = operation.pattern;
+          } else if (column.name === operation.column) {
+            delete column.pattern;
+          }
+        }
+        break;
+      case 'create_index':
+        if (operation.unique) {
+          this.uniqueKeys.set(operation.name, { table: operation.table, columns: operation.columns });
+        }
+        break;
+      case 'drop_index':
+        this.uniqueKeys.delete(operation.name);
+        break;
+      case 'sql':
+        break;
+    }
+  }
+
+  /**
+   * A column's default as the mock stores it: JSON as text, timestamps as ISO strings
+   */
+  private defaultValue(column: ColumnDefinition): any {
+    if (column.default === NOW) {
+      return getClock().now().toISOString();
+    }
+    return column.default ?? null;
+  }
+
   /**
    * Seed some test data
    */
   private seedTestData(): void {
     // Add a test reminder that's expiring soon
-    const testReminder: ReminderRecord = {
-      id: 1,
+    this.executeInsert('reminders', {
       domain: "test.eth",
       wallet_address: "0xtest123",
-      expiry_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), // 7 days from now
+      expiry_date: new Date(getClock().now().getTime() + 7 * 24 * 60 * 60 * 1000).toISOString(), // 7 days from now
       reminders_sent: JSON.stringify([]),
-      created_at: new Date().toISOString()
-    };
-    
-    this.reminders.set(1, testReminder);
-    this.nextId.reminders = 2;
-    
+      created_at: getClock().now().toISOString()
+    });
+
     console.log("[MockDB] Seeded test data");
   }
 }
 
+function withoutUndefined(record: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined));
+}
+
 // Singleton instance for the mock service
-export const mockDatabaseService = new MockDatabaseService();
\ No newline at end of file
+export const mockDatabaseService = new MockDatabaseService();
+
+/**
+ * Migrations on a mock database, for exercising the runner in tests
+ */
+export class MockMigrationStore implements MigrationStore {
+  constructor(private readonly database: MockDatabaseService = mockDatabaseService) {}
+
+  async getApplied(): Promise<AppliedMigration[]> {
+    return this.database.getAppliedMigrations();
+  }
+
+  async apply(migration: Migration, direction: MigrationDirection): Promise<void> {
+    this.database.applyMigration(migration, direction);
+  }
+}
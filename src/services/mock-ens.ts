@@ -0,0 +1,192 @@
+/**
+ * Fixture-backed ENS Data Source for testing ENS reminder bot without an Ethereum RPC endpoint
+ * This service serves deterministic name data from in-memory fixtures or a JSON fixture file
+ */
+
+import { readFileSync } from "fs";
+import { getClock } from "./clock";
+import { EnsDataSource, EnsNameStatus, ExpiryLookup, WrappedName } from "./ens-data-source";
+import { getDomainLifecycle, getWrappedEthExpiry } from "./ens-lifecycle";
+import { getParentName, isSubname } from "./ens-name";
+import { OwnedNameSource } from "./owned-names";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface EnsFixtureRecord {
+  expiry: string | null; // ISO timestamp of registrar expiry, or NameWrapper expiry for subnames (null if unwrapped)
+  fuses?: number; // Set for names wrapped in the NameWrapper
+  owner?: string | null;
+  registrant?: string | null;
+  resolver?: string | null;
+}
+
+export interface EnsFixtureFile {
+  names: Record<string, EnsFixtureRecord>;
+}
+
+export class FixtureEnsDataSource implements EnsDataSource, OwnedNameSource {
+  readonly kind = "fixture";
+  private names: Map<string, EnsFixtureRecord> = new Map();
+  private loadedPath?: string;
+
+  constructor() {
+    console.log("[MockENS] Initializing fixture ENS data source");
+    this.seedTestData();
+  }
+
+  async getExpiry(domain: string): Promise<Date | null> {
+    const name = domain.toLowerCase();
+    const record = this.getRecord(name);
+    if (!isSubname(name)) {
+      return record?.expiry ? new Date(record.expiry) : null;
+    }
+
+    // A wrapped subname can't outlive its parent's NameWrapper expiry; an unwrapped one has no expiry of its own
+    const parent = getParentName(name);
+    const parentExpiry = await this.getExpiry(parent);
+    if (!record || !parentExpiry) {
+      return null;
+    }
+    if (!record.expiry) {
+      return parentExpiry;
+    }
+    const parentWrappedExpiry = isSubname(parent) ? parentExpiry : getWrappedEthExpiry(parentExpiry);
+    const expiry = new Date(record.expiry);
+    return expiry < parentWrappedExpiry ? expiry : parentWrappedExpiry;
+  }
+
+  async getExpiries(domains: string[]): Promise<ExpiryLookup[]> {
+    return Promise.all(domains.map(async domain => {
+      try {
+        return { domain, expiry: await this.getExpiry(domain) };
+      } catch (error) {
+        return { domain, expiry: null, error: error instanceof Error ? error : new Error(String(error)) };
+      }
+    }));
+  }
+
+  async getWrappedName(domain: string): Promise<WrappedName | null> {
+    const record = this.getRecord(domain);
+    if (!record || record.fuses === undefined) {
+      return null;
+    }
+
+    let expiry = record.expiry ? new Date(record.expiry) : null;
+    if (expiry && !isSubname(domain.toLowerCase())) {
+      expiry = getWrappedEthExpiry(expiry);
+    }
+    return { owner: record.owner ?? null, fuses: record.fuses, expiry };
+  }
+
+  async getOwner(domain: string): Promise<string | null> {
+    return this.getRecord(domain)?.owner ?? null;
+  }
+
+  async getRegistrant(domain: string): Promise<string | null> {
+    return this.getRecord(domain)?.registrant ?? null;
+  }
+
+  async getResolver(domain: string): Promise<string | null> {
+    return this.getRecord(domain)?.resolver ?? null;
+  }
+
+  /**
+   * Names whose registrant, registry owner or NameWrapper owner is the address
+   */
+  async getOwnedNames(address: string): Promise<string[]> {
+    const holder = address.toLowerCase();
+    return Array.from(this.names.entries())
+      .filter(([, record]) => [record.registrant, record.owner].some(candidate => candidate?.toLowerCase() === holder))
+      .map(([domain]) => domain);
+  }
+
+  async getNameStatus(domain: string): Promise<EnsNameStatus> {
+    const expiry = await this.getExpiry(domain);
+    if (!expiry) {
+      return 'available';
+    }
+
+    const { state } = getDomainLifecycle(expiry, getClock().now(), domain.toLowerCase());
+    return state === 'active' || state === 'grace_period' ? 'registered' : 'available';
+  }
+
+  /**
+   * Add or replace a fixture record (for testing)
+   */
+  setName(domain: string, record: EnsFixtureRecord): void {
+    this.names.set(domain.toLowerCase(), record);
+    console.log(`[MockENS] Set fixture for ${domain}`);
+  }
+
+  /**
+   * Remove a fixture record (for testing)
+   */
+  removeName(domain: string): boolean {
+    return this.names.delete(domain.toLowerCase());
+  }
+
+  /**
+   * Load fixture records from a JSON file, merging them over the current set
+   */
+  loadFromFile(path: string): void {
+    if (this.loadedPath === path) {
+      return;
+    }
+
+    const fixture: EnsFixtureFile = JSON.parse(readFileSync(path, "utf8"));
+    for (const [domain, record] of Object.entries(fixture.names)) {
+      this.names.set(domain.toLowerCase(), record);
+    }
+
+    this.loadedPath = path;
+    console.log(`[MockENS] Loaded ${Object.keys(fixture.names).length} fixtures from ${path}`);
+  }
+
+  /**
+   * Get the number of fixture records
+   */
+  getStats(): { names: number; fixturePath?: string } {
+    return {
+      names: this.names.size,
+      fixturePath: this.loadedPath
+    };
+  }
+
+  /**
+   * Reset to the seeded fixtures (for testing)
+   */
+  reset(): void {
+    this.names.clear();
+    this.loadedPath = undefined;
+    this.seedTestData();
+    console.log("[MockENS] Reset all fixtures");
+  }
+
+  private getRecord(domain: string): EnsFixtureRecord | undefined {
+    return this.names.get(domain.toLowerCase());
+  }
+
+  /**
+   * Seed fixtures matching the mock database test data
+   */
+  private seedTestData(): void {
+    const now = getClock().now().getTime();
+
+    // Matches the reminder seeded by the mock database, expiring in 7 days
+    this.names.set("test.eth", {
+      expiry: new Date(now + 7 * DAY_MS).toISOString(),
+      owner: "0xtest123",
+      registrant: "0xtest123"
+    });
+
+    // Expired 30 days ago, still in its grace period
+    this.names.set("expired.eth", {
+      expiry: new Date(now - 30 * DAY_MS).toISOString()
+    });
+
+    console.log("[MockENS] Seeded test data");
+  }
+}
+
+// Singleton instance for the mock service
+export const mockEnsDataSource = new FixtureEnsDataSource();
@@ -0,0 +1,94 @@
+/**
+ * Fixture-backed registrar log source for testing renewal scanning without an Ethereum RPC endpoint
+ * This service serves recorded registrar logs from memory or a JSON fixture file
+ */
+
+import { readFileSync } from "fs";
+import { RegistrarLog, RegistrarLogFilter, RegistrarLogSource } from "./registrar-events";
+
+export interface RegistrarLogFixtureFile {
+  blockNumber: number; // Chain head when the logs were recorded
+  logs: RegistrarLog[];
+}
+
+export class FixtureRegistrarLogSource implements RegistrarLogSource {
+  readonly kind = "fixture";
+  private blockNumber: number = 0;
+  private logs: RegistrarLog[] = [];
+  private loadedPath?: string;
+
+  constructor() {
+    console.log("[MockRegistrarLogs] Initializing fixture registrar log source");
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.blockNumber;
+  }
+
+  async getLogs(filter: RegistrarLogFilter): Promise<RegistrarLog[]> {
+    const addresses = filter.address.map(address => address.toLowerCase());
+
+    return this.logs.filter(log =>
+      log.blockNumber >= filter.fromBlock &&
+      log.blockNumber <= filter.toBlock &&
+      addresses.includes(log.address.toLowerCase()) &&
+      filter.topics.every((accepted, position) => accepted === null || accepted.includes(log.topics[position]))
+    );
+  }
+
+  /**
+   * Set the chain head (for testing)
+   */
+  setBlockNumber(blockNumber: number): void {
+    this.blockNumber = blockNumber;
+  }
+
+  /**
+   * Add a log, moving the chain head up to its block if needed (for testing)
+   */
+  addLog(log: RegistrarLog): void {
+    this.logs.push(log);
+    this.logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    this.blockNumber = Math.max(this.blockNumber, log.blockNumber);
+  }
+
+  /**
+   * Load recorded logs from a JSON file, adding them to the current set
+   */
+  loadFromFile(path: string): void {
+    if (this.loadedPath === path) {
+      return;
+    }
+
+    const fixture: RegistrarLogFixtureFile = JSON.parse(readFileSync(path, "utf8"));
+    fixture.logs.forEach(log => this.addLog(log));
+    this.blockNumber = Math.max(this.blockNumber, fixture.blockNumber);
+
+    this.loadedPath = path;
+    console.log(`[MockRegistrarLogs] Loaded ${fixture.logs.length} logs from ${path}`);
+  }
+
+  /**
+   * Get the number of recorded logs and the chain head
+   */
+  getStats(): { logs: number; blockNumber: number; fixturePath?: string } {
+    return {
+      logs: this.logs.length,
+      blockNumber: this.blockNumber,
+      fixturePath: this.loadedPath
+    };
+  }
+
+  /**
+   * Clear all logs (for testing)
+   */
+  reset(): void {
+    this.logs = [];
+    this.blockNumber = 0;
+    this.loadedPath = undefined;
+    console.log("[MockRegistrarLogs] Reset all logs");
+  }
+}
+
+// Singleton instance for the mock service
+export const mockRegistrarLogSource = new FixtureRegistrarLogSource();
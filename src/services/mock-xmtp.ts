@@ -3,24 +3,28 @@
  * This service simulates XMTP messaging functionality for development and testing
  */
 
-export interface MockMessage {
-  id: string;
-  sender: string;
-  recipient: string;
-  content: string;
-  timestamp: Date;
-  conversation: string;
-}
+import { getClock } from "./clock";
+import {
+  MessageQueue,
+  MessagingStats,
+  MessagingTransport,
+  PeerUnavailableError,
+  TransportConversation,
+  TransportMessage
+} from "./messaging-transport";
+
+export type MockMessage = TransportMessage;
 
-export interface XMTPConversation {
-  peerAddress: string;
+export interface XMTPConversation extends TransportConversation {
   messages: MockMessage[];
-  createdAt: Date;
 }
 
-export class MockXMTPService {
+export class MockXMTPService implements MessagingTransport {
+  readonly kind = "mock";
   private conversations: Map<string, XMTPConversation> = new Map();
   private sentMessages: MockMessage[] = [];
+  private incomingStreams: Set<MessageQueue<MockMessage>> = new Set();
+  private blockedBy: Set<string> = new Set();
   private isConnected: boolean = false;
   private botAddress: string = "0xbot123"; // Mock bot wallet address
 
@@ -41,6 +45,9 @@ export class MockXMTPService {
    * Mock disconnection from XMTP network
    */
   async disconnect(): Promise<void> {
+    for (const stream of Array.from(this.incomingStreams)) {
+      stream.close();
+    }
     this.isConnected = false;
     console.log("[MockXMTP] Disconnected from mock XMTP network");
   }
@@ -52,6 +59,13 @@ export class MockXMTPService {
     return this.isConnected;
   }
 
+  /**
+   * Get the bot's wallet address
+   */
+  getAddress(): string {
+    return this.botAddress;
+  }
+
   /**
    * Send a message to a wallet address
    */
@@ -59,13 +73,16 @@ export class MockXMTPService {
     if (!this.isConnected) {
       throw new Error("XMTP service not connected");
     }
+    if (this.blockedBy.has(recipientAddress.toLowerCase())) {
+      throw new PeerUnavailableError(recipientAddress, "peer has blocked the bot");
+    }
 
     const message: MockMessage = {
       id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       sender: this.botAddress,
       recipient: recipientAddress,
       content,
-      timestamp: new Date(),
+      timestamp: getClock().now(),
       conversation: this.getConversationId(this.botAddress, recipientAddress)
     };
 
@@ -78,7 +95,7 @@ export class MockXMTPService {
       this.conversations.set(conversationId, {
         peerAddress: recipientAddress,
         messages: [],
-        createdAt: new Date()
+        createdAt: getClock().now()
       });
     }
 
@@ -127,7 +144,7 @@ export class MockXMTPService {
       sender: senderAddress,
       recipient: this.botAddress,
       content,
-      timestamp: new Date(),
+      timestamp: getClock().now(),
       conversation: this.getConversationId(senderAddress, this.botAddress)
     };
 
@@ -137,7 +154,7 @@ export class MockXMTPService {
       this.conversations.set(conversationId, {
         peerAddress: senderAddress,
         messages: [],
-        createdAt: new Date()
+        createdAt: getClock().now()
       });
     }
 
@@ -145,10 +162,35 @@ export class MockXMTPService {
     conversation.messages.push(message);
 
     console.log(`[MockXMTP] Received message from ${senderAddress}: ${content.substring(0, 50)}...`);
-    
+
+    for (const stream of this.incomingStreams) {
+      stream.push(message);
+    }
+
     return message;
   }
 
+  /**
+   * Simulate a peer blocking the bot, so sends to them fail (for testing)
+   */
+  simulateBlock(peerAddress: string): void {
+    this.blockedBy.add(peerAddress.toLowerCase());
+    console.log(`[MockXMTP] ${peerAddress} blocked the bot`);
+  }
+
+  /**
+   * Stream messages sent to the bot until the service disconnects
+   */
+  streamIncoming(): AsyncIterableIterator<MockMessage> {
+    if (!this.isConnected) {
+      throw new Error("XMTP service not connected");
+    }
+
+    const stream: MessageQueue<MockMessage> = new MessageQueue(() => this.incomingStreams.delete(stream));
+    this.incomingStreams.add(stream);
+    return stream;
+  }
+
   /**
    * Get all sent messages (for testing/verification)
    */
@@ -160,19 +202,19 @@ export class MockXMTPService {
    * Clear all messages and conversations (for testing)
    */
   reset(): void {
+    for (const stream of Array.from(this.incomingStreams)) {
+      stream.close();
+    }
     this.conversations.clear();
     this.sentMessages = [];
+    this.blockedBy.clear();
     console.log("[MockXMTP] Reset all messages and conversations");
   }
 
   /**
    * Get conversation statistics (for testing)
    */
-  getStats(): {
-    totalConversations: number;
-    totalMessages: number;
-    totalSentMessages: number;
-  } {
+  getStats(): MessagingStats {
     const totalMessages = Array.from(this.conversations.values())
       .reduce((sum, conv) => sum + conv.messages.length, 0);
 
@@ -0,0 +1,189 @@
+/**
+ * Production scheduler backed by node-cron
+ * Runs jobs on standard 5-field cron expressions or @daily-style macros, optionally in a specific timezone
+ */
+
+import cron, { ScheduledTask } from "node-cron";
+import { getClock } from "./clock";
+import { CronExpression } from "./cron-expression";
+import {
+  CronJob,
+  InvalidScheduleError,
+  isValidTimezone,
+  ScheduleOptions,
+  Scheduler,
+  SchedulerStats
+} from "./scheduler";
+
+export class NodeCronScheduler implements Scheduler {
+  private jobs: Map<string, CronJob> = new Map();
+  private tasks: Map<string, ScheduledTask> = new Map();
+  private isActive: boolean = false;
+
+  constructor() {
+    console.log("[Scheduler] Initializing node-cron scheduler");
+  }
+
+  /**
+   * Schedule a new cron job, replacing any job with the same id
+   */
+  schedule(
+    id: string,
+    cronExpression: string,
+    callback: () => Promise<void> | void,
+    options: ScheduleOptions = {}
+  ): CronJob {
+    const expression = CronExpression.parse(cronExpression);
+    if (options.timezone && !isValidTimezone(options.timezone)) {
+      throw new InvalidScheduleError(cronExpression, `unknown timezone '${options.timezone}'`);
+    }
+
+    this.removeJob(id);
+
+    const job: CronJob = {
+      id,
+      schedule: cronExpression,
+      timezone: options.timezone,
+      callback,
+      isRunning: false,
+      runCount: 0,
+      nextRun: expression.next(getClock().now(), options.timezone)
+    };
+
+    // node-cron only supplies a tick every minute, and the expression decides which ones run, so runs always agree
+    // with nextRun. node-cron's own matching requires both day of month and day of week when both are restricted,
+    // where standard cron runs on either.
+    const task = cron.schedule("* * * * *", () => this.tick(job, expression), { scheduled: false });
+
+    this.jobs.set(id, job);
+    this.tasks.set(id, task);
+    if (this.isActive) {
+      task.start();
+    }
+
+    const zone = options.timezone ? ` (${options.timezone})` : "";
+    console.log(`[Scheduler] Scheduled job '${id}' with expression '${cronExpression}'${zone}`);
+
+    return job;
+  }
+
+  /**
+   * Start running all scheduled jobs
+   */
+  start(): void {
+    if (this.isActive) {
+      console.log("[Scheduler] Scheduler already active");
+      return;
+    }
+
+    this.isActive = true;
+    for (const task of this.tasks.values()) {
+      task.start();
+    }
+    console.log(`[Scheduler] Started ${this.tasks.size} jobs`);
+  }
+
+  /**
+   * Stop all scheduled jobs
+   */
+  stop(): void {
+    if (!this.isActive) {
+      console.log("[Scheduler] Scheduler already stopped");
+      return;
+    }
+
+    this.isActive = false;
+    for (const task of this.tasks.values()) {
+      task.stop();
+    }
+    console.log("[Scheduler] Stopped scheduler");
+  }
+
+  /**
+   * Run a job now, outside its schedule
+   */
+  async triggerJob(jobId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Job '${jobId}' not found`);
+    }
+
+    await this.executeJob(job);
+  }
+
+  /**
+   * Get information about all scheduled jobs
+   */
+  getJobs(): CronJob[] {
+    return Array.from(this.jobs.values());
+  }
+
+  /**
+   * Remove a scheduled job
+   */
+  removeJob(jobId: string): boolean {
+    const task = this.tasks.get(jobId);
+    if (!task) {
+      return false;
+    }
+
+    task.stop();
+    this.tasks.delete(jobId);
+    this.jobs.delete(jobId);
+    console.log(`[Scheduler] Removed job '${jobId}'`);
+    return true;
+  }
+
+  /**
+   * Check if the scheduler is active
+   */
+  isRunning(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Get scheduler statistics
+   */
+  getStats(): SchedulerStats {
+    const jobs = Array.from(this.jobs.values());
+    return {
+      totalJobs: jobs.length,
+      runningJobs: jobs.filter(job => job.isRunning).length,
+      totalRuns: jobs.reduce((sum, job) => sum + job.runCount, 0),
+      isActive: this.isActive
+    };
+  }
+
+  /**
+   * Run a job if its expression fires in the current minute
+   */
+  private async tick(job: CronJob, expression: CronExpression): Promise<void> {
+    if (expression.matches(getClock().now(), job.timezone)) {
+      await this.executeJob(job);
+    }
+  }
+
+  /**
+   * Execute a job, skipping it if the previous run is still in progress
+   */
+  private async executeJob(job: CronJob): Promise<void> {
+    if (job.isRunning) {
+      console.log(`[Scheduler] Job '${job.id}' is still running, skipping`);
+      return;
+    }
+
+    job.isRunning = true;
+    job.lastRun = getClock().now();
+    job.runCount++;
+
+    try {
+      await job.callback();
+      console.log(`[Scheduler] Job '${job.id}' completed (run #${job.runCount})`);
+    } catch (error) {
+      console.error(`[Scheduler] Job '${job.id}' failed:`, error);
+    } finally {
+      job.isRunning = false;
+      job.nextRun = CronExpression.parse(job.schedule).next(getClock().now(), job.timezone);
+    }
+  }
+}
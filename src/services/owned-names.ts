@@ -0,0 +1,264 @@
+/**
+ * Discovery of the .eth names a wallet holds, so they can all be imported as reminders at once
+ * Unwrapped second-level names are found from the BaseRegistrar's Transfer logs and wrapped names from the NameWrapper's;
+ * an indexer can stand in behind the same interface
+ */
+
+import { IAgentRuntime } from "@elizaos/core";
+import { ethers } from "ethers";
+import { ENS_REGISTRAR_ADDRESS, getEnsDataSource, NAME_WRAPPER_ADDRESS, usesEnsFixtures } from "./ens-data-source";
+import { normalizeEnsName } from "./ens-name";
+import { mockEnsDataSource } from "./mock-ens";
+import {
+  ETH_REGISTRAR_CONTROLLER_ADDRESS,
+  getRegistrarLogSource,
+  LEGACY_ETH_REGISTRAR_CONTROLLER_ADDRESS,
+  parseRegistrarLog,
+  REGISTRAR_EVENT_TOPICS,
+  RegistrarLog,
+  RegistrarLogSource
+} from "./registrar-events";
+
+// Block the BaseRegistrar was deployed in; no .eth name was transferred before it
+export const ENS_REGISTRAR_DEPLOYMENT_BLOCK = 9380410;
+
+const REGISTRAR_TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+// The NameWrapper is an ERC-1155 whose token IDs are namehashes, and it logs each name in full when wrapping it
+const nameWrapperEvents = new ethers.Interface([
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+  "event NameWrapped(bytes32 indexed node, bytes name, address owner, uint32 fuses, uint64 expiry)"
+]);
+
+const WRAPPER_TRANSFER_TOPICS = [
+  nameWrapperEvents.getEvent("TransferSingle")!.topicHash,
+  nameWrapperEvents.getEvent("TransferBatch")!.topicHash
+];
+
+const NAME_WRAPPED_TOPIC = nameWrapperEvents.getEvent("NameWrapped")!.topicHash;
+
+const DEFAULT_MAX_BLOCK_RANGE = 500000;
+
+// Labelhashes or namehashes per getLogs call when looking up the names behind token IDs
+const LABELHASHES_PER_QUERY = 100;
+
+/**
+ * Source of the names a wallet holds
+ */
+export interface OwnedNameSource {
+  readonly kind: string;
+
+  /**
+   * Get the normalized names an address holds, in no particular order
+   */
+  getOwnedNames(address: string): Promise<string[]>;
+}
+
+/**
+ * Finds the .eth names an address holds by replaying token transfers to and from it.
+ * Unwrapped second-level names come from the BaseRegistrar's Transfer logs, whose token IDs are labelhashes, so each label
+ * is read back from the controllers' registration and renewal logs. Wrapped names are held by the NameWrapper rather than
+ * the wallet, so they come from its TransferSingle / TransferBatch logs instead, with names read back from NameWrapped logs.
+ */
+export class RegistrarTransferNameSource implements OwnedNameSource {
+  readonly kind = "registrar";
+  private controllers: string[];
+  private fromBlock: number;
+  private maxBlockRange: number;
+
+  constructor(
+    private readonly logSource: RegistrarLogSource,
+    options: { controllers?: string[]; fromBlock?: number; maxBlockRange?: number } = {}
+  ) {
+    this.controllers = options.controllers || [ETH_REGISTRAR_CONTROLLER_ADDRESS, LEGACY_ETH_REGISTRAR_CONTROLLER_ADDRESS];
+    this.fromBlock = options.fromBlock ?? ENS_REGISTRAR_DEPLOYMENT_BLOCK;
+    this.maxBlockRange = options.maxBlockRange || DEFAULT_MAX_BLOCK_RANGE;
+  }
+
+  async getOwnedNames(address: string): Promise<string[]> {
+    if (!ethers.isAddress(address)) {
+      return [];
+    }
+
+    const toBlock = await this.logSource.getBlockNumber();
+    const holder = ethers.zeroPadValue(address.toLowerCase(), 32);
+
+    const heldUnwrapped = await this.getHeldRegistrarTokens(holder, toBlock);
+    const heldWrapped = await this.getHeldWrapperTokens(holder, toBlock);
+
+    const labels = await this.getLabels([...heldUnwrapped], toBlock);
+    const wrappedNames = await this.getWrappedNames([...heldWrapped], toBlock);
+    const candidates = [
+      ...[...heldUnwrapped].map(labelhash => labels.has(labelhash) ? `${labels.get(labelhash)}.eth` : undefined),
+      ...[...heldWrapped].map(node => wrappedNames.get(node))
+    ];
+
+    const names = new Set<string>();
+    for (const candidate of candidates) {
+      try {
+        if (candidate !== undefined && candidate.endsWith(".eth")) {
+          names.add(normalizeEnsName(candidate));
+        }
+      } catch {
+        // Registered on-chain, but not a valid name under ENSIP-15
+      }
+    }
+
+    const heldCount = heldUnwrapped.size + heldWrapped.size;
+    if (names.size < heldCount) {
+      console.log(`[OwnedNames] Couldn't name ${heldCount - names.size} of the ${heldCount} names held by ${address}`);
+    }
+    return [...names];
+  }
+
+  /**
+   * Get the labelhashes of the BaseRegistrar tokens the holder has now.
+   * Transfers out of and into the wallet are replayed in order; the last one for each token says whether the wallet still holds it.
+   */
+  private async getHeldRegistrarTokens(holder: string, toBlock: number): Promise<Set<string>> {
+    const transfers = sortLogs([
+      ...await this.getLogs([ENS_REGISTRAR_ADDRESS], [[REGISTRAR_TRANSFER_TOPIC], [holder]], toBlock),
+      ...await this.getLogs([ENS_REGISTRAR_ADDRESS], [[REGISTRAR_TRANSFER_TOPIC], null, [holder]], toBlock)
+    ]);
+
+    const held = new Set<string>();
+    for (const log of transfers) {
+      const labelhash = log.topics[3].toLowerCase();
+      if (log.topics[2].toLowerCase() === holder) {
+        held.add(labelhash);
+      } else {
+        held.delete(labelhash);
+      }
+    }
+    return held;
+  }
+
+  /**
+   * Get the namehashes of the NameWrapper tokens the holder has now, replaying its single and batch transfers the same way.
+   * Unwrapping burns the token, which shows up as a transfer out of the wallet.
+   */
+  private async getHeldWrapperTokens(holder: string, toBlock: number): Promise<Set<string>> {
+    const transfers = sortLogs([
+      ...await this.getLogs([NAME_WRAPPER_ADDRESS], [WRAPPER_TRANSFER_TOPICS, null, [holder]], toBlock),
+      ...await this.getLogs([NAME_WRAPPER_ADDRESS], [WRAPPER_TRANSFER_TOPICS, null, null, [holder]], toBlock)
+    ]);
+
+    const held = new Set<string>();
+    for (const log of transfers) {
+      const parsed = nameWrapperEvents.parseLog({ topics: log.topics, data: log.data });
+      if (!parsed) {
+        continue;
+      }
+
+      const ids: bigint[] = parsed.name === "TransferBatch" ? [...parsed.args.ids] : [parsed.args.id];
+      const received = log.topics[3].toLowerCase() === holder;
+      for (const id of ids) {
+        const node = ethers.toBeHex(id, 32);
+        if (received) {
+          held.add(node);
+        } else {
+          held.delete(node);
+        }
+      }
+    }
+    return held;
+  }
+
+  /**
+   * Read the labels behind labelhashes from the controllers' NameRegistered / NameRenewed logs, which carry the label in full
+   */
+  private async getLabels(labelhashes: string[], toBlock: number): Promise<Map<string, string>> {
+    const labels = new Map<string, string>();
+
+    for (let start = 0; start < labelhashes.length; start += LABELHASHES_PER_QUERY) {
+      const chunk = labelhashes.slice(start, start + LABELHASHES_PER_QUERY);
+      for (const log of await this.getLogs(this.controllers, [REGISTRAR_EVENT_TOPICS, chunk], toBlock)) {
+        const event = parseRegistrarLog(log);
+        if (event) {
+          labels.set(event.labelhash.toLowerCase(), event.name);
+        }
+      }
+    }
+
+    return labels;
+  }
+
+  /**
+   * Read the names behind NameWrapper token IDs from its NameWrapped logs, which carry the DNS-encoded name
+   */
+  private async getWrappedNames(nodes: string[], toBlock: number): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+
+    for (let start = 0; start < nodes.length; start += LABELHASHES_PER_QUERY) {
+      const chunk = nodes.slice(start, start + LABELHASHES_PER_QUERY);
+      for (const log of await this.getLogs([NAME_WRAPPER_ADDRESS], [[NAME_WRAPPED_TOPIC], chunk], toBlock)) {
+        const parsed = nameWrapperEvents.parseLog({ topics: log.topics, data: log.data });
+        const name = parsed ? decodeDnsName(parsed.args.name) : null;
+        if (name !== null) {
+          names.set(log.topics[1].toLowerCase(), name);
+        }
+      }
+    }
+
+    return names;
+  }
+
+  private async getLogs(address: string[], topics: (string[] | null)[], toBlock: number): Promise<RegistrarLog[]> {
+    const logs: RegistrarLog[] = [];
+    for (let fromBlock = this.fromBlock; fromBlock <= toBlock; fromBlock += this.maxBlockRange) {
+      logs.push(...await this.logSource.getLogs({
+        address,
+        topics,
+        fromBlock,
+        toBlock: Math.min(fromBlock + this.maxBlockRange - 1, toBlock)
+      }));
+    }
+    return logs;
+  }
+}
+
+function sortLogs(logs: RegistrarLog[]): RegistrarLog[] {
+  return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+/**
+ * Decode a DNS wire-format name, e.g. 0x07766974616c696b0365746800 to "vitalik.eth", or null if it is malformed
+ */
+function decodeDnsName(encoded: string): string | null {
+  const bytes = ethers.getBytes(encoded);
+  const labels: string[] = [];
+
+  let offset = 0;
+  while (offset < bytes.length && bytes[offset] !== 0) {
+    const end = offset + 1 + bytes[offset];
+    if (end > bytes.length) {
+      return null;
+    }
+
+    try {
+      labels.push(ethers.toUtf8String(bytes.slice(offset + 1, end)));
+    } catch {
+      return null;
+    }
+    offset = end;
+  }
+
+  return labels.length > 0 ? labels.join(".") : null;
+}
+
+/**
+ * Get the owned name source matching the ENS data source: the ENS fixtures, which record who holds each name, or the registrar's logs
+ */
+export function getOwnedNameSource(runtime: IAgentRuntime): OwnedNameSource {
+  if (usesEnsFixtures(runtime)) {
+    // Loads ENS_FIXTURE_PATH into the fixtures
+    getEnsDataSource(runtime);
+    return mockEnsDataSource;
+  }
+
+  const maxBlockRange = parseInt(runtime.getSetting("ENS_OWNED_NAMES_BLOCK_RANGE") || "", 10);
+  return new RegistrarTransferNameSource(getRegistrarLogSource(runtime), {
+    maxBlockRange: maxBlockRange > 0 ? maxBlockRange : undefined
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Pending name imports
+ * Remembers the names each sender was shown in an import preview, so a later "confirm import" only tracks that set
+ */
+
+import { getClock } from "./clock";
+
+// How long a preview can be confirmed for before the sender has to ask for a fresh one
+export const PENDING_IMPORT_TTL_MS = 15 * 60 * 1000;
+
+interface PendingImport {
+  names: string[];
+  expiresAt: number;
+}
+
+export class PendingImportStore {
+  private pending: Map<string, PendingImport> = new Map();
+
+  constructor(private readonly ttlMs: number = PENDING_IMPORT_TTL_MS) {}
+
+  /**
+   * Remember the names offered to a sender, replacing any earlier preview
+   */
+  set(walletAddress: string, names: string[]): void {
+    if (names.length === 0) {
+      this.pending.delete(walletAddress.toLowerCase());
+      return;
+    }
+
+    this.pending.set(walletAddress.toLowerCase(), {
+      names: [...names],
+      expiresAt: getClock().now().getTime() + this.ttlMs
+    });
+  }
+
+  /**
+   * Get the names a sender can still confirm, or null if there is no preview or it expired
+   */
+  get(walletAddress: string): string[] | null {
+    const key = walletAddress.toLowerCase();
+    const pending = this.pending.get(key);
+    if (!pending) {
+      return null;
+    }
+
+    if (getClock().now().getTime() >= pending.expiresAt) {
+      this.pending.delete(key);
+      return null;
+    }
+
+    return [...pending.names];
+  }
+
+  /**
+   * Drop names from a sender's preview once they have been imported, and the preview once it's empty
+   */
+  remove(walletAddress: string, names: string[]): void {
+    const key = walletAddress.toLowerCase();
+    const pending = this.pending.get(key);
+    if (!pending) {
+      return;
+    }
+
+    pending.names = pending.names.filter(name => !names.includes(name));
+    if (pending.names.length === 0) {
+      this.pending.delete(key);
+    }
+  }
+
+  /**
+   * Forget every preview (for testing)
+   */
+  clear(): void {
+    this.pending.clear();
+  }
+}
+
+// Previews only need to outlive a short back-and-forth, so they are kept in memory rather than the database
+export const pendingImports = new PendingImportStore();
@@ -0,0 +1,245 @@
+/**
+ * ETH registrar event scanning
+ * Finds renewals and registrations of tracked names in the registrar controllers' NameRenewed / NameRegistered logs,
+ * so expiries can be kept current without polling every name
+ */
+
+import { IAgentRuntime } from "@elizaos/core";
+import { ethers } from "ethers";
+import { ScanCursorRepository } from "./repositories";
+import { createMainnetProvider, usesEnsFixtures } from "./ens-data-source";
+import { parseEnsName, ParsedEnsName } from "./ens-name";
+import { mockRegistrarLogSource } from "./mock-registrar-logs";
+
+// ETHRegistrarController that registers and renews .eth names
+export const ETH_REGISTRAR_CONTROLLER_ADDRESS = "0x253553366Da8546fC250F225fe3d25d0C782303b";
+
+// Previous ETHRegistrarController, still able to renew names
+export const LEGACY_ETH_REGISTRAR_CONTROLLER_ADDRESS = "0x283Af0B28c62C092C9727F1Ee09c02CA627EB7F5";
+
+// Both controllers' events; they differ only in how NameRegistered reports the price
+const REGISTRAR_CONTROLLER_EVENTS_ABI = [
+  "event NameRegistered(string name, bytes32 indexed label, address indexed owner, uint256 baseCost, uint256 premium, uint256 expires)",
+  "event NameRegistered(string name, bytes32 indexed label, address indexed owner, uint256 cost, uint256 expires)",
+  "event NameRenewed(string name, bytes32 indexed label, uint256 cost, uint256 expires)"
+];
+
+const registrarControllerEvents = new ethers.Interface(REGISTRAR_CONTROLLER_EVENTS_ABI);
+
+// topic0 of every event the scanner looks for
+export const REGISTRAR_EVENT_TOPICS: string[] = [];
+registrarControllerEvents.forEachEvent(event => REGISTRAR_EVENT_TOPICS.push(event.topicHash));
+
+// Name of the registrar scanner's row in scan_cursors
+export const REGISTRAR_SCAN_CURSOR = 'eth_registrar_controller';
+
+const DEFAULT_MAX_BLOCK_RANGE = 2000;
+
+// Blocks this close to the chain head may still be reorganized, so they are left for the next scan
+const DEFAULT_CONFIRMATIONS = 12;
+
+/**
+ * A raw log, as returned by eth_getLogs and stored in recorded fixtures
+ */
+export interface RegistrarLog {
+  address: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  topics: string[];
+  data: string;
+}
+
+export interface RegistrarLogFilter {
+  address: string[];
+  /** Accepted values for each topic position, or null to accept any */
+  topics: (string[] | null)[];
+  fromBlock: number;
+  toBlock: number;
+}
+
+/**
+ * Source of registrar controller logs
+ */
+export interface RegistrarLogSource {
+  readonly kind: string;
+
+  /**
+   * Get the number of the latest block
+   */
+  getBlockNumber(): Promise<number>;
+
+  /**
+   * Get the logs matching a filter, in the order they were emitted
+   */
+  getLogs(filter: RegistrarLogFilter): Promise<RegistrarLog[]>;
+}
+
+/**
+ * A registration or renewal of a .eth name
+ */
+export interface RegistrarEvent {
+  type: 'registered' | 'renewed';
+  /** The label that was registered or renewed, e.g. "vitalik" for vitalik.eth */
+  name: string;
+  labelhash: string;
+  expires: Date;
+  /** The account a registration was made for; not set for renewals */
+  owner?: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface RegistrarScanResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  /** True when the scanner had no cursor yet and only recorded the current block */
+  initialized: boolean;
+}
+
+/**
+ * Decode a registrar controller log, or return null if it isn't a NameRegistered or NameRenewed event
+ */
+export function parseRegistrarLog(log: RegistrarLog): RegistrarEvent | null {
+  const parsed = registrarControllerEvents.parseLog({ topics: log.topics, data: log.data });
+  if (!parsed) {
+    return null;
+  }
+
+  const renewed = parsed.name === 'NameRenewed';
+  return {
+    type: renewed ? 'renewed' : 'registered',
+    name: parsed.args.name,
+    labelhash: parsed.args.label,
+    expires: new Date(Number(parsed.args.expires) * 1000),
+    owner: renewed ? undefined : parsed.args.owner,
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash
+  };
+}
+
+/**
+ * Get the labelhash registrar events are indexed by for a second-level .eth name, or null for other names
+ */
+export function getEthLabelhash(domain: string): string | null {
+  let parsed: ParsedEnsName;
+  try {
+    parsed = parseEnsName(domain);
+  } catch {
+    return null;
+  }
+
+  return parsed.isSubname ? null : parsed.secondLevelLabelhash;
+}
+
+/**
+ * Scans registrar controller logs from the last processed block up to the confirmed chain head,
+ * persisting its position after every block range so a failed scan resumes where it stopped
+ */
+export class RegistrarEventScanner {
+  private controllers: string[];
+  private maxBlockRange: number;
+  private confirmations: number;
+
+  constructor(
+    private readonly logSource: RegistrarLogSource,
+    private readonly cursors: ScanCursorRepository,
+    options: { controllers?: string[]; maxBlockRange?: number; confirmations?: number } = {}
+  ) {
+    this.controllers = options.controllers || [ETH_REGISTRAR_CONTROLLER_ADDRESS, LEGACY_ETH_REGISTRAR_CONTROLLER_ADDRESS];
+    this.maxBlockRange = options.maxBlockRange || DEFAULT_MAX_BLOCK_RANGE;
+    this.confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+  }
+
+  /**
+   * Scan the blocks since the last scan, passing each range's events to the handler before moving the cursor past them.
+   * The first scan only records the current block, since there is no earlier position to resume from.
+   */
+  async scan(handler: (events: RegistrarEvent[]) => Promise<void>): Promise<RegistrarScanResult> {
+    const head = Math.max(0, (await this.logSource.getBlockNumber()) - this.confirmations);
+    const lastBlock = await this.cursors.getBlock(REGISTRAR_SCAN_CURSOR);
+
+    if (lastBlock === null) {
+      await this.cursors.setBlock(REGISTRAR_SCAN_CURSOR, head);
+      console.log(`[RegistrarEvents] Starting from block ${head}`);
+      return { fromBlock: head, toBlock: head, events: 0, initialized: true };
+    }
+
+    const result: RegistrarScanResult = { fromBlock: lastBlock + 1, toBlock: lastBlock, events: 0, initialized: false };
+
+    for (let fromBlock = lastBlock + 1; fromBlock <= head; fromBlock += this.maxBlockRange) {
+      const toBlock = Math.min(fromBlock + this.maxBlockRange - 1, head);
+      const logs = await this.logSource.getLogs({
+        address: this.controllers,
+        topics: [REGISTRAR_EVENT_TOPICS],
+        fromBlock,
+        toBlock
+      });
+
+      const events = logs
+        .map(parseRegistrarLog)
+        .filter((event): event is RegistrarEvent => event !== null);
+      if (events.length > 0) {
+        await handler(events);
+      }
+
+      await this.cursors.setBlock(REGISTRAR_SCAN_CURSOR, toBlock);
+      result.toBlock = toBlock;
+      result.events += events.length;
+    }
+
+    console.log(`[RegistrarEvents] Scanned blocks ${result.fromBlock}-${result.toBlock}: ${result.events} events`);
+    return result;
+  }
+}
+
+/**
+ * RegistrarLogSource backed by a JSON-RPC provider
+ */
+export class RpcRegistrarLogSource implements RegistrarLogSource {
+  readonly kind = "rpc";
+  private provider: ethers.JsonRpcProvider;
+
+  constructor(rpcUrl: string) {
+    this.provider = createMainnetProvider(rpcUrl);
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+
+  async getLogs(filter: RegistrarLogFilter): Promise<RegistrarLog[]> {
+    const logs = await this.provider.getLogs({
+      address: filter.address,
+      topics: filter.topics,
+      fromBlock: filter.fromBlock,
+      toBlock: filter.toBlock
+    });
+
+    return logs.map(log => ({
+      address: log.address,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      topics: [...log.topics],
+      data: log.data
+    }));
+  }
+}
+
+/**
+ * Get the registrar log source matching the ENS data source: recorded logs with fixtures, RPC otherwise
+ */
+export function getRegistrarLogSource(runtime: IAgentRuntime): RegistrarLogSource {
+  if (usesEnsFixtures(runtime)) {
+    const fixturePath = runtime.getSetting("ENS_LOG_FIXTURE_PATH");
+    if (fixturePath) {
+      mockRegistrarLogSource.loadFromFile(fixturePath);
+    }
+    return mockRegistrarLogSource;
+  }
+
+  const rpcUrl = runtime.getSetting("ETHEREUM_RPC_URL") || "https://eth-mainnet.alchemyapi.io/v2/demo";
+  return new RpcRegistrarLogSource(rpcUrl);
+}
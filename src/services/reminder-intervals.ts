@@ -0,0 +1,109 @@
+/**
+ * Reminder interval helpers
+ * Parses, stores and formats the per-reminder "days before expiry" offsets
+ */
+
+import { ReminderType } from "../schema/records";
+
+export const DEFAULT_REMINDER_INTERVALS = [30, 7, 1];
+
+// Registrations are at least a year, so anything longer would fire immediately
+export const MAX_REMINDER_INTERVAL_DAYS = 365;
+
+export class InvalidReminderIntervalError extends Error {
+  constructor(public readonly interval: number) {
+    super(`Reminder intervals must be between 1 and ${MAX_REMINDER_INTERVAL_DAYS} days (got ${interval})`);
+    this.name = "InvalidReminderIntervalError";
+  }
+}
+
+/**
+ * Parse reminder intervals from free text such as "60, 14 and 3 days before".
+ * Only day counts anchored to "before" / "prior" / "ahead" count, so "it expires in 30 days" is not read as an interval.
+ * Returns null when the text does not mention any intervals.
+ */
+export function parseReminderIntervals(text: string): number[] | null {
+  // Ignore digits that are part of ENS names, e.g. "domain1.eth"
+  const withoutDomains = text.replace(/\S+\.eth\b/gi, " ");
+  // Numbers are separated by a comma, "and" or "&", both as in "30, 7, and 1" (the way they're formatted back), or spaces
+  const match = withoutDomains.match(/\b(\d+(?:(?:\s*,\s*(?:(?:\band\b|&)\s*)?|\s*(?:\band\b|&)\s*|\s+)\d+)*)\s*(?:days?|d)\s+(?:before|prior|ahead)\b/i);
+  if (!match) {
+    return null;
+  }
+
+  const intervals = (match[1].match(/\d+/g) || []).map(Number);
+  return normalizeReminderIntervals(intervals);
+}
+
+/**
+ * Validate intervals and sort them from furthest to closest to expiry, removing duplicates
+ */
+export function normalizeReminderIntervals(intervals: number[]): number[] {
+  for (const interval of intervals) {
+    if (!Number.isInteger(interval) || interval < 1 || interval > MAX_REMINDER_INTERVAL_DAYS) {
+      throw new InvalidReminderIntervalError(interval);
+    }
+  }
+
+  return Array.from(new Set(intervals)).sort((a, b) => b - a);
+}
+
+/**
+ * Read intervals stored on a reminder row (JSON string or array), or null if none are stored
+ */
+export function parseStoredIntervals(stored: unknown): number[] | null {
+  let value = stored;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+
+  try {
+    return normalizeReminderIntervals(value.map(Number));
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Format intervals for display, e.g. [30, 7, 1] => "30, 7, and 1"
+ */
+export function formatReminderIntervals(intervals: number[]): string {
+  if (intervals.length <= 1) {
+    return intervals.join("");
+  }
+  if (intervals.length === 2) {
+    return `${intervals[0]} and ${intervals[1]}`;
+  }
+  return `${intervals.slice(0, -1).join(", ")}, and ${intervals[intervals.length - 1]}`;
+}
+
+/**
+ * Check whether intervals are the default set
+ */
+export function isDefaultReminderIntervals(intervals: number[]): boolean {
+  return intervals.length === DEFAULT_REMINDER_INTERVALS.length &&
+    intervals.every((interval, index) => interval === DEFAULT_REMINDER_INTERVALS[index]);
+}
+
+/**
+ * Reminder type recorded for an interval reminder, e.g. 14 => "day_14"
+ */
+export function getIntervalReminderType(days: number): ReminderType {
+  return `day_${days}`;
+}
+
+/**
+ * Interval of an interval reminder type, or null for lifecycle notices
+ */
+export function getReminderTypeInterval(reminderType: ReminderType): number | null {
+  const match = reminderType.match(/^day_(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
@@ -5,14 +5,75 @@
 
 import { IAgentRuntime } from "@elizaos/core";
 import { mockXMTPService } from "./mock-xmtp";
+import { MessagingTransport } from "./messaging-transport";
+import { XmtpTransport } from "./xmtp-transport";
+import { ConversationTracker, TrackedTransport } from "./conversation-tracker";
 import { mockCronService } from "./mock-cron";
+import { Clock, getClock } from "./clock";
+import { NodeCronScheduler } from "./node-cron-scheduler";
+import { Scheduler } from "./scheduler";
 import { mockDatabaseService } from "./mock-database";
+import { ReminderRecord, ReminderType, TrackingMode } from "../schema/records";
+import { getRepositories, PostgrestReminderRepository, Repositories } from "./repositories";
+import { DomainLifecycle, getDomainLifecycle } from "./ens-lifecycle";
+import { EnsDataSource, getEnsDataSource, NAME_WRAPPER_ADDRESS } from "./ens-data-source";
+import { getNameChain, getParentName, isSubname } from "./ens-name";
+import { getEthLabelhash, getRegistrarLogSource, RegistrarEvent, RegistrarEventScanner } from "./registrar-events";
+import {
+  DEFAULT_REMINDER_INTERVALS,
+  getIntervalReminderType,
+  getReminderTypeInterval,
+  MAX_REMINDER_INTERVAL_DAYS,
+  parseStoredIntervals
+} from "./reminder-intervals";
 
 export interface ReminderServiceConfig {
   runtime: IAgentRuntime;
   enableXMTP?: boolean;
   enableCron?: boolean;
-  reminderIntervals?: number[]; // Days before expiry to send reminders
+  reminderIntervals?: number[]; // Default days before expiry, used when a reminder has no intervals of its own
+  scheduler?: Scheduler; // Defaults to the scheduler selected by MOCK_MODE
+  clock?: Clock; // Defaults to the shared clock from getClock()
+  transport?: MessagingTransport; // Defaults to the transport selected by MOCK_MODE
+  repositories?: Repositories; // Defaults to the repositories selected by the Supabase settings
+  ensDataSource?: EnsDataSource; // Defaults to the data source selected by ENS_DATA_SOURCE / MOCK_MODE
+  resyncBatchSize?: number; // Domains looked up per expiry re-sync batch
+  resyncBatchDelayMs?: number; // Pause between re-sync batches, to stay under RPC rate limits
+  registrarScanner?: RegistrarEventScanner; // Defaults to scanning the log source matching the ENS data source
+}
+
+export interface ExpiryResyncResult {
+  checked: number; // Distinct domains looked up
+  updated: number; // Reminders whose expiry changed
+  renewed: number; // Reminders whose domain was renewed
+  reregistered: number; // Reminders whose domain was released and registered again
+  transferred: number; // Owner reminders whose domain is now held by another account
+  failed: number; // Domains whose lookup failed
+}
+
+// Daily reminder check, evaluated in REMINDER_TIMEZONE
+const DAILY_REMINDER_SCHEDULE = "0 9 * * *";
+
+// Daily expiry sync from registrar events, ahead of the reminder check so renewed names aren't reminded about
+const EXPIRY_SYNC_SCHEDULE = "0 8 * * *";
+
+// Weekly re-sync of every expiry and holder, ahead of Monday's expiry sync. Registrar events miss subnames extended
+// through the NameWrapper, expiries changed outside the controllers and names transferred to another account.
+const EXPIRY_RESYNC_SCHEDULE = "0 7 * * 1";
+
+const DEFAULT_RESYNC_BATCH_SIZE = 25;
+const DEFAULT_RESYNC_BATCH_DELAY_MS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An expiry that moved later by less than this is updated without announcing a renewal
+const MIN_RENEWAL_EXTENSION_MS = DAY_MS;
+
+/**
+ * Check whether a new expiry means the domain was renewed, so its reminders should start over
+ */
+export function isRenewal(previousExpiry: Date, expiryDate: Date): boolean {
+  return expiryDate.getTime() - previousExpiry.getTime() >= MIN_RENEWAL_EXTENSION_MS;
 }
 
 export class ReminderService {
@@ -20,13 +81,33 @@ export class ReminderService {
   private enableXMTP: boolean;
   private enableCron: boolean;
   private reminderIntervals: number[];
+  private scheduler: Scheduler;
+  private transport: TrackedTransport;
+  private repositories: Repositories;
+  private ensDataSource: EnsDataSource;
+  private resyncBatchSize: number;
+  private resyncBatchDelayMs: number;
+  private registrarScanner: RegistrarEventScanner;
+  private clock?: Clock;
   private isInitialized: boolean = false;
 
   constructor(config: ReminderServiceConfig) {
     this.runtime = config.runtime;
     this.enableXMTP = config.enableXMTP !== false; // Default to true
     this.enableCron = config.enableCron !== false; // Default to true
-    this.reminderIntervals = config.reminderIntervals || [30, 7, 1]; // Default intervals
+    this.reminderIntervals = config.reminderIntervals || DEFAULT_REMINDER_INTERVALS;
+    this.scheduler = config.scheduler || getScheduler(config.runtime);
+    this.repositories = config.repositories || getRepositories(config.runtime);
+    this.transport = new TrackedTransport(
+      config.transport || getMessagingTransport(config.runtime),
+      this.repositories.conversations
+    );
+    this.ensDataSource = config.ensDataSource || getEnsDataSource(config.runtime);
+    this.resyncBatchSize = config.resyncBatchSize || DEFAULT_RESYNC_BATCH_SIZE;
+    this.resyncBatchDelayMs = config.resyncBatchDelayMs ?? DEFAULT_RESYNC_BATCH_DELAY_MS;
+    this.registrarScanner = config.registrarScanner
+      || new RegistrarEventScanner(getRegistrarLogSource(config.runtime), this.repositories.scanCursors);
+    this.clock = config.clock;
   }
 
   /**
@@ -43,14 +124,14 @@ export class ReminderService {
     try {
       // Initialize XMTP if enabled
       if (this.enableXMTP) {
-        await mockXMTPService.connect();
-        console.log("[ReminderService] XMTP service connected");
+        await this.transport.connect();
+        console.log(`[ReminderService] Messaging transport connected (${this.transport.kind})`);
       }
 
       // Initialize cron if enabled
       if (this.enableCron) {
         this.setupCronJobs();
-        mockCronService.start();
+        this.scheduler.start();
         console.log("[ReminderService] Cron service started");
       }
 
@@ -74,11 +155,11 @@ export class ReminderService {
 
     try {
       if (this.enableCron) {
-        mockCronService.stop();
+        this.scheduler.stop();
       }
 
       if (this.enableXMTP) {
-        await mockXMTPService.disconnect();
+        await this.transport.disconnect();
       }
 
       this.isInitialized = false;
@@ -91,15 +172,27 @@ export class ReminderService {
   /**
    * Send a reminder message to a user
    */
-  async sendReminder(walletAddress: string, domain: string, daysUntilExpiry: number): Promise<boolean> {
+  async sendReminder(
+    walletAddress: string,
+    domain: string,
+    lifecycle: DomainLifecycle,
+    trackingMode: TrackingMode = 'owner'
+  ): Promise<boolean> {
     if (!this.enableXMTP) {
       console.log("[ReminderService] XMTP disabled, skipping reminder");
       return true;
     }
 
     try {
-      const message = this.createReminderMessage(domain, daysUntilExpiry);
-      await mockXMTPService.sendMessage(walletAddress, message);
+      if (!(await this.transport.conversations.isActive(walletAddress))) {
+        console.log(`[ReminderService] Conversation with ${walletAddress} is inactive, skipping reminder for ${domain}`);
+        return false;
+      }
+
+      const message = trackingMode === 'watch'
+        ? this.createWatchMessage(domain, lifecycle)
+        : this.createReminderMessage(domain, lifecycle);
+      await this.transport.sendMessage(walletAddress, message);
       
       console.log(`[ReminderService] Sent reminder to ${walletAddress} for ${domain}`);
       return true;
@@ -112,15 +205,9 @@ export class ReminderService {
   /**
    * Record that a reminder was sent
    */
-  async recordSentReminder(reminderId: number, reminderType: 'day_30' | 'day_7' | 'day_1', messageId?: string): Promise<void> {
+  async recordSentReminder(reminderId: number, reminderType: ReminderType, messageId?: string): Promise<void> {
     try {
-      const result = await mockDatabaseService.from('sent_reminders').insert({
-        reminder_id: reminderId,
-        sent_at: new Date().toISOString(),
-        reminder_type: reminderType,
-        message_id: messageId
-      });
-
+      await this.repositories.sentReminders.markSent(reminderId, reminderType, this.now(), messageId);
       console.log(`[ReminderService] Recorded sent reminder: ${reminderType} for reminder ${reminderId}`);
     } catch (error) {
       console.error(`[ReminderService] Failed to record sent reminder:`, error);
@@ -128,28 +215,25 @@ export class ReminderService {
   }
 
   /**
-   * Check if a reminder has already been sent
+   * Get the reminder types already sent for a reminder
    */
-  async hasReminderBeenSent(reminderId: number, reminderType: 'day_30' | 'day_7' | 'day_1'): Promise<boolean> {
+  async getSentReminderTypes(reminderId: number): Promise<ReminderType[]> {
     try {
-      const result = mockDatabaseService.from('sent_reminders').select();
-      
-      return new Promise((resolve) => {
-        result.eq('reminder_id', reminderId).then((queryResult: any) => {
-          if (queryResult.data) {
-            const found = queryResult.data.some((record: any) => record.reminder_type === reminderType);
-            resolve(found);
-          } else {
-            resolve(false);
-          }
-        });
-      });
+      return await this.repositories.sentReminders.getSentTypes(reminderId);
     } catch (error) {
       console.error(`[ReminderService] Error checking sent reminders:`, error);
-      return false;
+      return [];
     }
   }
 
+  /**
+   * Check if a reminder has already been sent
+   */
+  async hasReminderBeenSent(reminderId: number, reminderType: ReminderType): Promise<boolean> {
+    const sentTypes = await this.getSentReminderTypes(reminderId);
+    return sentTypes.includes(reminderType);
+  }
+
   /**
    * Process all pending reminders
    */
@@ -157,68 +241,399 @@ export class ReminderService {
     console.log("[ReminderService] Processing pending reminders");
 
     try {
-      const result = mockDatabaseService.from('reminders').select();
-      
-      result.then(async (queryResult: any) => {
-        if (!queryResult.data) {
-          console.log("[ReminderService] No reminders found");
-          return;
+      const now = this.now();
+
+      // No interval reaches further out than the maximum, so later expiries can't be due yet
+      const cutoff = new Date(now.getTime() + MAX_REMINDER_INTERVAL_DAYS * DAY_MS);
+      const reminders = await this.repositories.reminders.findDue(cutoff);
+
+      if (reminders.length === 0) {
+        console.log("[ReminderService] No reminders found");
+        return;
+      }
+
+      let processedCount = 0;
+
+      for (const reminder of reminders) {
+        const lifecycle = getDomainLifecycle(new Date(reminder.expiry_date), now, reminder.domain);
+        const intervals = parseStoredIntervals(reminder.reminder_intervals) || this.reminderIntervals;
+        const sentTypes = await this.getSentReminderTypes(reminder.id!);
+
+        const reminderType = this.getDueReminderType(lifecycle, intervals, sentTypes);
+        if (!reminderType) {
+          continue;
+        }
+
+        // Send the reminder
+        const success = await this.sendReminder(reminder.wallet_address, reminder.domain, lifecycle, reminder.tracking_mode);
+        if (success) {
+          await this.recordSentReminder(reminder.id!, reminderType);
+          processedCount++;
         }
+      }
+
+      console.log(`[ReminderService] Processed ${processedCount} reminders`);
+    } catch (error) {
+      console.error("[ReminderService] Error processing reminders:", error);
+    }
+  }
 
-        const now = new Date();
-        let processedCount = 0;
-
-        for (const reminder of queryResult.data) {
-          const expiryDate = new Date(reminder.expiry_date);
-          const daysUntilExpiry = Math.ceil((expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-
-          // Check each interval
-          for (const interval of this.reminderIntervals) {
-            if (daysUntilExpiry === interval) {
-              const reminderType = `day_${interval}` as 'day_30' | 'day_7' | 'day_1';
-              
-              // Check if we've already sent this reminder
-              const alreadySent = await this.hasReminderBeenSent(reminder.id, reminderType);
-              if (alreadySent) {
-                console.log(`[ReminderService] Reminder ${reminderType} already sent for ${reminder.domain}`);
-                continue;
-              }
-
-              // Send the reminder
-              const success = await this.sendReminder(
-                reminder.wallet_address,
-                reminder.domain,
-                daysUntilExpiry
-              );
-
-              if (success) {
-                await this.recordSentReminder(reminder.id, reminderType);
-                processedCount++;
-              }
-            }
+  /**
+   * Re-read the on-chain expiry of every tracked domain and update the stored reminders.
+   *
+   * Reminders are walked in batches, each domain is looked up once per batch however many wallets
+   * track it, and the service pauses between batches. When a domain was renewed its sent reminder
+   * tiers are cleared, so the reminders start over for the new expiry, and the wallet is thanked.
+   * Owner reminders are also checked against the name's current holders, in case it was transferred.
+   */
+  async resyncExpiries(): Promise<ExpiryResyncResult> {
+    console.log("[ReminderService] Re-syncing domain expiries");
+
+    const result: ExpiryResyncResult = { checked: 0, updated: 0, renewed: 0, reregistered: 0, transferred: 0, failed: 0 };
+    let cursor = 0;
+
+    try {
+      while (true) {
+        const reminders = await this.repositories.reminders.findAfter(cursor, this.resyncBatchSize);
+        if (reminders.length === 0) {
+          break;
+        }
+        cursor = reminders[reminders.length - 1].id!;
+
+        const expiries = await this.lookupExpiries(reminders.map(reminder => reminder.domain), result);
+        for (const reminder of reminders) {
+          const expiryDate = expiries.get(reminder.domain);
+          if (expiryDate) {
+            await this.applyResyncedExpiry(reminder, expiryDate, result);
           }
+        }
+
+        if (reminders.length < this.resyncBatchSize) {
+          break;
+        }
+        await delay(this.resyncBatchDelayMs);
+      }
 
-          // Handle expired domains (grace period reminders)
-          if (daysUntilExpiry <= 0) {
-            const gracePeriodType = 'day_1' as const; // Use day_1 type for grace period
-            const alreadySent = await this.hasReminderBeenSent(reminder.id, gracePeriodType);
-            
-            if (!alreadySent) {
-              const message = `🚨 URGENT: Your ENS domain "${reminder.domain}" has expired! You may still be able to renew it during the grace period. Act quickly to avoid losing your domain.`;
-              
-              const success = await mockXMTPService.sendMessage(reminder.wallet_address, message);
-              if (success) {
-                await this.recordSentReminder(reminder.id, gracePeriodType);
-                processedCount++;
-              }
-            }
+      console.log(`[ReminderService] Re-synced ${result.checked} domains: ${result.updated} updated, ${result.renewed} renewed, ${result.reregistered} re-registered, ${result.transferred} transferred, ${result.failed} failed`);
+    } catch (error) {
+      console.error("[ReminderService] Error re-syncing expiries:", error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Update reminders from the registrar's NameRenewed and NameRegistered events since the last sync.
+   * The first sync has no block to start from, so it re-syncs every expiry instead; after that the weekly
+   * re-sync picks up what the events miss.
+   */
+  async syncRegistrarEvents(): Promise<ExpiryResyncResult> {
+    console.log("[ReminderService] Syncing expiries from registrar events");
+
+    const result: ExpiryResyncResult = { checked: 0, updated: 0, renewed: 0, reregistered: 0, transferred: 0, failed: 0 };
+
+    try {
+      const scan = await this.registrarScanner.scan(events => this.applyRegistrarEvents(events, result));
+      if (scan.initialized) {
+        return await this.resyncExpiries();
+      }
+
+      console.log(`[ReminderService] Synced ${result.checked} domains from registrar events: ${result.updated} updated, ${result.renewed} renewed, ${result.reregistered} re-registered, ${result.transferred} transferred`);
+    } catch (error) {
+      console.error("[ReminderService] Error syncing registrar events:", error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply the latest expiry from a range of registrar events to the reminders tracking those names.
+   * A name registered in the range was released and registered again, even if it was also renewed since.
+   */
+  private async applyRegistrarEvents(events: RegistrarEvent[], result: ExpiryResyncResult): Promise<void> {
+    const latestExpiries = new Map<string, Date>();
+    const registrants = new Map<string, string>();
+    for (const event of events) {
+      const latest = latestExpiries.get(event.labelhash);
+      if (!latest || event.expires > latest) {
+        latestExpiries.set(event.labelhash, event.expires);
+      }
+      if (event.type === 'registered' && event.owner) {
+        registrants.set(event.labelhash, event.owner);
+      }
+    }
+
+    const matched = new Set<string>();
+    let cursor = 0;
+
+    while (true) {
+      const reminders = await this.repositories.reminders.findAfter(cursor, this.resyncBatchSize);
+      if (reminders.length === 0) {
+        break;
+      }
+      cursor = reminders[reminders.length - 1].id!;
+
+      const subnameReminders: ReminderRecord[] = [];
+      for (const reminder of reminders) {
+        const [secondLevelName] = getNameChain(reminder.domain);
+        const labelhash = secondLevelName ? getEthLabelhash(secondLevelName) : null;
+        const expiryDate = labelhash ? latestExpiries.get(labelhash) : undefined;
+        if (!expiryDate) {
+          continue;
+        }
+
+        if (isSubname(reminder.domain)) {
+          subnameReminders.push(reminder);
+        } else if (registrants.has(labelhash!)) {
+          matched.add(reminder.domain);
+          await this.applyReregistration(reminder, expiryDate, registrants.get(labelhash!)!, result);
+        } else {
+          matched.add(reminder.domain);
+          await this.applyResyncedExpiry(reminder, expiryDate, result);
+        }
+      }
+
+      // A parent's renewal only extends a wrapped subname as far as its own expiry, so subnames are looked up again
+      if (subnameReminders.length > 0) {
+        const expiries = await this.lookupExpiries(subnameReminders.map(reminder => reminder.domain), result);
+        for (const reminder of subnameReminders) {
+          const expiryDate = expiries.get(reminder.domain);
+          if (expiryDate) {
+            await this.applyResyncedExpiry(reminder, expiryDate, result);
           }
         }
+      }
+    }
+
+    result.checked += matched.size;
+  }
+
+  /**
+   * Look up the expiries of the distinct domains in one batch. Failed lookups and unregistered names are left out.
+   */
+  private async lookupExpiries(domains: string[], result: ExpiryResyncResult): Promise<Map<string, Date>> {
+    const expiries = new Map<string, Date>();
+    const lookups = await this.ensDataSource.getExpiries([...new Set(domains)]);
+
+    for (const lookup of lookups) {
+      result.checked++;
+      if (lookup.error) {
+        result.failed++;
+        console.error(`[ReminderService] Failed to look up expiry for ${lookup.domain}:`, lookup.error);
+      } else if (lookup.expiry) {
+        expiries.set(lookup.domain, lookup.expiry);
+      }
+    }
+
+    return expiries;
+  }
+
+  /**
+   * Store a re-synced expiry, start the reminders over if the domain was renewed, and check an owner reminder's
+   * domain is still held by its wallet
+   */
+  private async applyResyncedExpiry(reminder: ReminderRecord, expiryDate: Date, result: ExpiryResyncResult): Promise<void> {
+    const storedExpiry = new Date(reminder.expiry_date);
+
+    // Once the grace period is over the name can't be renewed, only registered again, possibly by someone else
+    if (!isSubname(reminder.domain) && expiryDate > storedExpiry && isReleased(getDomainLifecycle(storedExpiry, this.now()))) {
+      await this.applyReregistration(reminder, expiryDate, await this.lookupRegistrant(reminder.domain), result);
+      return;
+    }
+
+    // A transferred name's renewal is its new holder's, so the holder is checked first
+    const current = reminder.tracking_mode === 'owner' ? await this.applyHolderChange(reminder, result) : reminder;
+    if (expiryDate.getTime() !== storedExpiry.getTime()) {
+      await this.applyExpiryChange(current, storedExpiry, expiryDate, result);
+    }
+  }
+
+  /**
+   * Store a changed expiry, and start the reminders over if the domain was renewed
+   */
+  private async applyExpiryChange(
+    reminder: ReminderRecord,
+    storedExpiry: Date,
+    expiryDate: Date,
+    result: ExpiryResyncResult
+  ): Promise<void> {
+    await this.repositories.reminders.upsert({
+      domain: reminder.domain,
+      wallet_address: reminder.wallet_address,
+      expiry_date: expiryDate.toISOString()
+    });
+    result.updated++;
+
+    if (!isRenewal(storedExpiry, expiryDate)) {
+      console.log(`[ReminderService] Updated expiry of ${reminder.domain} to ${expiryDate.toISOString()}`);
+      return;
+    }
 
-        console.log(`[ReminderService] Processed ${processedCount} reminders`);
-      });
+    await this.repositories.sentReminders.deleteForReminder(reminder.id!);
+    result.renewed++;
+    console.log(`[ReminderService] ${reminder.domain} was renewed until ${expiryDate.toISOString()}`);
+
+    await this.sendRenewalNotice(reminder, expiryDate);
+  }
+
+  /**
+   * Watch an owner reminder's domain instead once the wallet no longer holds it, so its reminders stop asking the
+   * previous holder to renew, and return the reminder as it now stands. Names whose holders can't be looked up,
+   * or that have none, are left alone.
+   */
+  private async applyHolderChange(reminder: ReminderRecord, result: ExpiryResyncResult): Promise<ReminderRecord> {
+    const holders = await this.lookupHolders(reminder.domain);
+    const walletAddress = reminder.wallet_address.toLowerCase();
+    if (!holders || holders.length === 0 || holders.some(holder => holder.toLowerCase() === walletAddress)) {
+      return reminder;
+    }
+
+    const watched = await this.repositories.reminders.upsert({
+      domain: reminder.domain,
+      wallet_address: reminder.wallet_address,
+      expiry_date: reminder.expiry_date,
+      tracking_mode: 'watch'
+    });
+    result.transferred++;
+    console.log(`[ReminderService] ${reminder.domain} is no longer held by ${reminder.wallet_address}, watching it instead`);
+
+    await this.sendNotice(
+      reminder.wallet_address,
+      `⚠️ "${reminder.domain}" is now held by another account (${holders[0]}), not your wallet, so I'll watch it instead and let you know if it's released.`
+    );
+    return watched;
+  }
+
+  /**
+   * Store the expiry of a released domain that was registered again, and start the reminders over.
+   * The reminder follows the new registration: it is the tracker's own again if they registered it, and watched otherwise.
+   */
+  private async applyReregistration(
+    reminder: ReminderRecord,
+    expiryDate: Date,
+    registrant: string | null,
+    result: ExpiryResyncResult
+  ): Promise<void> {
+    let trackingMode = reminder.tracking_mode;
+    if (registrant) {
+      trackingMode = registrant.toLowerCase() === reminder.wallet_address.toLowerCase() ? 'owner' : 'watch';
+    }
+
+    await this.repositories.reminders.upsert({
+      domain: reminder.domain,
+      wallet_address: reminder.wallet_address,
+      expiry_date: expiryDate.toISOString(),
+      tracking_mode: trackingMode
+    });
+    await this.repositories.sentReminders.deleteForReminder(reminder.id!);
+    result.updated++;
+    result.reregistered++;
+    console.log(`[ReminderService] ${reminder.domain} was registered again until ${expiryDate.toISOString()}`);
+
+    await this.sendNotice(reminder.wallet_address, this.createReregistrationMessage(reminder, expiryDate, registrant, trackingMode));
+  }
+
+  /**
+   * Get the registrant of a domain, or null if it can't be looked up. Wrapped names are held by the NameWrapper, so their owner is read from it.
+   */
+  private async lookupRegistrant(domain: string): Promise<string | null> {
+    try {
+      const registrant = await this.ensDataSource.getRegistrant(domain);
+      if (registrant?.toLowerCase() === NAME_WRAPPER_ADDRESS.toLowerCase()) {
+        return (await this.ensDataSource.getWrappedName(domain))?.owner ?? null;
+      }
+      return registrant;
     } catch (error) {
-      console.error("[ReminderService] Error processing reminders:", error);
+      console.error(`[ReminderService] Failed to look up registrant for ${domain}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the accounts holding a domain as its NameWrapper owner, registrant or registry owner, in that order, or null if
+   * they can't be looked up. The NameWrapper itself isn't a holder.
+   */
+  private async lookupHolders(domain: string): Promise<string[] | null> {
+    try {
+      const [wrappedName, registrant, owner] = await Promise.all([
+        this.ensDataSource.getWrappedName(domain),
+        this.ensDataSource.getRegistrant(domain),
+        this.ensDataSource.getOwner(domain)
+      ]);
+      const wrapper = NAME_WRAPPER_ADDRESS.toLowerCase();
+      return [wrappedName?.owner, registrant, owner]
+        .filter((holder): holder is string => !!holder && holder.toLowerCase() !== wrapper);
+    } catch (error) {
+      console.error(`[ReminderService] Failed to look up holders of ${domain}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Thank a user for renewing a domain, or tell a watcher that its owner renewed it
+   */
+  private async sendRenewalNotice(reminder: ReminderRecord, expiryDate: Date): Promise<void> {
+    const { domain } = reminder;
+    await this.sendNotice(
+      reminder.wallet_address,
+      reminder.tracking_mode === 'watch'
+        ? `👀 "${domain}" was renewed by its owner until ${expiryDate.toDateString()}. I'll keep watching it and let you know as the new expiry approaches.`
+        : `🎉 Thanks, "${domain}" was renewed until ${expiryDate.toDateString()}! Your reminders will start again as the new expiry approaches.`
+    );
+  }
+
+  /**
+   * Send a one-off notice about a tracked domain, unless the conversation is inactive
+   */
+  private async sendNotice(walletAddress: string, message: string): Promise<void> {
+    if (!this.enableXMTP) {
+      return;
+    }
+
+    try {
+      if (!(await this.transport.conversations.isActive(walletAddress))) {
+        return;
+      }
+
+      await this.transport.sendMessage(walletAddress, message);
+    } catch (error) {
+      console.error(`[ReminderService] Failed to send notice to ${walletAddress}:`, error);
+    }
+  }
+
+  /**
+   * Get the reminder that is due for a domain's lifecycle state, if any.
+   *
+   * Interval reminders are evaluated as windows rather than exact days, so a run that was missed
+   * (downtime, restart, cron drift) still catches up: the most urgent tier whose threshold has been
+   * crossed is sent once, and any less urgent tiers that were skipped are superseded by it.
+   */
+  private getDueReminderType(
+    lifecycle: DomainLifecycle,
+    intervals: number[],
+    sentTypes: ReminderType[]
+  ): ReminderType | null {
+    switch (lifecycle.state) {
+      case 'active': {
+        const crossed = intervals.filter(interval => lifecycle.daysUntilExpiry <= interval);
+        if (crossed.length === 0) {
+          return null;
+        }
+
+        const mostUrgent = Math.min(...crossed);
+        const alreadyCovered = sentTypes.some(type => {
+          const sentInterval = getReminderTypeInterval(type);
+          return sentInterval !== null && sentInterval <= mostUrgent;
+        });
+        return alreadyCovered ? null : getIntervalReminderType(mostUrgent);
+      }
+      // Lifecycle notices are sent once each, ending with the notice that the name can be registered again,
+      // or for a subname, the one that it expired
+      case 'grace_period':
+      case 'premium_auction':
+      case 'available':
+      case 'expired':
+        return sentTypes.includes(lifecycle.state) ? null : lifecycle.state;
     }
   }
 
@@ -234,17 +649,35 @@ export class ReminderService {
     cronStats?: any;
     dbStats?: any;
   } {
+    const { reminders } = this.repositories;
     return {
       isInitialized: this.isInitialized,
       xmtpEnabled: this.enableXMTP,
       cronEnabled: this.enableCron,
       reminderIntervals: this.reminderIntervals,
-      xmtpStats: this.enableXMTP ? mockXMTPService.getStats() : undefined,
-      cronStats: this.enableCron ? mockCronService.getStats() : undefined,
-      dbStats: mockDatabaseService.getStats()
+      xmtpStats: this.enableXMTP ? this.transport.getStats() : undefined,
+      cronStats: this.enableCron ? this.scheduler.getStats() : undefined,
+      // Row counts are only available from the mock database
+      dbStats: reminders instanceof PostgrestReminderRepository && reminders.client === mockDatabaseService
+        ? mockDatabaseService.getStats()
+        : undefined
     };
   }
 
+  /**
+   * Get the messaging transport reminders are sent through
+   */
+  getTransport(): MessagingTransport {
+    return this.transport;
+  }
+
+  /**
+   * Get the tracker for the conversations reminders are sent in
+   */
+  getConversationTracker(): ConversationTracker {
+    return this.transport.conversations;
+  }
+
   /**
    * Manually trigger reminder processing (for testing)
    */
@@ -253,37 +686,68 @@ export class ReminderService {
     await this.processReminders();
   }
 
+  /**
+   * Current time on the injected clock, or the shared clock if none was given
+   */
+  private now(): Date {
+    return (this.clock ?? getClock()).now();
+  }
+
   /**
    * Set up cron jobs for reminder processing
    */
   private setupCronJobs(): void {
-    // Daily reminder check at 9 AM (in mock mode, this runs immediately)
-    mockCronService.schedule(
+    // Daily reminder check at 9 AM
+    this.scheduler.schedule(
       "daily-reminder-check",
-      "0 9 * * *",
+      DAILY_REMINDER_SCHEDULE,
       async () => {
         console.log("[ReminderService] Running daily reminder check");
         await this.processReminders();
-      }
+      },
+      { timezone: this.runtime.getSetting("REMINDER_TIMEZONE") || "UTC" }
     );
 
-    // Test job that runs immediately (for testing)
-    mockCronService.scheduleImmediate(
-      "test-reminder-check",
+    // Daily expiry sync at 8 AM
+    this.scheduler.schedule(
+      "expiry-sync",
+      EXPIRY_SYNC_SCHEDULE,
       async () => {
-        console.log("[ReminderService] Running test reminder check");
-        await this.processReminders();
-      }
+        console.log("[ReminderService] Running expiry sync");
+        await this.syncRegistrarEvents();
+      },
+      { timezone: this.runtime.getSetting("REMINDER_TIMEZONE") || "UTC" }
+    );
+
+    // Weekly full re-sync at 7 AM on Mondays
+    this.scheduler.schedule(
+      "expiry-resync",
+      EXPIRY_RESYNC_SCHEDULE,
+      async () => {
+        console.log("[ReminderService] Running weekly expiry re-sync");
+        await this.resyncExpiries();
+      },
+      { timezone: this.runtime.getSetting("REMINDER_TIMEZONE") || "UTC" }
     );
   }
 
   /**
-   * Create a reminder message based on days until expiry
+   * Create a reminder message based on the domain's lifecycle state
    */
-  private createReminderMessage(domain: string, daysUntilExpiry: number): string {
-    if (daysUntilExpiry <= 0) {
-      return `🚨 URGENT: Your ENS domain "${domain}" has expired! You may still be able to renew it during the grace period. Act quickly to avoid losing your domain.`;
-    } else if (daysUntilExpiry === 1) {
+  private createReminderMessage(domain: string, lifecycle: DomainLifecycle): string {
+    switch (lifecycle.state) {
+      case 'grace_period':
+        return `🚨 URGENT: Your ENS domain "${domain}" has expired! It is in the grace period until ${lifecycle.gracePeriodEndsAt.toDateString()}. Renew it before then or it will be released for anyone to register.`;
+      case 'premium_auction':
+        return `🔨 Your ENS domain "${domain}" was not renewed and has been released. It is in a temporary premium auction until ${lifecycle.premiumEndsAt.toDateString()}, and anyone can now register it.`;
+      case 'available':
+        return `🆓 Your ENS domain "${domain}" has been released and is available for anyone to register.`;
+      case 'expired':
+        return `⛔ Your ENS subname "${domain}" has expired. Subnames have no grace period, so ask the owner of ${getParentName(domain)} to issue it again.`;
+    }
+
+    const daysUntilExpiry = lifecycle.daysUntilExpiry;
+    if (daysUntilExpiry === 1) {
       return `🚨 FINAL NOTICE: Your ENS domain "${domain}" expires TOMORROW! Please renew it immediately to avoid losing your domain.`;
     } else if (daysUntilExpiry <= 7) {
       return `⚡ URGENT: Your ENS domain "${domain}" expires in ${daysUntilExpiry} days! Please renew it soon to avoid losing your domain.`;
@@ -293,6 +757,88 @@ export class ReminderService {
       return `📅 Reminder: Your ENS domain "${domain}" expires in ${daysUntilExpiry} days. You have plenty of time, but it's good to keep track!`;
     }
   }
+
+  /**
+   * Create the notice for a released domain that was registered again, by the tracker or by someone else
+   */
+  private createReregistrationMessage(
+    reminder: ReminderRecord,
+    expiryDate: Date,
+    registrant: string | null,
+    trackingMode: TrackingMode
+  ): string {
+    const { domain } = reminder;
+    const until = expiryDate.toDateString();
+
+    if (!registrant) {
+      return `🔁 "${domain}" was released and registered again until ${until}. Reminders will start again as the new expiry approaches.`;
+    }
+    if (trackingMode === 'owner') {
+      return `🎉 "${domain}" is registered to your wallet again until ${until}. Your reminders will start again as the new expiry approaches.`;
+    }
+    if (reminder.tracking_mode === 'watch') {
+      return `👀 Watched domain "${domain}" was registered by ${registrant} until ${until}. I'll keep watching it and let you know if it's released again.`;
+    }
+    return `⚠️ "${domain}" was released and re-registered by another account (${registrant}) until ${until}. It's no longer held by your wallet, so I'll watch it instead and let you know if it's released again.`;
+  }
+
+  /**
+   * Create a message about a watched domain, which belongs to someone else
+   */
+  private createWatchMessage(domain: string, lifecycle: DomainLifecycle): string {
+    switch (lifecycle.state) {
+      case 'active':
+        return `👀 Watched domain "${domain}" expires in ${lifecycle.daysUntilExpiry} day${lifecycle.daysUntilExpiry === 1 ? "" : "s"}, unless its owner renews it.`;
+      case 'grace_period':
+        return `👀 Watched domain "${domain}" has expired. Its owner can still renew it until ${lifecycle.gracePeriodEndsAt.toDateString()}, after which it will be released.`;
+      case 'premium_auction':
+        return `🔨 Watched domain "${domain}" has been released! It is in a temporary premium auction until ${lifecycle.premiumEndsAt.toDateString()}, and you can register it now at a decaying premium.`;
+      case 'available':
+        return `🆓 Watched domain "${domain}" is available for anyone to register at the standard price.`;
+      case 'expired':
+        return `⛔ Watched subname "${domain}" has expired. Only the owner of ${getParentName(domain)} can issue it again.`;
+    }
+  }
+}
+
+/**
+ * Check whether a name's grace period is over, after which it can only be registered again rather than renewed
+ */
+function isReleased(lifecycle: DomainLifecycle): boolean {
+  return lifecycle.state === 'premium_auction' || lifecycle.state === 'available';
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Check if we're in mock mode (for testing)
+ */
+function isMockMode(runtime: IAgentRuntime): boolean {
+  return runtime.getSetting("MOCK_MODE") === "true" ||
+    runtime.getSetting("SUPABASE_URL") === "mock://localhost";
+}
+
+/**
+ * Get the scheduler for the current mode: the mock cron service in mock mode, node-cron otherwise
+ */
+export function getScheduler(runtime: IAgentRuntime): Scheduler {
+  return isMockMode(runtime) ? mockCronService : new NodeCronScheduler();
+}
+
+/**
+ * Get the messaging transport for the current mode: the mock XMTP service in mock mode, XMTP otherwise
+ */
+export function getMessagingTransport(runtime: IAgentRuntime): MessagingTransport {
+  if (isMockMode(runtime)) {
+    return mockXMTPService;
+  }
+
+  return new XmtpTransport({
+    privateKey: runtime.getSetting("XMTP_PRIVATE_KEY"),
+    environment: runtime.getSetting("XMTP_ENVIRONMENT")
+  });
 }
 
 // Global service instance
@@ -0,0 +1,329 @@
+/**
+ * Typed repositories for reminders, sent reminders and conversations
+ * Actions and services go through these instead of building queries, so the mock database and Supabase are interchangeable
+ */
+
+import { IAgentRuntime } from "@elizaos/core";
+import { createClient } from "@supabase/supabase-js";
+import { mockDatabaseService, MockDatabaseService } from "./mock-database";
+import { ConversationRecord, ReminderRecord, ReminderType, ScanCursorRecord, SentReminderRecord } from "../schema/records";
+import { getClock } from "./clock";
+import { createSqliteRepositories, openSqliteDatabase, parseSqliteUrl } from "./sqlite-database";
+
+// Fields written when creating or refreshing a reminder; omitted fields keep their stored values
+export type ReminderInput = Pick<ReminderRecord, 'domain' | 'wallet_address' | 'expiry_date'>
+  & Partial<Pick<ReminderRecord, 'reminders_sent' | 'reminder_intervals' | 'tracking_mode' | 'created_at'>>;
+
+// Fields written when creating or refreshing a conversation
+export type ConversationInput = Pick<ConversationRecord, 'wallet_address' | 'peer_address' | 'conversation_id'>
+  & Partial<Pick<ConversationRecord, 'last_message_at' | 'is_active' | 'created_at'>>;
+
+export interface ReminderRepository {
+  /** Create a reminder, or refresh the existing one for the same wallet and domain */
+  upsert(reminder: ReminderInput): Promise<ReminderRecord>;
+  /** A wallet's reminders in the order they were created */
+  findByWallet(walletAddress: string): Promise<ReminderRecord[]>;
+  findByWalletAndDomain(walletAddress: string, domain: string): Promise<ReminderRecord | null>;
+  /** Reminders expiring on or before the cutoff, soonest first */
+  findDue(cutoff: Date): Promise<ReminderRecord[]>;
+  /** Up to `limit` reminders with ids after the cursor, in id order, for walking every reminder in batches */
+  findAfter(afterId: number, limit: number): Promise<ReminderRecord[]>;
+  delete(id: number): Promise<void>;
+}
+
+export interface SentReminderRepository {
+  /** Record a sent reminder, copying the wallet and domain from the reminder */
+  markSent(reminderId: number, reminderType: ReminderType, sentAt?: Date, messageId?: string): Promise<SentReminderRecord>;
+  getSentTypes(reminderId: number): Promise<ReminderType[]>;
+  deleteForReminder(reminderId: number): Promise<void>;
+}
+
+export interface ConversationRepository {
+  /** Create a conversation, or update the existing one between the same bot and peer */
+  upsert(conversation: ConversationInput): Promise<ConversationRecord>;
+  findByPeer(walletAddress: string, peerAddress: string): Promise<ConversationRecord | null>;
+}
+
+export interface ScanCursorRepository {
+  /** The last block a scanner processed, or null if it has never run */
+  getBlock(name: string): Promise<number | null>;
+  setBlock(name: string, blockNumber: number): Promise<void>;
+}
+
+export interface Repositories {
+  reminders: ReminderRepository;
+  sentReminders: SentReminderRepository;
+  conversations: ConversationRepository;
+  scanCursors: ScanCursorRepository;
+}
+
+/**
+ * Thrown when the underlying database rejects a query
+ */
+export class RepositoryError extends Error {
+  constructor(public readonly operation: string, error: unknown) {
+    super(`Database error during ${operation}: ${describeError(error)}`);
+    this.name = "RepositoryError";
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+}
+
+/**
+ * A query result as Supabase and the mock database return it
+ */
+interface QueryResult {
+  data: unknown;
+  error: unknown;
+}
+
+/**
+ * Unwrap a `{ data, error }` query result, throwing a RepositoryError on failure
+ */
+function unwrap<T>(operation: string, result: QueryResult): T {
+  if (result.error) {
+    throw new RepositoryError(operation, result.error);
+  }
+  return result.data as T;
+}
+
+type ReminderOwner = Pick<ReminderRecord, 'wallet_address' | 'domain'>;
+
+/**
+ * Unwrap the wallet and domain of the reminder a sent reminder belongs to, which must exist
+ */
+function unwrapReminderOwner(reminderId: number, result: QueryResult): ReminderOwner {
+  const owner = unwrap<ReminderOwner | null>('sent reminder insert', result);
+  if (!owner) {
+    throw new RepositoryError('sent reminder insert', `reminder ${reminderId} does not exist`);
+  }
+  return owner;
+}
+
+/**
+ * The ordering, paging and single-row transforms the repositories use, awaited for their result
+ */
+interface TransformQuery extends PromiseLike<QueryResult> {
+  select(columns?: string): TransformQuery;
+  order(column: string, options?: { ascending?: boolean }): TransformQuery;
+  limit(count: number): TransformQuery;
+  single(): PromiseLike<QueryResult>;
+  maybeSingle(): PromiseLike<QueryResult>;
+}
+
+/**
+ * The filters the repositories use, which come before any ordering or paging
+ */
+interface FilterQuery extends TransformQuery {
+  eq(column: string, value: unknown): FilterQuery;
+  gt(column: string, value: unknown): FilterQuery;
+  lte(column: string, value: unknown): FilterQuery;
+}
+
+/**
+ * The PostgREST query builder surface the repositories use, shared by the Supabase client and the mock database
+ */
+export interface PostgrestQueryClient {
+  from(table: string): {
+    select(columns?: string): FilterQuery;
+    insert(values: object): FilterQuery;
+    upsert(values: object, options?: { onConflict?: string }): FilterQuery;
+    delete(): FilterQuery;
+  };
+}
+
+// PostgREST implementations, over Supabase or the mock database
+
+
+export class PostgrestReminderRepository implements ReminderRepository {
+  constructor(readonly client: PostgrestQueryClient) {}
+
+  async upsert(reminder: ReminderInput): Promise<ReminderRecord> {
+    const result = await this.client
+      .from('reminders')
+      .upsert(reminder, { onConflict: 'wallet_address,domain' })
+      .select()
+      .single();
+    return unwrap('reminder upsert', result);
+  }
+
+  async findByWallet(walletAddress: string): Promise<ReminderRecord[]> {
+    const result = await this.client
+      .from('reminders')
+      .select('*')
+      .eq('wallet_address', walletAddress)
+      .order('id', { ascending: true });
+    return unwrap('reminder lookup', result);
+  }
+
+  async findByWalletAndDomain(walletAddress: string, domain: string): Promise<ReminderRecord | null> {
+    const result = await this.client
+      .from('reminders')
+      .select('*')
+      .eq('wallet_address', walletAddress)
+      .eq('domain', domain)
+      .maybeSingle();
+    return unwrap('reminder lookup', result);
+  }
+
+  async findDue(cutoff: Date): Promise<ReminderRecord[]> {
+    const result = await this.client
+      .from('reminders')
+      .select('*')
+      .lte('expiry_date', cutoff.toISOString())
+      .order('expiry_date', { ascending: true });
+    return unwrap('due reminder lookup', result);
+  }
+
+  async findAfter(afterId: number, limit: number): Promise<ReminderRecord[]> {
+    const result = await this.client
+      .from('reminders')
+      .select('*')
+      .gt('id', afterId)
+      .order('id', { ascending: true })
+      .limit(limit);
+    return unwrap('reminder lookup', result);
+  }
+
+  async delete(id: number): Promise<void> {
+    unwrap('reminder delete', await this.client.from('reminders').delete().eq('id', id));
+  }
+}
+
+export class PostgrestSentReminderRepository implements SentReminderRepository {
+  constructor(readonly client: PostgrestQueryClient) {}
+
+  async markSent(
+    reminderId: number,
+    reminderType: ReminderType,
+    sentAt: Date = getClock().now(),
+    messageId?: string
+  ): Promise<SentReminderRecord> {
+    const owner = unwrapReminderOwner(reminderId, await this.client
+      .from('reminders')
+      .select('wallet_address, domain')
+      .eq('id', reminderId)
+      .maybeSingle());
+
+    const result = await this.client
+      .from('sent_reminders')
+      .insert({
+        reminder_id: reminderId,
+        wallet_address: owner.wallet_address,
+        domain: owner.domain,
+        sent_at: sentAt.toISOString(),
+        reminder_type: reminderType,
+        message_id: messageId
+      })
+      .select()
+      .single();
+    return unwrap('sent reminder insert', result);
+  }
+
+  async getSentTypes(reminderId: number): Promise<ReminderType[]> {
+    const result = await this.client
+      .from('sent_reminders')
+      .select('reminder_type')
+      .eq('reminder_id', reminderId);
+    return unwrap<Pick<SentReminderRecord, 'reminder_type'>[]>('sent reminder lookup', result)
+      .map(record => record.reminder_type);
+  }
+
+  async deleteForReminder(reminderId: number): Promise<void> {
+    unwrap('sent reminder delete', await this.client.from('sent_reminders').delete().eq('reminder_id', reminderId));
+  }
+}
+
+export class PostgrestConversationRepository implements ConversationRepository {
+  constructor(readonly client: PostgrestQueryClient) {}
+
+  async upsert(conversation: ConversationInput): Promise<ConversationRecord> {
+    const result = await this.client
+      .from('conversations')
+      .upsert(conversation, { onConflict: 'wallet_address,peer_address' })
+      .select()
+      .single();
+    return unwrap('conversation upsert', result);
+  }
+
+  async findByPeer(walletAddress: string, peerAddress: string): Promise<ConversationRecord | null> {
+    const result = await this.client
+      .from('conversations')
+      .select('*')
+      .eq('wallet_address', walletAddress)
+      .eq('peer_address', peerAddress)
+      .maybeSingle();
+    return unwrap('conversation lookup', result);
+  }
+}
+
+export class PostgrestScanCursorRepository implements ScanCursorRepository {
+  constructor(readonly client: PostgrestQueryClient) {}
+
+  async getBlock(name: string): Promise<number | null> {
+    const result = await this.client
+      .from('scan_cursors')
+      .select('block_number')
+      .eq('name', name)
+      .maybeSingle();
+    return unwrap<Pick<ScanCursorRecord, 'block_number'> | null>('scan cursor lookup', result)?.block_number ?? null;
+  }
+
+  async setBlock(name: string, blockNumber: number): Promise<void> {
+    const result = await this.client
+      .from('scan_cursors')
+      .upsert({ name, block_number: blockNumber, updated_at: getClock().now().toISOString() }, { onConflict: 'name' });
+    unwrap('scan cursor update', result);
+  }
+}
+
+/**
+ * Create repositories over a PostgREST client
+ */
+export function createPostgrestRepositories(client: PostgrestQueryClient): Repositories {
+  return {
+    reminders: new PostgrestReminderRepository(client),
+    sentReminders: new PostgrestSentReminderRepository(client),
+    conversations: new PostgrestConversationRepository(client),
+    scanCursors: new PostgrestScanCursorRepository(client)
+  };
+}
+
+/**
+ * Create in-memory repositories over a mock database
+ */
+export function createInMemoryRepositories(database: MockDatabaseService = mockDatabaseService): Repositories {
+  return createPostgrestRepositories(database);
+}
+
+/**
+ * Get the repositories for the current configuration: SQLite when DATABASE_URL is a sqlite:// URL,
+ * otherwise Supabase when its credentials are set, falling back to the mock database
+ */
+export function getRepositories(runtime: IAgentRuntime): Repositories {
+  const databaseUrl = runtime.getSetting("DATABASE_URL");
+  if (databaseUrl) {
+    if (!databaseUrl.startsWith("sqlite://")) {
+      throw new Error(`Unsupported DATABASE_URL '${databaseUrl}': only sqlite:// URLs are supported`);
+    }
+    return createSqliteRepositories(openSqliteDatabase(parseSqliteUrl(databaseUrl)));
+  }
+
+  const supabaseUrl = runtime.getSetting("SUPABASE_URL");
+  const supabaseKey = runtime.getSetting("SUPABASE_ANON_KEY");
+
+  // Use mock database in test mode or when configured
+  if (!supabaseUrl || !supabaseKey || supabaseUrl === "mock://localhost") {
+    console.log("[Repositories] Using mock database");
+    return createInMemoryRepositories();
+  }
+
+  console.log("[Repositories] Using Supabase database");
+  // Comparing Supabase's column-typed filters with the shared surface is too deep for TypeScript, so it's asserted
+  return createPostgrestRepositories(createClient(supabaseUrl, supabaseKey) as unknown as PostgrestQueryClient);
+}
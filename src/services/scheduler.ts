@@ -0,0 +1,54 @@
+/**
+ * Scheduler contract shared by the node-cron scheduler and the mock cron service
+ * The reminder service only talks to this interface, so production and tests swap implementations
+ */
+
+export interface CronJob {
+  id: string;
+  schedule: string;
+  timezone?: string; // IANA timezone the expression is evaluated in, defaults to the host timezone
+  callback: () => Promise<void> | void;
+  lastRun?: Date;
+  nextRun?: Date;
+  isRunning: boolean;
+  runCount: number;
+}
+
+export interface ScheduleOptions {
+  timezone?: string;
+}
+
+export interface SchedulerStats {
+  totalJobs: number;
+  runningJobs: number;
+  totalRuns: number;
+  isActive: boolean;
+}
+
+export interface Scheduler {
+  schedule(id: string, cronExpression: string, callback: () => Promise<void> | void, options?: ScheduleOptions): CronJob;
+  start(): void;
+  stop(): void;
+  triggerJob(jobId: string): Promise<void>;
+  getJobs(): CronJob[];
+  getStats(): SchedulerStats;
+}
+
+export class InvalidScheduleError extends Error {
+  constructor(public readonly expression: string, reason: string) {
+    super(`Invalid cron expression '${expression}': ${reason}`);
+    this.name = "InvalidScheduleError";
+  }
+}
+
+/**
+ * Check that a timezone is a valid IANA timezone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * SQLite storage backend for self-hosting without Supabase
+ * Tables are created and upgraded by the schema migrations when the database is opened
+ */
+
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import Database from "better-sqlite3";
+import { ConversationRecord, ReminderRecord, ReminderType, ScanCursorRecord, SentReminderRecord } from "../schema/records";
+import { getClock } from "./clock";
+import {
+  AppliedMigration,
+  getPendingMigrations,
+  MigrationDirection,
+  MigrationError,
+  MigrationStore,
+  renderMigration,
+  renderSchemaMigrationsTable,
+  SCHEMA_MIGRATIONS_TABLE
+} from "./migration-runner";
+import { MIGRATIONS } from "../migrations";
+import { Migration } from "../migrations/types";
+import { validateRecord } from "../schema/validation";
+import {
+  ConversationInput,
+  ConversationRepository,
+  ReminderInput,
+  ReminderRepository,
+  Repositories,
+  RepositoryError,
+  ScanCursorRepository,
+  SentReminderRepository
+} from "./repositories";
+
+export type SqliteDatabase = Database.Database;
+
+// Open databases, shared by every repository that uses the same file
+const openDatabases: Map<string, SqliteDatabase> = new Map();
+
+/**
+ * Get the file path from a sqlite:// URL, e.g. sqlite://./data/reminders.db, sqlite:///var/lib/bot.db or sqlite://:memory:
+ */
+export function parseSqliteUrl(url: string): string {
+  const match = url.match(/^sqlite:\/\/(.+)$/);
+  if (!match) {
+    throw new Error(`Invalid SQLite URL '${url}': expected sqlite://<path>`);
+  }
+  return match[1];
+}
+
+/**
+ * Open a SQLite database, creating the file if it doesn't exist yet.
+ * Pending migrations are applied unless `migrate` is false, as when the migrate CLI manages them.
+ */
+export function openSqliteDatabase(filename: string, { migrate = true }: { migrate?: boolean } = {}): SqliteDatabase {
+  const existing = openDatabases.get(filename);
+  if (existing) {
+    return existing;
+  }
+
+  if (filename !== ":memory:") {
+    mkdirSync(dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  if (migrate) {
+    migrateSqliteDatabase(db);
+  }
+
+  openDatabases.set(filename, db);
+  console.log(`[SQLite] Opened database ${filename}`);
+  return db;
+}
+
+/**
+ * Close every open SQLite database
+ */
+export function closeSqliteDatabases(): void {
+  for (const [filename, db] of openDatabases) {
+    db.close();
+    console.log(`[SQLite] Closed database ${filename}`);
+  }
+  openDatabases.clear();
+}
+
+/**
+ * Migrations on SQLite. Each migration runs in a transaction with its schema_migrations bookkeeping.
+ * The work is synchronous, so databases can be migrated as they are opened.
+ */
+export class SqliteMigrationStore implements MigrationStore {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  async getApplied(): Promise<AppliedMigration[]> {
+    return this.getAppliedSync();
+  }
+
+  async apply(migration: Migration, direction: MigrationDirection): Promise<void> {
+    this.applySync(migration, direction);
+  }
+
+  getAppliedSync(): AppliedMigration[] {
+    this.db.exec(renderSchemaMigrationsTable('sqlite'));
+    return this.db.prepare(`SELECT version, name, applied_at FROM ${SCHEMA_MIGRATIONS_TABLE} ORDER BY version`).all() as AppliedMigration[];
+  }
+
+  applySync(migration: Migration, direction: MigrationDirection): void {
+    this.db.transaction(() => {
+      for (const statement of renderMigration(migration, direction, 'sqlite')) {
+        this.db.exec(statement);
+      }
+      if (direction === 'up') {
+        this.db.prepare(`INSERT INTO ${SCHEMA_MIGRATIONS_TABLE} (version, name) VALUES (?, ?)`).run(migration.version, migration.name);
+      } else {
+        this.db.prepare(`DELETE FROM ${SCHEMA_MIGRATIONS_TABLE} WHERE version = ?`).run(migration.version);
+      }
+    })();
+  }
+}
+
+/**
+ * Apply every pending migration to a SQLite database, returning the ones applied
+ */
+export function migrateSqliteDatabase(db: SqliteDatabase, migrations: Migration[] = MIGRATIONS): Migration[] {
+  const store = new SqliteMigrationStore(db);
+  const applied = store.getAppliedSync().map(migration => migration.version);
+  const pending = getPendingMigrations(migrations, applied);
+
+  for (const migration of pending) {
+    try {
+      store.applySync(migration, 'up');
+    } catch (error) {
+      throw new MigrationError(migration.version, error);
+    }
+  }
+  if (pending.length > 0) {
+    console.log(`[SQLite] Applied ${pending.length} migration(s)`);
+  }
+  return pending;
+}
+
+/**
+ * Run a statement, wrapping SQLite errors in a RepositoryError
+ */
+function query<T>(operation: string, fn: () => T): T {
+  try {
+    return fn();
+  } catch (error) {
+    throw new RepositoryError(operation, error);
+  }
+}
+
+/**
+ * Insert a row, or update the row with the same conflict columns.
+ * Only the columns being written are overwritten, so omitted columns keep their stored values.
+ */
+function upsertRow(db: SqliteDatabase, table: string, record: Record<string, unknown>, conflictColumns: string[]): any {
+  const values = Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined));
+  const columns = Object.keys(values);
+  const updates = columns
+    .filter(column => !conflictColumns.includes(column) && column !== 'created_at')
+    .map(column => `${column} = excluded.${column}`);
+
+  return db.prepare(`INSERT INTO ${table} (${columns.join(", ")})
+    VALUES (${columns.map(column => `@${column}`).join(", ")})
+    ON CONFLICT (${conflictColumns.join(", ")}) DO UPDATE SET ${updates.join(", ")}
+    RETURNING *`).get(values);
+}
+
+function toConversation(row: any): ConversationRecord | null {
+  return row ? { ...row, is_active: row.is_active === null ? undefined : row.is_active === 1 } : null;
+}
+
+export class SqliteReminderRepository implements ReminderRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  async upsert(reminder: ReminderInput): Promise<ReminderRecord> {
+    // SQLite can't check the tracking mode pattern itself
+    const [issue] = validateRecord('reminders', reminder, { partial: true });
+    if (issue) {
+      throw new RepositoryError('reminder upsert', issue.message);
+    }
+
+    const record = { ...reminder, updated_at: getClock().now().toISOString() };
+    return query('reminder upsert', () => upsertRow(this.db, 'reminders', record, ['wallet_address', 'domain']));
+  }
+
+  async findByWallet(walletAddress: string): Promise<ReminderRecord[]> {
+    return query('reminder lookup', () =>
+      this.db.prepare(`SELECT * FROM reminders WHERE wallet_address = ? ORDER BY id`).all(walletAddress) as ReminderRecord[]
+    );
+  }
+
+  async findByWalletAndDomain(walletAddress: string, domain: string): Promise<ReminderRecord | null> {
+    return query('reminder lookup', () =>
+      (this.db.prepare(`SELECT * FROM reminders WHERE wallet_address = ? AND domain = ?`).get(walletAddress, domain) as ReminderRecord) || null
+    );
+  }
+
+  async findDue(cutoff: Date): Promise<ReminderRecord[]> {
+    return query('due reminder lookup', () =>
+      this.db.prepare(`SELECT * FROM reminders WHERE expiry_date <= ? ORDER BY expiry_date`).all(cutoff.toISOString()) as ReminderRecord[]
+    );
+  }
+
+  async findAfter(afterId: number, limit: number): Promise<ReminderRecord[]> {
+    return query('reminder lookup', () =>
+      this.db.prepare(`SELECT * FROM reminders WHERE id > ? ORDER BY id LIMIT ?`).all(afterId, limit) as ReminderRecord[]
+    );
+  }
+
+  async delete(id: number): Promise<void> {
+    query('reminder delete', () => this.db.prepare(`DELETE FROM reminders WHERE id = ?`).run(id));
+  }
+}
+
+export class SqliteSentReminderRepository implements SentReminderRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  async markSent(
+    reminderId: number,
+    reminderType: ReminderType,
+    sentAt: Date = getClock().now(),
+    messageId?: string
+  ): Promise<SentReminderRecord> {
+    // SQLite can't check the reminder type pattern itself
+    const [issue] = validateRecord('sent_reminders', { reminder_type: reminderType }, { partial: true });
+    if (issue) {
+      throw new RepositoryError('sent reminder insert', issue.message);
+    }
+
+    // The wallet and domain columns are copied from the reminder, as the table requires them
+    const record = query('sent reminder insert', () => this.db.prepare(`
+      INSERT INTO sent_reminders (reminder_id, wallet_address, domain, reminder_type, sent_at, message_id)
+      SELECT id, wallet_address, domain, @reminderType, @sentAt, @messageId FROM reminders WHERE id = @reminderId
+      RETURNING *
+    `).get({ reminderId, reminderType, sentAt: sentAt.toISOString(), messageId: messageId ?? null }) as SentReminderRecord | undefined);
+
+    if (!record) {
+      throw new RepositoryError('sent reminder insert', `reminder ${reminderId} does not exist`);
+    }
+    return record;
+  }
+
+  async getSentTypes(reminderId: number): Promise<ReminderType[]> {
+    const rows = query('sent reminder lookup', () =>
+      this.db.prepare(`SELECT reminder_type FROM sent_reminders WHERE reminder_id = ? ORDER BY id`).all(reminderId) as Pick<SentReminderRecord, 'reminder_type'>[]
+    );
+    return rows.map(row => row.reminder_type);
+  }
+
+  async deleteForReminder(reminderId: number): Promise<void> {
+    query('sent reminder delete', () => this.db.prepare(`DELETE FROM sent_reminders WHERE reminder_id = ?`).run(reminderId));
+  }
+}
+
+export class SqliteConversationRepository implements ConversationRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  async upsert(conversation: ConversationInput): Promise<ConversationRecord> {
+    const record: Record<string, unknown> = { ...conversation };
+    if (conversation.is_active !== undefined) {
+      record.is_active = conversation.is_active ? 1 : 0;
+    }
+
+    const row = query('conversation upsert', () => upsertRow(this.db, 'conversations', record, ['wallet_address', 'peer_address']));
+    return toConversation(row)!;
+  }
+
+  async findByPeer(walletAddress: string, peerAddress: string): Promise<ConversationRecord | null> {
+    const row = query('conversation lookup', () =>
+      this.db.prepare(`SELECT * FROM conversations WHERE wallet_address = ? AND peer_address = ?`).get(walletAddress, peerAddress)
+    );
+    return toConversation(row);
+  }
+}
+
+export class SqliteScanCursorRepository implements ScanCursorRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  async getBlock(name: string): Promise<number | null> {
+    const row = query('scan cursor lookup', () =>
+      this.db.prepare(`SELECT block_number FROM scan_cursors WHERE name = ?`).get(name) as Pick<ScanCursorRecord, 'block_number'> | undefined
+    );
+    return row?.block_number ?? null;
+  }
+
+  async setBlock(name: string, blockNumber: number): Promise<void> {
+    query('scan cursor update', () =>
+      upsertRow(this.db, 'scan_cursors', { name, block_number: blockNumber, updated_at: getClock().now().toISOString() }, ['name'])
+    );
+  }
+}
+
+/**
+ * Create repositories over a SQLite database
+ */
+export function createSqliteRepositories(db: SqliteDatabase): Repositories {
+  return {
+    reminders: new SqliteReminderRepository(db),
+    sentReminders: new SqliteSentReminderRepository(db),
+    conversations: new SqliteConversationRepository(db),
+    scanCursors: new SqliteScanCursorRepository(db)
+  };
+}
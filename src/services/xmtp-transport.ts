@@ -0,0 +1,206 @@
+/**
+ * Production messaging transport backed by the XMTP network
+ * Signs in with the bot wallet from XMTP_PRIVATE_KEY on the XMTP_ENVIRONMENT network
+ */
+
+import { Wallet } from "ethers";
+import type { Client, ClientOptions, Conversation, Message } from "@xmtp/xmtp-js";
+import { getClock } from "./clock";
+import {
+  MessageQueue,
+  MessagingStats,
+  MessagingTransport,
+  PeerUnavailableError,
+  TransportConversation,
+  TransportMessage
+} from "./messaging-transport";
+
+// xmtp-js is typed against ethers v5, but only calls getAddress() and signMessage(), which the v6 Wallet provides
+type XmtpSigner = Parameters<typeof Client.create>[0];
+
+export interface XmtpTransportConfig {
+  privateKey?: string;
+  environment?: string;
+}
+
+export class XmtpTransport implements MessagingTransport {
+  readonly kind = "xmtp";
+  private client?: Client;
+  private conversations: Map<string, Conversation> = new Map();
+  private incomingStreams: Set<MessageQueue<TransportMessage>> = new Set();
+  private totalMessages: number = 0;
+  private totalSentMessages: number = 0;
+
+  constructor(private readonly config: XmtpTransportConfig) {}
+
+  /**
+   * Connect to the XMTP network with the bot wallet
+   */
+  async connect(): Promise<void> {
+    if (this.client) {
+      return;
+    }
+    if (!this.config.privateKey) {
+      throw new Error("XMTP_PRIVATE_KEY is required to connect to XMTP");
+    }
+
+    const environment = this.config.environment || "production";
+
+    // Loaded on demand so mock mode never pulls in the XMTP network stack
+    const { Client } = await import("@xmtp/xmtp-js");
+    const wallet = new Wallet(this.config.privateKey);
+    this.client = await Client.create(wallet as unknown as XmtpSigner, { env: environment as ClientOptions["env"] });
+
+    for (const conversation of await this.client.conversations.list()) {
+      this.conversations.set(conversation.peerAddress.toLowerCase(), conversation);
+    }
+
+    console.log(`[XMTP] Connected to ${environment} as ${this.client.address}`);
+  }
+
+  /**
+   * Disconnect from the XMTP network and end any incoming message streams
+   */
+  async disconnect(): Promise<void> {
+    for (const stream of Array.from(this.incomingStreams)) {
+      stream.close();
+    }
+
+    if (this.client) {
+      await this.client.close();
+      this.client = undefined;
+      this.conversations.clear();
+      console.log("[XMTP] Disconnected");
+    }
+  }
+
+  isReady(): boolean {
+    return this.client !== undefined;
+  }
+
+  getAddress(): string {
+    return this.requireClient().address;
+  }
+
+  /**
+   * Send a text message, opening a conversation with the recipient if needed
+   */
+  async sendMessage(recipientAddress: string, content: string): Promise<TransportMessage> {
+    const client = this.requireClient();
+
+    if (!this.conversations.has(recipientAddress.toLowerCase()) && !(await client.canMessage(recipientAddress))) {
+      throw new PeerUnavailableError(recipientAddress, "not on the XMTP network");
+    }
+
+    const conversation = await this.getConversation(client, recipientAddress);
+    await conversation.send(content);
+    this.totalMessages++;
+    this.totalSentMessages++;
+
+    return {
+      id: `${conversation.peerAddress}:${getClock().now().getTime()}`,
+      sender: client.address,
+      recipient: recipientAddress,
+      content,
+      timestamp: getClock().now(),
+      conversation: conversation.peerAddress
+    };
+  }
+
+  /**
+   * Stream messages sent to the bot, across existing and newly started conversations
+   */
+  streamIncoming(): AsyncIterableIterator<TransportMessage> {
+    const client = this.requireClient();
+    const queue: MessageQueue<TransportMessage> = new MessageQueue(() => this.incomingStreams.delete(queue));
+    this.incomingStreams.add(queue);
+
+    for (const conversation of this.conversations.values()) {
+      this.pipeConversation(client, conversation, queue);
+    }
+
+    // Pick up conversations other wallets open with the bot
+    (async () => {
+      for await (const conversation of client.conversations.stream()) {
+        if (!this.incomingStreams.has(queue)) {
+          break;
+        }
+        this.conversations.set(conversation.peerAddress.toLowerCase(), conversation);
+        this.pipeConversation(client, conversation, queue);
+      }
+    })().catch(error => console.error("[XMTP] Conversation stream failed:", error));
+
+    return queue;
+  }
+
+  /**
+   * Get the conversations the bot is part of
+   */
+  async getConversations(): Promise<TransportConversation[]> {
+    const client = this.requireClient();
+    const conversations = await client.conversations.list();
+
+    return Promise.all(conversations.map(async conversation => {
+      const [firstMessage] = await conversation.messages({ pageSize: 1 });
+      return {
+        peerAddress: conversation.peerAddress,
+        createdAt: firstMessage?.sent ?? getClock().now()
+      };
+    }));
+  }
+
+  getStats(): MessagingStats {
+    return {
+      totalConversations: this.conversations.size,
+      totalMessages: this.totalMessages,
+      totalSentMessages: this.totalSentMessages
+    };
+  }
+
+  private requireClient(): Client {
+    if (!this.client) {
+      throw new Error("XMTP service not connected");
+    }
+    return this.client;
+  }
+
+  private async getConversation(client: Client, peerAddress: string): Promise<Conversation> {
+    const key = peerAddress.toLowerCase();
+    let conversation = this.conversations.get(key);
+    if (!conversation) {
+      conversation = await client.conversations.newConversation(peerAddress);
+      this.conversations.set(key, conversation);
+    }
+    return conversation;
+  }
+
+  /**
+   * Forward a conversation's new messages from the peer into an incoming stream
+   */
+  private pipeConversation(client: Client, conversation: Conversation, queue: MessageQueue<TransportMessage>): void {
+    (async () => {
+      for await (const message of conversation.streamMessages()) {
+        if (!this.incomingStreams.has(queue)) {
+          break;
+        }
+        if (message.senderAddress?.toLowerCase() === client.address.toLowerCase()) {
+          continue;
+        }
+
+        this.totalMessages++;
+        queue.push(this.toTransportMessage(client, conversation, message));
+      }
+    })().catch(error => console.error(`[XMTP] Message stream for ${conversation.peerAddress} failed:`, error));
+  }
+
+  private toTransportMessage(client: Client, conversation: Conversation, message: Message): TransportMessage {
+    return {
+      id: message.id,
+      sender: message.senderAddress ?? conversation.peerAddress,
+      recipient: client.address,
+      content: typeof message.content === "string" ? message.content : String(message.content ?? ""),
+      timestamp: message.sent ?? getClock().now(),
+      conversation: conversation.peerAddress
+    };
+  }
+}
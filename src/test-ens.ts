@@ -1,4 +1,5 @@
 import { ethers } from "ethers";
+import { parseEnsName } from "./services/ens-name";
 
 // ENS Registrar ABI (for expiry dates)
 const ENS_REGISTRAR_ABI = [
@@ -17,10 +18,9 @@ async function testENSLookup() {
     
     // Test domain
     const domain = "vitalik.eth";
-    const name = domain.replace('.eth', '');
     
-    // Calculate token ID (keccak256 hash of the name)
-    const tokenId = ethers.keccak256(ethers.toUtf8Bytes(name));
+    // Calculate token ID (keccak256 hash of the second-level label)
+    const tokenId = parseEnsName(domain).secondLevelLabelhash;
     console.log(`Token ID for ${domain}: ${tokenId}`);
     
     // Get registrar contract
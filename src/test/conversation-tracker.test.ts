@@ -0,0 +1,145 @@
+/**
+ * Test suite for conversation tracking
+ */
+
+import { getConsentCommand, TrackedTransport } from "../services/conversation-tracker";
+import { InboundMessageRouter, OPT_IN_TEXT, OPT_OUT_TEXT } from "../services/inbound-router";
+import { ReminderService } from "../services/reminder-service";
+import { mockXMTPService } from "../services/mock-xmtp";
+import { mockDatabaseService } from "../services/mock-database";
+import { inboundActions } from "../plugins/ens-reminder-plugin";
+import { createTestRuntime, resetAllServices, TEST_WALLETS } from "./test-utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function getConversations(): Promise<any[]> {
+  const result: any = await mockDatabaseService.from('conversations').select();
+  return result.data;
+}
+
+describe("Conversation Tracking", () => {
+  let transport: TrackedTransport;
+
+  beforeEach(async () => {
+    resetAllServices();
+    await mockXMTPService.connect();
+    transport = new TrackedTransport(mockXMTPService);
+  });
+
+  afterEach(async () => {
+    await mockXMTPService.disconnect();
+  });
+
+  test.each([
+    ["STOP", "opt_out"],
+    ["unsubscribe", "opt_out"],
+    ["Opt out.", "opt_out"],
+    ["block!", "opt_out"],
+    ["start", "opt_in"],
+    ["Resubscribe", "opt_in"],
+    ["stop tracking vitalik.eth", null],
+    ["please stop", null],
+    ["list my reminders", null]
+  ])("should classify %p as %p", (text, expected) => {
+    expect(getConsentCommand(text)).toBe(expected);
+  });
+
+  test("should create a conversation on the first outbound message", async () => {
+    const message = await transport.sendMessage(TEST_WALLETS.USER1, "Your domain expires soon");
+
+    const conversations = await getConversations();
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0]).toMatchObject({
+      wallet_address: mockXMTPService.getAddress(),
+      peer_address: TEST_WALLETS.USER1.toLowerCase(),
+      conversation_id: message.conversation,
+      last_message_at: message.timestamp.toISOString()
+    });
+    expect(await transport.conversations.isActive(TEST_WALLETS.USER1)).toBe(true);
+  });
+
+  test("should update the same conversation for inbound and outbound messages", async () => {
+    const stream = transport.streamIncoming();
+
+    await transport.sendMessage(TEST_WALLETS.USER1, "first");
+    await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "reply");
+    const incoming = await stream.next();
+
+    const conversations = await getConversations();
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0].last_message_at).toBe(incoming.value.timestamp.toISOString());
+
+    await stream.return!();
+  });
+
+  test("should mark a conversation inactive when the peer blocks the bot", async () => {
+    await transport.sendMessage(TEST_WALLETS.USER1, "first");
+    mockXMTPService.simulateBlock(TEST_WALLETS.USER1);
+
+    await expect(transport.sendMessage(TEST_WALLETS.USER1, "second")).rejects.toThrow("peer has blocked the bot");
+
+    expect(await transport.conversations.isActive(TEST_WALLETS.USER1)).toBe(false);
+  });
+
+  test("should handle opt-out and opt-in commands", async () => {
+    const router = new InboundMessageRouter({
+      runtime: createTestRuntime(),
+      transport,
+      actions: inboundActions,
+      conversations: transport.conversations
+    });
+
+    const optOut = await router.handleMessage(await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "STOP"));
+    expect(optOut).toEqual([OPT_OUT_TEXT]);
+    expect(await transport.conversations.isActive(TEST_WALLETS.USER1)).toBe(false);
+
+    const optIn = await router.handleMessage(await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "start"));
+    expect(optIn).toEqual([OPT_IN_TEXT]);
+    expect(await transport.conversations.isActive(TEST_WALLETS.USER1)).toBe(true);
+  });
+
+  describe("Reminder delivery", () => {
+    let service: ReminderService;
+
+    beforeEach(async () => {
+      service = new ReminderService({ runtime: createTestRuntime(), enableCron: false });
+      await mockDatabaseService.from('reminders').insert({
+        domain: "soon.eth",
+        wallet_address: TEST_WALLETS.USER1,
+        expiry_date: new Date(Date.now() + 6.5 * DAY_MS).toISOString(),
+        reminders_sent: JSON.stringify([]),
+        created_at: new Date().toISOString()
+      });
+    });
+
+    test("should skip peers who opted out", async () => {
+      await service.getConversationTracker().setActive(TEST_WALLETS.USER1, false);
+
+      await service.processReminders();
+
+      expect(mockXMTPService.wasMessageSentTo(TEST_WALLETS.USER1)).toBe(false);
+      const sent: any = await mockDatabaseService.from('sent_reminders').select();
+      expect(sent.data).toHaveLength(0);
+    });
+
+    test("should resume once the peer opts back in", async () => {
+      await service.getConversationTracker().setActive(TEST_WALLETS.USER1, false);
+      await service.processReminders();
+
+      await service.getConversationTracker().setActive(TEST_WALLETS.USER1, true);
+      await service.processReminders();
+
+      expect(mockXMTPService.wasMessageSentTo(TEST_WALLETS.USER1, "soon.eth")).toBe(true);
+    });
+
+    test("should stop sending after a peer blocks the bot", async () => {
+      mockXMTPService.simulateBlock(TEST_WALLETS.USER1);
+
+      await service.processReminders();
+
+      expect(await service.getConversationTracker().isActive(TEST_WALLETS.USER1)).toBe(false);
+      const sent: any = await mockDatabaseService.from('sent_reminders').select();
+      expect(sent.data).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Test suite for the cron expression parser
+ */
+
+import { CronExpression } from "../services/cron-expression";
+import { MockCronService } from "../services/mock-cron";
+import { FakeClock } from "../services/clock";
+import { InvalidScheduleError } from "../services/scheduler";
+
+// Wednesday
+const NOW = new Date("2030-01-02T10:17:30.000Z");
+
+describe("Cron Expression", () => {
+  test.each([
+    ["0 9 * * *", "2030-01-03T09:00:00.000Z"],
+    ["* * * * *", "2030-01-02T10:18:00.000Z"],
+    ["*/15 * * * *", "2030-01-02T10:30:00.000Z"],
+    ["5/20 * * * *", "2030-01-02T10:25:00.000Z"],
+    ["0 8-17/3 * * *", "2030-01-02T11:00:00.000Z"],
+    ["0,45 10 * * *", "2030-01-02T10:45:00.000Z"],
+    ["0 9 * * mon-fri", "2030-01-03T09:00:00.000Z"],
+    ["0 9 * * sat,sun", "2030-01-05T09:00:00.000Z"],
+    ["0 9 * * 7", "2030-01-06T09:00:00.000Z"],
+    ["0 0 1 jul *", "2030-07-01T00:00:00.000Z"],
+    ["0 0 29 2 *", "2032-02-29T00:00:00.000Z"],
+    ["0 0 15 * fri", "2030-01-04T00:00:00.000Z"],
+    ["0 0 */2 * fri", "2030-01-11T00:00:00.000Z"],
+    ["0 0 13 * */2", "2030-01-13T00:00:00.000Z"],
+    ["@hourly", "2030-01-02T11:00:00.000Z"],
+    ["@daily", "2030-01-03T00:00:00.000Z"],
+    ["@weekly", "2030-01-06T00:00:00.000Z"],
+    ["@monthly", "2030-02-01T00:00:00.000Z"],
+    ["@yearly", "2031-01-01T00:00:00.000Z"]
+  ])("should compute the next run of %s", (expression, expected) => {
+    expect(CronExpression.parse(expression).next(NOW, "UTC").toISOString()).toBe(expected);
+  });
+
+  test("should fire strictly after the given time", () => {
+    const expression = CronExpression.parse("0 9 * * *");
+    const nineAm = new Date("2030-01-02T09:00:00.000Z");
+
+    expect(expression.matches(nineAm, "UTC")).toBe(true);
+    expect(expression.next(nineAm, "UTC").toISOString()).toBe("2030-01-03T09:00:00.000Z");
+  });
+
+  test("should evaluate expressions in a timezone", () => {
+    const expression = CronExpression.parse("0 9 * * *");
+
+    expect(expression.next(NOW, "America/New_York").toISOString()).toBe("2030-01-02T14:00:00.000Z");
+    expect(expression.next(NOW, "Asia/Kathmandu").toISOString()).toBe("2030-01-03T03:15:00.000Z");
+  });
+
+  test("should follow daylight saving changes", () => {
+    // US clocks spring forward on 2030-03-10
+    const expression = CronExpression.parse("0 9 * * *");
+    const first = expression.next(new Date("2030-03-09T12:00:00.000Z"), "America/New_York");
+    const second = expression.next(first, "America/New_York");
+
+    expect(first.toISOString()).toBe("2030-03-09T14:00:00.000Z");
+    expect(second.toISOString()).toBe("2030-03-10T13:00:00.000Z");
+  });
+
+  test.each([
+    ["", "expected 5 fields"],
+    ["0 9 * *", "expected 5 fields"],
+    ["0 0 9 * * *", "expected 5 fields"],
+    ["60 9 * * *", "minute '60' must be between 0 and 59"],
+    ["0 24 * * *", "hour '24' must be between 0 and 23"],
+    ["0 9 0 * *", "day of month '0' must be between 1 and 31"],
+    ["0 9 * 13 *", "month '13' must be between 1 and 12"],
+    ["0 9 * * 8", "day of week '8' must be between 0 and 7"],
+    ["0 9 * * funday", "day of week 'funday'"],
+    ["0 17-9 * * *", "is backwards"],
+    ["*/0 * * * *", "invalid step '0'"],
+    ["0 9 31 feb *", "never occurs"],
+    ["@fortnightly", "unknown macro"]
+  ])("should reject %p", (expression, message) => {
+    expect(() => CronExpression.parse(expression)).toThrow(InvalidScheduleError);
+    expect(() => CronExpression.parse(expression)).toThrow(message);
+  });
+
+  describe("Mock cron service", () => {
+    test("should schedule jobs at their real next run on the injected clock", () => {
+      const cronService = new MockCronService(new FakeClock(NOW));
+
+      const job = cronService.schedule("daily", "0 9 * * *", jest.fn(), { timezone: "UTC" });
+
+      expect(job.nextRun!.toISOString()).toBe("2030-01-03T09:00:00.000Z");
+    });
+
+    test("should reschedule after running", async () => {
+      const clock = new FakeClock(NOW);
+      const cronService = new MockCronService(clock);
+      const callback = jest.fn();
+      cronService.schedule("daily", "0 9 * * *", callback, { timezone: "UTC" });
+
+      await cronService.advanceTime(24 * 60 * 60 * 1000);
+
+      expect(clock.now().toISOString()).toBe("2030-01-03T10:17:30.000Z");
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(cronService.getJob("daily")!.nextRun!.toISOString()).toBe("2030-01-04T09:00:00.000Z");
+    });
+
+    test("should throw from schedule() on bad expressions", () => {
+      const cronService = new MockCronService(new FakeClock(NOW));
+
+      expect(() => cronService.schedule("bad", "0 25 * * *", jest.fn())).toThrow(InvalidScheduleError);
+      expect(cronService.getJobs()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Test suite for the RPC ENS data source's batched lookups
+ */
+
+import { ethers } from "ethers";
+import {
+  closeEnsDataSources,
+  ENS_REGISTRAR_ADDRESS,
+  ENS_REGISTRY_ADDRESS,
+  getEnsDataSource,
+  MULTICALL3_ADDRESS,
+  NAME_WRAPPER_ADDRESS,
+  RpcEnsDataSource
+} from "../services/ens-data-source";
+import { mockEnsDataSource } from "../services/mock-ens";
+import { createTestRuntime } from "./test-utils";
+
+const multicall = new ethers.Interface([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+]);
+const registrar = new ethers.Interface(["function nameExpires(uint256 id) view returns (uint256)"]);
+const nameWrapper = new ethers.Interface(["function getData(uint256 id) view returns (address owner, uint32 fuses, uint64 expiry)"]);
+const registry = new ethers.Interface(["function owner(bytes32 node) view returns (address)"]);
+
+const tokenId = (label: string) => BigInt(ethers.keccak256(ethers.toUtf8Bytes(label)));
+
+/**
+ * A subname as the NameWrapper and registry see it; no expiry means it isn't wrapped
+ */
+interface FakeSubname {
+  expiry?: number;
+  owner: string;
+}
+
+/**
+ * Answers Multicall3 aggregate3 calls to the registrar's nameExpires from a table of expiries,
+ * and to the NameWrapper's getData and the registry's owner from a table of subnames
+ */
+class FakeMulticallProvider {
+  readonly batches: number[] = [];
+  failBatch?: number;
+
+  constructor(
+    private readonly expiries: Record<string, number | "revert">,
+    private readonly subnames: Record<string, FakeSubname> = {}
+  ) {}
+
+  async call(tx: { to: string; data: string }): Promise<string> {
+    expect(tx.to).toBe(MULTICALL3_ADDRESS);
+    const [calls] = multicall.decodeFunctionData("aggregate3", tx.data);
+    this.batches.push(calls.length);
+    if (this.batches.length === this.failBatch) {
+      throw new Error("rate limited");
+    }
+
+    return multicall.encodeFunctionResult("aggregate3", [calls.map((call: any) => {
+      if (call.target === NAME_WRAPPER_ADDRESS) {
+        const [id] = nameWrapper.decodeFunctionData("getData", call.callData);
+        const subname = this.findSubname(id);
+        return [true, nameWrapper.encodeFunctionResult("getData", subname?.expiry
+          ? [subname.owner, 0, subname.expiry]
+          : [ethers.ZeroAddress, 0, 0])];
+      }
+
+      if (call.target === ENS_REGISTRY_ADDRESS) {
+        const [node] = registry.decodeFunctionData("owner", call.callData);
+        const owner = this.findSubname(BigInt(node))?.owner ?? ethers.ZeroAddress;
+        return [true, registry.encodeFunctionResult("owner", [owner])];
+      }
+
+      expect(call.target).toBe(ENS_REGISTRAR_ADDRESS);
+      const [id] = registrar.decodeFunctionData("nameExpires", call.callData);
+      const label = Object.keys(this.expiries).find(candidate => tokenId(candidate) === id);
+      const expiry = label ? this.expiries[label] : 0;
+      return expiry === "revert"
+        ? [false, "0x"]
+        : [true, registrar.encodeFunctionResult("nameExpires", [expiry])];
+    })]);
+  }
+
+  private findSubname(node: bigint): FakeSubname | undefined {
+    const name = Object.keys(this.subnames).find(candidate => BigInt(ethers.namehash(candidate)) === node);
+    return name ? this.subnames[name] : undefined;
+  }
+}
+
+describe("RPC ENS Data Source", () => {
+  const VITALIK_EXPIRY = Date.parse("2032-05-04T00:00:00.000Z") / 1000;
+  const OWNER = "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045";
+  let provider: FakeMulticallProvider;
+
+  beforeEach(() => {
+    provider = new FakeMulticallProvider(
+      { vitalik: VITALIK_EXPIRY, nick: VITALIK_EXPIRY + 86400, broken: "revert" },
+      {
+        "pay.vitalik.eth": { expiry: VITALIK_EXPIRY - 86400, owner: OWNER },
+        "long.vitalik.eth": { expiry: VITALIK_EXPIRY + 365 * 86400, owner: OWNER },
+        "grace.vitalik.eth": { expiry: VITALIK_EXPIRY + 30 * 86400, owner: OWNER },
+        "deep.long.vitalik.eth": { expiry: VITALIK_EXPIRY + 365 * 86400, owner: OWNER },
+        "blog.vitalik.eth": { owner: OWNER }
+      }
+    );
+  });
+
+  const createSource = (multicallChunkSize: number) =>
+    new RpcEnsDataSource(provider as unknown as ethers.Provider, { multicallChunkSize });
+
+  test("should look up expiries in Multicall3 chunks, in the order given", async () => {
+    const lookups = await createSource(2).getExpiries(["vitalik.eth", "nick.eth", "unregistered.eth"]);
+
+    expect(provider.batches).toEqual([2, 1]);
+    expect(lookups).toEqual([
+      { domain: "vitalik.eth", expiry: new Date("2032-05-04T00:00:00.000Z") },
+      { domain: "nick.eth", expiry: new Date("2032-05-05T00:00:00.000Z") },
+      { domain: "unregistered.eth", expiry: null }
+    ]);
+  });
+
+  test("should isolate a failed lookup to its own name", async () => {
+    const lookups = await createSource(10).getExpiries(["vitalik.eth", "broken.eth"]);
+
+    expect(lookups[0].expiry).toEqual(new Date("2032-05-04T00:00:00.000Z"));
+    expect(lookups[1]).toMatchObject({ domain: "broken.eth", expiry: null, error: expect.any(Error) });
+  });
+
+  test("should fail only the names in a chunk whose call failed", async () => {
+    provider.failBatch = 2;
+
+    const lookups = await createSource(1).getExpiries(["vitalik.eth", "nick.eth", "vitalik.eth"]);
+
+    expect(lookups.map(lookup => lookup.error?.message ?? null)).toEqual([null, expect.stringContaining("rate limited"), null]);
+  });
+
+  test("should cap wrapped subname expiries by their parent's NameWrapper expiry", async () => {
+    const lookups = await createSource(10).getExpiries([
+      "pay.vitalik.eth",
+      "long.vitalik.eth",
+      "grace.vitalik.eth",
+      "blog.vitalik.eth",
+      "missing.vitalik.eth"
+    ]);
+
+    expect(lookups.map(lookup => lookup.expiry)).toEqual([
+      new Date("2032-05-03T00:00:00.000Z"),
+      // The NameWrapper keeps vitalik.eth, and so its subnames, through the 90-day grace period
+      new Date("2032-08-02T00:00:00.000Z"),
+      new Date("2032-06-03T00:00:00.000Z"),
+      // Unwrapped, so it lasts as long as its parent
+      new Date("2032-05-04T00:00:00.000Z"),
+      null
+    ]);
+    // The parent's registrar expiry is only looked up once
+    expect(provider.batches).toEqual([1 + 5 * 2]);
+  });
+
+  test("should cap a wrapped subname's own subnames by its expiry, without another grace period", async () => {
+    const [lookup] = await createSource(10).getExpiries(["deep.long.vitalik.eth"]);
+
+    expect(lookup.expiry).toEqual(new Date("2032-08-02T00:00:00.000Z"));
+  });
+
+  test("should look up a suffixed name under its real second-level name", async () => {
+    provider = new FakeMulticallProvider({ eth: VITALIK_EXPIRY, "foo.eth": VITALIK_EXPIRY + 86400 }, {
+      "foo.eth.eth": { expiry: VITALIK_EXPIRY + 365 * 86400, owner: OWNER }
+    });
+
+    const [lookup] = await createSource(10).getExpiries(["foo.eth.eth"]);
+
+    // Capped by eth.eth's NameWrapper expiry, not read from a "foo.eth" label that doesn't exist
+    expect(lookup.expiry).toEqual(new Date("2032-08-02T00:00:00.000Z"));
+  });
+});
+
+describe("ENS data source selection", () => {
+  afterEach(() => {
+    closeEnsDataSources();
+  });
+
+  test("should share one RPC data source per RPC URL", () => {
+    const runtimeFor = (rpcUrl: string) => {
+      const runtime = createTestRuntime();
+      runtime.setSetting("ENS_DATA_SOURCE", "rpc");
+      runtime.setSetting("ETHEREUM_RPC_URL", rpcUrl);
+      return runtime;
+    };
+
+    const first = getEnsDataSource(runtimeFor("http://localhost:8545"));
+
+    expect(first).toBeInstanceOf(RpcEnsDataSource);
+    expect(getEnsDataSource(runtimeFor("http://localhost:8545"))).toBe(first);
+    expect(getEnsDataSource(runtimeFor("http://localhost:8546"))).not.toBe(first);
+  });
+
+  test("should use the fixtures in mock mode", () => {
+    expect(getEnsDataSource(createTestRuntime())).toBe(mockEnsDataSource);
+  });
+});
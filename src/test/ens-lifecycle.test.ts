@@ -0,0 +1,73 @@
+/**
+ * Test suite for the ENS domain lifecycle model
+ */
+
+import {
+  getDomainLifecycle,
+  daysUntil,
+  GRACE_PERIOD_DAYS,
+  PREMIUM_PERIOD_DAYS
+} from "../services/ens-lifecycle";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("ENS Domain Lifecycle", () => {
+  const expiryDate = new Date("2030-06-01T00:00:00.000Z");
+  const at = (offsetMs: number) => new Date(expiryDate.getTime() + offsetMs);
+
+  test("should compute boundary timestamps", () => {
+    const lifecycle = getDomainLifecycle(expiryDate, at(-DAY_MS));
+
+    expect(lifecycle.gracePeriodEndsAt.toISOString()).toBe("2030-08-30T00:00:00.000Z");
+    expect(lifecycle.premiumEndsAt.toISOString()).toBe("2030-09-20T00:00:00.000Z");
+    expect(lifecycle.gracePeriodEndsAt.getTime() - expiryDate.getTime()).toBe(GRACE_PERIOD_DAYS * DAY_MS);
+    expect(lifecycle.premiumEndsAt.getTime() - lifecycle.gracePeriodEndsAt.getTime()).toBe(PREMIUM_PERIOD_DAYS * DAY_MS);
+  });
+
+  test.each([
+    ["30 days before expiry", -30 * DAY_MS, "active"],
+    ["one second before expiry", -1000, "active"],
+    ["at expiry", 0, "grace_period"],
+    ["45 days after expiry", 45 * DAY_MS, "grace_period"],
+    ["at the end of the grace period", GRACE_PERIOD_DAYS * DAY_MS, "grace_period"],
+    ["one second after the grace period", GRACE_PERIOD_DAYS * DAY_MS + 1000, "premium_auction"],
+    ["one second before the premium ends", (GRACE_PERIOD_DAYS + PREMIUM_PERIOD_DAYS) * DAY_MS - 1000, "premium_auction"],
+    ["when the premium ends", (GRACE_PERIOD_DAYS + PREMIUM_PERIOD_DAYS) * DAY_MS, "available"],
+    ["a year after expiry", 365 * DAY_MS, "available"]
+  ])("should classify a name %s", (_label, offsetMs, expectedState) => {
+    expect(getDomainLifecycle(expiryDate, at(offsetMs)).state).toBe(expectedState);
+  });
+
+  test("should report the next transition for each state", () => {
+    expect(getDomainLifecycle(expiryDate, at(-DAY_MS)).nextTransitionAt).toEqual(expiryDate);
+    expect(getDomainLifecycle(expiryDate, at(DAY_MS)).nextTransitionAt!.toISOString()).toBe("2030-08-30T00:00:00.000Z");
+    expect(getDomainLifecycle(expiryDate, at(100 * DAY_MS)).nextTransitionAt!.toISOString()).toBe("2030-09-20T00:00:00.000Z");
+    expect(getDomainLifecycle(expiryDate, at(200 * DAY_MS)).nextTransitionAt).toBeNull();
+  });
+
+  test.each([
+    ["one second before expiry", -1000, "active"],
+    ["at expiry", 0, "active"],
+    ["one second after expiry", 1000, "expired"],
+    ["45 days after expiry", 45 * DAY_MS, "expired"],
+    ["a year after expiry", 365 * DAY_MS, "expired"]
+  ])("should classify a subname %s, with no grace period or premium auction", (_label, offsetMs, expectedState) => {
+    expect(getDomainLifecycle(expiryDate, at(offsetMs), "pay.vitalik.eth").state).toBe(expectedState);
+  });
+
+  test("should end a subname's lifecycle at its expiry", () => {
+    const lifecycle = getDomainLifecycle(expiryDate, at(DAY_MS), "pay.vitalik.eth");
+
+    expect(lifecycle.gracePeriodEndsAt).toEqual(expiryDate);
+    expect(lifecycle.premiumEndsAt).toEqual(expiryDate);
+    expect(lifecycle.nextTransitionAt).toBeNull();
+    expect(getDomainLifecycle(expiryDate, at(-DAY_MS), "pay.vitalik.eth").nextTransitionAt).toEqual(expiryDate);
+    expect(getDomainLifecycle(expiryDate, at(DAY_MS), "vitalik.eth").state).toBe("grace_period");
+  });
+
+  test("should count whole days until expiry", () => {
+    expect(getDomainLifecycle(expiryDate, at(-7 * DAY_MS)).daysUntilExpiry).toBe(7);
+    expect(getDomainLifecycle(expiryDate, at(-6.5 * DAY_MS)).daysUntilExpiry).toBe(7);
+    expect(daysUntil(expiryDate, at(10 * DAY_MS))).toBe(-10);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Test suite for ENS name normalization
+ */
+
+import { ethers } from "ethers";
+import {
+  extractEnsNames,
+  findEnsNames,
+  getNameChain,
+  getParentName,
+  InvalidEnsNameError,
+  isSubname,
+  normalizeEnsName,
+  parseEnsName
+} from "../services/ens-name";
+
+describe("ENS Name Normalization", () => {
+  test("should normalize case and keep emoji and non-ASCII labels", () => {
+    expect(normalizeEnsName("Vitalik.ETH")).toBe("vitalik.eth");
+    expect(normalizeEnsName("🦊.eth")).toBe("🦊.eth");
+    expect(normalizeEnsName("ΞTHER.eth")).toBe("ξther.eth");
+    expect(normalizeEnsName("pay.Vitalik.eth")).toBe("pay.vitalik.eth");
+  });
+
+  test("should reject disallowed characters with the reason", () => {
+    expect(() => normalizeEnsName("a_b$.eth")).toThrow(InvalidEnsNameError);
+
+    try {
+      normalizeEnsName("a_b$.eth");
+    } catch (error) {
+      expect(error).toMatchObject({ input: "a_b$.eth", reason: expect.stringContaining("underscore allowed only at start") });
+      // No bidi marks leak into the chat reply
+      expect((error as InvalidEnsNameError).reason).not.toMatch(/[‎‏]/);
+    }
+  });
+
+  test("should only accept .eth names", () => {
+    expect(() => normalizeEnsName("vitalik.xyz")).toThrow("only .eth names are supported");
+    expect(() => normalizeEnsName(".eth")).toThrow(InvalidEnsNameError);
+  });
+
+  test("should find names in messages as written", () => {
+    expect(findEnsNames("remind me about Vitalik.ETH, 🦊.eth and (nick.eth)!")).toEqual(["Vitalik.ETH", "🦊.eth", "nick.eth"]);
+    expect(findEnsNames("what about vitalik.ethereum?")).toEqual([]);
+  });
+
+  test("should normalize and dedupe extracted names, keeping the invalid ones apart", () => {
+    const { names, invalid } = extractEnsNames("check Vitalik.eth, vitalik.eth and a_b$.eth");
+
+    expect(names).toEqual(["vitalik.eth"]);
+    expect(invalid.map(error => error.input)).toEqual(["a_b$.eth"]);
+  });
+
+  test("should walk subnames down from their .eth second-level name", () => {
+    expect(getNameChain("vitalik.eth")).toEqual(["vitalik.eth"]);
+    expect(getNameChain("a.pay.vitalik.eth")).toEqual(["vitalik.eth", "pay.vitalik.eth", "a.pay.vitalik.eth"]);
+    expect(isSubname("vitalik.eth")).toBe(false);
+    expect(isSubname("pay.vitalik.eth")).toBe(true);
+    expect(getParentName("pay.vitalik.eth")).toBe("vitalik.eth");
+  });
+
+  describe("Parsing", () => {
+    const labelhash = (label: string) => ethers.keccak256(ethers.toUtf8Bytes(label));
+
+    test.each([
+      ["vitalik.eth", ["vitalik", "eth"], "vitalik.eth", "vitalik", false],
+      ["Vitalik.ETH", ["vitalik", "eth"], "vitalik.eth", "vitalik", false],
+      ["  vitalik.eth ", ["vitalik", "eth"], "vitalik.eth", "vitalik", false],
+      ["eth.eth", ["eth", "eth"], "eth.eth", "eth", false],
+      ["foo.eth.eth", ["foo", "eth", "eth"], "eth.eth", "eth", true],
+      ["sub.foo.eth", ["sub", "foo", "eth"], "foo.eth", "foo", true],
+      ["a.b.c.eth", ["a", "b", "c", "eth"], "c.eth", "c", true],
+      ["🦊.eth", ["🦊", "eth"], "🦊.eth", "🦊", false]
+    ])("should parse %p", (input, labels, secondLevelName, secondLevelLabel, subname) => {
+      const parsed = parseEnsName(input);
+
+      expect(parsed).toEqual({
+        name: labels.join("."),
+        labels,
+        tld: "eth",
+        secondLevelName,
+        secondLevelLabelhash: labelhash(secondLevelLabel),
+        labelhash: labelhash(labels[0]),
+        node: ethers.namehash(labels.join(".")),
+        isSubname: subname
+      });
+    });
+
+    test.each(["eth", ".eth", "foo..eth", "foo.eth.xyz", "vitalik", ""])("should reject %p", input => {
+      expect(() => parseEnsName(input)).toThrow(InvalidEnsNameError);
+    });
+  });
+});
@@ -17,6 +17,9 @@ import {
   sleep
 } from "./test-utils";
 import { mockDatabaseService } from "../services/mock-database";
+import { mockEnsDataSource } from "../services/mock-ens";
+import { FakeClock, setClock } from "../services/clock";
+import { PENDING_IMPORT_TTL_MS } from "../services/pending-imports";
 
 describe("ENS Reminder Plugin", () => {
   let runtime: any;
@@ -40,7 +43,7 @@ describe("ENS Reminder Plugin", () => {
     test("should have correct plugin metadata", () => {
       expect(ensReminderPlugin.name).toBe("ens-reminder");
       expect(ensReminderPlugin.description).toBe("ENS domain expiration reminder plugin");
-      expect(ensReminderPlugin.actions).toHaveLength(3);
+      expect(ensReminderPlugin.actions).toHaveLength(5);
     });
 
     test("should have all required actions", () => {
@@ -48,6 +51,8 @@ describe("ENS Reminder Plugin", () => {
       expect(actionNames).toContain("SET_REMINDER");
       expect(actionNames).toContain("LIST_REMINDERS");
       expect(actionNames).toContain("CHECK_EXPIRY");
+      expect(actionNames).toContain("REMOVE_REMINDER");
+      expect(actionNames).toContain("IMPORT_NAMES");
     });
   });
 
@@ -116,6 +121,29 @@ describe("ENS Reminder Plugin", () => {
       expectCallbackToContain(callback, "doesn't appear to be a valid ENS domain");
     });
 
+    test("should explain why a name with disallowed characters is invalid", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, "remind me about a_b$.eth");
+
+      await setReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+
+      expectCallbackToContain(callback, "\"a_b$.eth\" doesn't appear to be a valid ENS domain");
+      expectCallbackToContain(callback, "underscore allowed only at start");
+    });
+
+    test("should store names in their normalized form", async () => {
+      mockEnsDataSource.setName("nick.eth", { expiry: "2037-05-04T00:00:00.000Z" });
+      mockEnsDataSource.setName("🦊.eth", { expiry: "2037-05-04T00:00:00.000Z" });
+
+      await setReminderAction.handler(runtime, createTestMessage(TEST_WALLETS.USER1, "remind me about Nick.ETH"), undefined, undefined, callback.call.bind(callback));
+      expectCallbackToContain(callback, "Reminder set for \"nick.eth\"");
+
+      await setReminderAction.handler(runtime, createTestMessage(TEST_WALLETS.USER1, "remind me about 🦊.eth"), undefined, undefined, callback.call.bind(callback));
+      expectCallbackToContain(callback, "Reminder set for \"🦊.eth\"");
+
+      const result = await mockDatabaseService.from('reminders').select('*').eq('wallet_address', TEST_WALLETS.USER1);
+      expect(result.data.map((reminder: any) => reminder.domain).sort()).toEqual(["nick.eth", "🦊.eth"]);
+    });
+
     test("should handle non-existent domains gracefully", async () => {
       const message = createTestMessage(TEST_WALLETS.USER1, `remind me about ${TEST_DOMAINS.NONEXISTENT}`);
       
@@ -124,6 +152,32 @@ describe("ENS Reminder Plugin", () => {
       expectCallbackToContain(callback, "couldn't find an expiry date");
     });
 
+    test("should refuse names that have already expired", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, `remind me about ${TEST_DOMAINS.EXPIRED}`);
+      
+      await setReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expectCallbackToContain(callback, "already expired");
+      expectCallbackToContain(callback, "in its grace period");
+      expect(mockDatabaseService.getStats().reminders).toBe(0);
+    });
+
+    test("should watch names in their grace period until they're released", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, `watch ${TEST_DOMAINS.EXPIRED}`);
+
+      await setReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+
+      expectCallbackToContain(callback, `Watching "${TEST_DOMAINS.EXPIRED}"`);
+      expectCallbackToContain(callback, "in its grace period");
+      expectCallbackNotToContain(callback, "days from now");
+      const reminders: any = await mockDatabaseService.from('reminders').select().eq('domain', TEST_DOMAINS.EXPIRED);
+      expect(reminders.data[0].tracking_mode).toBe("watch");
+
+      // The reply covered the grace period, so the next notice is the release
+      const sent: any = await mockDatabaseService.from('sent_reminders').select().eq('reminder_id', reminders.data[0].id);
+      expect(sent.data.map((record: any) => record.reminder_type)).toEqual(["grace_period"]);
+    });
+
     test("should store reminder in database", async () => {
       const message = createTestMessage(TEST_WALLETS.USER1, "remind me about vitalik.eth");
       
@@ -134,12 +188,95 @@ describe("ENS Reminder Plugin", () => {
       expect(stats.reminders).toBeGreaterThan(0);
       
       // Verify the reminder was stored correctly
-      const reminders = mockDatabaseService.from('reminders').select();
-      reminders.eq('wallet_address', TEST_WALLETS.USER1).then((result: any) => {
-        expect(result.data).toBeTruthy();
-        expect(result.data.length).toBeGreaterThan(0);
-        expect(result.data[0].domain).toBe("vitalik.eth");
-      });
+      const result = await mockDatabaseService.from('reminders').select().eq('wallet_address', TEST_WALLETS.USER1);
+      expect(result.data).toBeTruthy();
+      expect(result.data.length).toBeGreaterThan(0);
+      expect(result.data[0].domain).toBe("vitalik.eth");
+    });
+    test("should refresh instead of duplicating an existing reminder", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, "remind me about vitalik.eth");
+      await setReminderAction.handler(runtime, message, undefined, undefined, () => {});
+
+      mockEnsDataSource.setName("vitalik.eth", { expiry: "2037-05-04T00:00:00.000Z" });
+      await setReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+
+      expectCallbackToContain(callback, "Already tracking \"vitalik.eth\", expiry refreshed");
+      expectCallbackToContain(callback, "previously");
+
+      const result: any = await mockDatabaseService.from('reminders').select().eq('wallet_address', TEST_WALLETS.USER1);
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0].expiry_date).toBe("2037-05-04T00:00:00.000Z");
+    });
+
+    test("should store custom reminder intervals", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, "remind me about vitalik.eth 60, 14 and 3 days before");
+      
+      await setReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expectCallbackToContain(callback, "notifications at 60, 14, and 3 day intervals");
+
+      const result: any = await mockDatabaseService.from('reminders').select().eq('wallet_address', TEST_WALLETS.USER1);
+      expect(JSON.parse(result.data[0].reminder_intervals)).toEqual([60, 14, 3]);
+    });
+
+    test("should update intervals on an existing reminder", async () => {
+      const first = createTestMessage(TEST_WALLETS.USER1, "remind me about vitalik.eth");
+      await setReminderAction.handler(runtime, first, undefined, undefined, () => {});
+
+      const second = createTestMessage(TEST_WALLETS.USER1, "remind me about vitalik.eth 10 days before");
+      await setReminderAction.handler(runtime, second, undefined, undefined, callback.call.bind(callback));
+
+      expectCallbackToContain(callback, "Reminders: 10 days before expiration");
+      const result: any = await mockDatabaseService.from('reminders').select().eq('wallet_address', TEST_WALLETS.USER1);
+      expect(result.data).toHaveLength(1);
+      expect(JSON.parse(result.data[0].reminder_intervals)).toEqual([10]);
+    });
+
+    test("should reject out of range intervals", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, "remind me about vitalik.eth 500 days before");
+      
+      await setReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expectCallbackToContain(callback, "between 1 and 365 days");
+      expect(mockDatabaseService.getStats().reminders).toBe(0);
+    });
+
+    test("should track the same domain for different wallets", async () => {
+      for (const wallet of [TEST_WALLETS.USER1, TEST_WALLETS.USER2]) {
+        const message = createTestMessage(wallet, "remind me about vitalik.eth");
+        await setReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+        expectCallbackToContain(callback, "Reminder set for \"vitalik.eth\"");
+      }
+
+      expect(mockDatabaseService.getStats().reminders).toBe(2);
+    });
+
+    test("should only accept names the sender holds in owned-names-only mode", async () => {
+      runtime.setSetting("ENS_OWNED_NAMES_ONLY", "true");
+      mockEnsDataSource.setName("wrapped.eth", { expiry: "2031-01-01T00:00:00.000Z", fuses: 1, owner: TEST_WALLETS.USER2 });
+
+      await setReminderAction.handler(runtime, createTestMessage(TEST_WALLETS.USER1, "remind me about vitalik.eth"), undefined, undefined, callback.call.bind(callback));
+      expectCallbackToContain(callback, "Your wallet doesn't hold \"vitalik.eth\"");
+      expectCallbackToContain(callback, "watch vitalik.eth");
+
+      // Registrant, registry owner or NameWrapper owner all count
+      await setReminderAction.handler(runtime, createTestMessage(TEST_WALLETS.USER1, "remind me about mydomain.eth"), undefined, undefined, callback.call.bind(callback));
+      expectCallbackToContain(callback, "Reminder set for \"mydomain.eth\"");
+      await setReminderAction.handler(runtime, createTestMessage(TEST_WALLETS.USER2, "remind me about wrapped.eth"), undefined, undefined, callback.call.bind(callback));
+      expectCallbackToContain(callback, "Reminder set for \"wrapped.eth\"");
+
+      expect(mockDatabaseService.getStats().reminders).toBe(2);
+    });
+
+    test("should watch names the sender doesn't hold", async () => {
+      runtime.setSetting("ENS_OWNED_NAMES_ONLY", "true");
+      const message = createTestMessage(TEST_WALLETS.USER1, "watch vitalik.eth");
+
+      await setReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+
+      expectCallbackToContain(callback, "Watching \"vitalik.eth\"");
+      const result: any = await mockDatabaseService.from('reminders').select().eq('wallet_address', TEST_WALLETS.USER1);
+      expect(result.data[0].tracking_mode).toBe("watch");
     });
   });
 
@@ -188,6 +325,49 @@ describe("ENS Reminder Plugin", () => {
       expectCallbackToContain(callback, "Expires:");
     });
 
+    test("should label reminders by lifecycle state", async () => {
+      await mockDatabaseService.from('reminders').insert({
+        domain: TEST_DOMAINS.EXPIRED,
+        wallet_address: TEST_WALLETS.USER1,
+        expiry_date: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+        reminders_sent: JSON.stringify([]),
+        created_at: new Date().toISOString()
+      });
+      const message = createTestMessage(TEST_WALLETS.USER1, "list my reminders");
+      
+      await listRemindersAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expectCallbackToContain(callback, `IN GRACE PERIOD ${TEST_DOMAINS.EXPIRED}`);
+      expectCallbackToContain(callback, "Expired - grace period ends");
+    });
+
+    test("should label watched names apart from held ones", async () => {
+      const setReminderAction = ensReminderPlugin.actions.find(action => action.name === "SET_REMINDER");
+      await setReminderAction.handler(runtime, createTestMessage(TEST_WALLETS.USER1, "remind me about mydomain.eth"), undefined, undefined, () => {});
+      await setReminderAction.handler(runtime, createTestMessage(TEST_WALLETS.USER1, "watch vitalik.eth"), undefined, undefined, () => {});
+
+      const message = createTestMessage(TEST_WALLETS.USER1, "list my reminders");
+      await listRemindersAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+
+      const text = callback.getLastResult().text;
+      expect(text).toMatch(/vitalik\.eth\n   👀 Watching - not held by your wallet/);
+      expect(text).not.toMatch(/mydomain\.eth\n   👀/);
+    });
+
+    test("should show the current on-chain expiry and fall back to the stored one", async () => {
+      await mockDatabaseService.from('reminders').insert({ domain: "renewed.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: "2028-01-01T00:00:00.000Z" });
+      await mockDatabaseService.from('reminders').insert({ domain: "unlisted.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: "2029-01-01T00:00:00.000Z" });
+      mockEnsDataSource.setName("renewed.eth", { expiry: "2037-05-04T00:00:00.000Z" });
+      const message = createTestMessage(TEST_WALLETS.USER1, "list my reminders");
+
+      await listRemindersAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+
+      const text = callback.getLastResult().text;
+      expect(text).toContain(`renewed.eth\n   📅 Expires: ${new Date("2037-05-04T00:00:00.000Z").toDateString()}`);
+      expect(text).toContain(`unlisted.eth\n   📅 Expires: ${new Date("2029-01-01T00:00:00.000Z").toDateString()}`);
+      expect(text.indexOf("unlisted.eth")).toBeLessThan(text.indexOf("renewed.eth"));
+    });
+
     test("should show correct status for different expiry periods", async () => {
       // The test data includes a domain expiring in 7 days
       const message = createTestMessage(TEST_WALLETS.USER1, "list my reminders");
@@ -222,6 +402,16 @@ describe("ENS Reminder Plugin", () => {
       }
     });
 
+    test("should report an expired subname as expired, without a grace period", async () => {
+      mockEnsDataSource.setName("lapsed.vitalik.eth", { expiry: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(), fuses: 0 });
+      const message = createTestMessage(TEST_WALLETS.USER1, "when does lapsed.vitalik.eth expire?");
+
+      await checkExpiryAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+
+      expectCallbackToContain(callback, "This subname has expired");
+      expectCallbackNotToContain(callback, "grace period until");
+    });
+
     test("should check valid domain expiry", async () => {
       const message = createTestMessage(TEST_WALLETS.USER1, "when does vitalik.eth expire?");
       
@@ -240,6 +430,63 @@ describe("ENS Reminder Plugin", () => {
       expectCallbackToContain(callback, "couldn't find expiry information");
     });
 
+    test("should describe names in the grace period", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, `check ${TEST_DOMAINS.EXPIRED}`);
+      
+      await checkExpiryAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expectCallbackToContain(callback, "grace period ends");
+      expectCallbackToContain(callback, "Only the current owner can renew it");
+      expectCallbackNotToContain(callback, "Want me to set a reminder?");
+    });
+
+    test("should describe names in the premium auction", async () => {
+      mockEnsDataSource.setName("auction.eth", {
+        expiry: new Date(Date.now() - 100 * 24 * 60 * 60 * 1000).toISOString()
+      });
+      const message = createTestMessage(TEST_WALLETS.USER1, "check auction.eth");
+      
+      await checkExpiryAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expectCallbackToContain(callback, "premium auction ends");
+      expectCallbackToContain(callback, "decaying premium");
+    });
+
+    test("should read expiry from the fixture data source", async () => {
+      mockEnsDataSource.setName("fixture-only.eth", {
+        expiry: new Date(Date.now() + 40 * 24 * 60 * 60 * 1000).toISOString()
+      });
+      const message = createTestMessage(TEST_WALLETS.USER1, "check fixture-only.eth");
+      
+      await checkExpiryAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expectCallbackToContain(callback, "ENS Domain Info: fixture-only.eth");
+      expectCallbackToContain(callback, "40 days remaining");
+    });
+
+    test("should check several domains in one batched lookup", async () => {
+      const getExpiries = jest.spyOn(mockEnsDataSource, "getExpiries");
+      const message = createTestMessage(TEST_WALLETS.USER1, `check vitalik.eth, ${TEST_DOMAINS.EXPIRED} and ${TEST_DOMAINS.NONEXISTENT}`);
+
+      await checkExpiryAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      const batches = getExpiries.mock.calls.length;
+      getExpiries.mockRestore();
+
+      expect(batches).toBe(1);
+      expectCallbackToContain(callback, "✅ ACTIVE vitalik.eth");
+      expectCallbackToContain(callback, `IN GRACE PERIOD ${TEST_DOMAINS.EXPIRED}`);
+      expectCallbackToContain(callback, `❓ ${TEST_DOMAINS.NONEXISTENT}\n   Not registered`);
+    });
+
+    test("should list invalid names alongside the ones it could check", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, "check Vitalik.ETH and a_b$.eth");
+
+      await checkExpiryAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+
+      expectCallbackToContain(callback, "✅ ACTIVE vitalik.eth");
+      expectCallbackToContain(callback, "⛔ a_b$.eth\n   Not a valid ENS name: ");
+    });
+
     test("should suggest setting reminders", async () => {
       const message = createTestMessage(TEST_WALLETS.USER1, "check vitalik.eth");
       
@@ -250,6 +497,208 @@ describe("ENS Reminder Plugin", () => {
     });
   });
 
+  describe("REMOVE_REMINDER Action", () => {
+    let removeReminderAction: any;
+    let setReminderAction: any;
+
+    const trackedDomains = async (walletAddress: string): Promise<string[]> => {
+      const result: any = await mockDatabaseService.from('reminders').select().eq('wallet_address', walletAddress);
+      return result.data.map((reminder: any) => reminder.domain).sort();
+    };
+
+    beforeEach(async () => {
+      removeReminderAction = ensReminderPlugin.actions.find(action => action.name === "REMOVE_REMINDER");
+      setReminderAction = ensReminderPlugin.actions.find(action => action.name === "SET_REMINDER");
+
+      for (const domain of ["vitalik.eth", "ethereum.eth", "mydomain.eth"]) {
+        const message = createTestMessage(TEST_WALLETS.USER1, `remind me about ${domain}`);
+        await setReminderAction.handler(runtime, message, undefined, undefined, () => {});
+      }
+    });
+
+    test("should validate removal messages", async () => {
+      const validMessages = [
+        "stop tracking vitalik.eth",
+        "remove reminder for ethereum.eth",
+        "delete all my reminders",
+        "untrack mydomain.eth"
+      ];
+
+      for (const text of validMessages) {
+        const message = createTestMessage(TEST_WALLETS.USER1, text);
+        const isValid = await removeReminderAction.validate(runtime, message);
+        expect(isValid).toBe(true);
+      }
+
+      const message = createTestMessage(TEST_WALLETS.USER1, "remind me about vitalik.eth");
+      expect(await removeReminderAction.validate(runtime, message)).toBe(false);
+    });
+
+    test("should remove a single domain", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, "stop tracking vitalik.eth");
+      
+      await removeReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expectCallbackToContain(callback, "Stopped tracking: vitalik.eth");
+      expect(await trackedDomains(TEST_WALLETS.USER1)).toEqual(["ethereum.eth", "mydomain.eth"]);
+    });
+
+    test("should remove multiple domains", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, "stop tracking vitalik.eth and ETHEREUM.eth");
+      
+      await removeReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expectCallbackToContain(callback, "Stopped tracking: vitalik.eth, ethereum.eth");
+      expect(await trackedDomains(TEST_WALLETS.USER1)).toEqual(["mydomain.eth"]);
+    });
+
+    test("should report unknown domains", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, "remove unknown.eth and vitalik.eth");
+      
+      await removeReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expectCallbackToContain(callback, "Stopped tracking: vitalik.eth");
+      expectCallbackToContain(callback, "I wasn't tracking: unknown.eth");
+      expect(await trackedDomains(TEST_WALLETS.USER1)).toEqual(["ethereum.eth", "mydomain.eth"]);
+    });
+
+    test("should not remove other users' reminders", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER2, "stop tracking vitalik.eth");
+      
+      await removeReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expectCallbackToContain(callback, "I wasn't tracking: vitalik.eth");
+      expectCallbackNotToContain(callback, "Stopped tracking");
+      expect(await trackedDomains(TEST_WALLETS.USER1)).toHaveLength(3);
+    });
+
+    test("should remove all domains", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, "stop tracking all");
+      
+      await removeReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expectCallbackToContain(callback, "Stopped tracking: vitalik.eth, ethereum.eth, mydomain.eth");
+      expect(await trackedDomains(TEST_WALLETS.USER1)).toEqual([]);
+    });
+
+    test("should cascade sent reminders", async () => {
+      const reminders: any = await mockDatabaseService.from('reminders').select().eq('wallet_address', TEST_WALLETS.USER1);
+      const vitalik = reminders.data.find((reminder: any) => reminder.domain === "vitalik.eth");
+      await mockDatabaseService.from('sent_reminders').insert({
+        reminder_id: vitalik.id,
+        wallet_address: vitalik.wallet_address,
+        domain: vitalik.domain,
+        sent_at: new Date().toISOString(),
+        reminder_type: 'day_30'
+      });
+      expect(mockDatabaseService.getStats().sentReminders).toBe(1);
+
+      const message = createTestMessage(TEST_WALLETS.USER1, "stop tracking vitalik.eth");
+      await removeReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expect(mockDatabaseService.getStats().sentReminders).toBe(0);
+    });
+
+    test("should ask which domain to remove", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, "stop my reminders");
+      
+      await removeReminderAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+      
+      expectCallbackToContain(callback, "Please specify which ENS domain to stop tracking");
+    });
+  });
+
+  describe("IMPORT_NAMES Action", () => {
+    let importNamesAction: any;
+
+    beforeEach(() => {
+      importNamesAction = ensReminderPlugin.actions.find(action => action.name === "IMPORT_NAMES");
+
+      // USER1 holds mydomain.eth in the fixture file, plus these
+      mockEnsDataSource.setName("second.eth", { expiry: "2029-06-01T00:00:00.000Z", registrant: TEST_WALLETS.USER1 });
+      mockEnsDataSource.setName("lapsed.eth", { expiry: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(), owner: TEST_WALLETS.USER1 });
+    });
+
+    test("should validate import messages", async () => {
+      for (const text of ["track all my names", "import my domains", "confirm import mydomain.eth"]) {
+        expect(await importNamesAction.validate(runtime, createTestMessage(TEST_WALLETS.USER1, text))).toBe(true);
+      }
+      expect(await importNamesAction.validate(runtime, createTestMessage(TEST_WALLETS.USER1, "track mydomain.eth"))).toBe(false);
+    });
+
+    test("should preview the names a wallet holds without tracking them", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER1, "track all my names");
+
+      await importNamesAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+
+      expectCallbackToContain(callback, "Found 3 .eth names held by your wallet");
+      expectCallbackToContain(callback, "✅ ACTIVE second.eth\n   📅 Expires: ");
+      expectCallbackToContain(callback, "IN GRACE PERIOD lapsed.eth");
+      expectCallbackToContain(callback, "Reply \"confirm import\" to track all 2 new names");
+      expect(mockDatabaseService.getStats().reminders).toBe(0);
+    });
+
+    const preview = () => importNamesAction.handler(runtime, createTestMessage(TEST_WALLETS.USER1, "track all my names"), undefined, undefined, () => {});
+
+    test("should import every active name once confirmed", async () => {
+      await preview();
+      const message = createTestMessage(TEST_WALLETS.USER1, "confirm import");
+
+      await importNamesAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+
+      expectCallbackToContain(callback, "Now tracking 2 names: second.eth, mydomain.eth");
+      const result: any = await mockDatabaseService.from('reminders').select().eq('wallet_address', TEST_WALLETS.USER1);
+      expect(result.data.map((reminder: any) => reminder.domain).sort()).toEqual(["mydomain.eth", "second.eth"]);
+      expect(result.data[0].tracking_mode).toBe("owner");
+    });
+
+    test("should import only the names picked, and skip ones already tracked", async () => {
+      const setReminderAction = ensReminderPlugin.actions.find(action => action.name === "SET_REMINDER");
+      await setReminderAction.handler(runtime, createTestMessage(TEST_WALLETS.USER1, "remind me about mydomain.eth"), undefined, undefined, () => {});
+      await preview();
+
+      const message = createTestMessage(TEST_WALLETS.USER1, "confirm import second.eth, mydomain.eth and vitalik.eth");
+      await importNamesAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+
+      expectCallbackToContain(callback, "Now tracking 1 name: second.eth");
+      expectCallbackToContain(callback, "Not imported, as they weren't in the names I offered, your wallet doesn't hold them, they aren't active or I'm already tracking them: mydomain.eth, vitalik.eth");
+      expect(mockDatabaseService.getStats().reminders).toBe(2);
+    });
+
+    test("should only import the names from the sender's last preview", async () => {
+      await preview();
+      mockEnsDataSource.setName("later.eth", { expiry: "2029-09-01T00:00:00.000Z", registrant: TEST_WALLETS.USER1 });
+
+      // USER2 never asked for a preview, so there is nothing for them to confirm
+      await importNamesAction.handler(runtime, createTestMessage(TEST_WALLETS.USER2, "confirm import"), undefined, undefined, callback.call.bind(callback));
+      expectCallbackToContain(callback, "There's no import waiting for your confirmation");
+
+      await importNamesAction.handler(runtime, createTestMessage(TEST_WALLETS.USER1, "confirm import"), undefined, undefined, callback.call.bind(callback));
+      expectCallbackToContain(callback, "Now tracking 2 names: second.eth, mydomain.eth");
+      expect(mockDatabaseService.getStats().reminders).toBe(2);
+    });
+
+    test("should not confirm a preview once it has expired", async () => {
+      const clock = new FakeClock();
+      setClock(clock);
+      await preview();
+      clock.advance(PENDING_IMPORT_TTL_MS);
+
+      await importNamesAction.handler(runtime, createTestMessage(TEST_WALLETS.USER1, "confirm import"), undefined, undefined, callback.call.bind(callback));
+
+      expectCallbackToContain(callback, "or it has expired");
+      expect(mockDatabaseService.getStats().reminders).toBe(0);
+    });
+
+    test("should say when a wallet holds no names", async () => {
+      const message = createTestMessage(TEST_WALLETS.USER3, "track all my names");
+
+      await importNamesAction.handler(runtime, message, undefined, undefined, callback.call.bind(callback));
+
+      expectCallbackToContain(callback, "didn't find any .eth names held by your wallet");
+    });
+  });
+
   describe("Error Handling", () => {
     test("should handle database connection errors gracefully", async () => {
       // Simulate database error by clearing the runtime settings
@@ -266,6 +715,7 @@ describe("ENS Reminder Plugin", () => {
 
     test("should handle network errors gracefully", async () => {
       // Test with invalid RPC URL
+      runtime.setSetting("ENS_DATA_SOURCE", "rpc");
       runtime.setSetting("ETHEREUM_RPC_URL", "invalid-url");
 
       const checkExpiryAction = ensReminderPlugin.actions.find(action => action.name === "CHECK_EXPIRY");
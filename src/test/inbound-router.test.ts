@@ -0,0 +1,110 @@
+/**
+ * Test suite for the inbound message router
+ */
+
+import { HELP_TEXT, InboundMessageRouter } from "../services/inbound-router";
+import { mockXMTPService } from "../services/mock-xmtp";
+import { mockDatabaseService } from "../services/mock-database";
+import { inboundActions } from "../plugins/ens-reminder-plugin";
+import { createTestRuntime, resetAllServices, sleep, TEST_WALLETS } from "./test-utils";
+
+async function waitForReplies(count: number): Promise<void> {
+  for (let attempt = 0; attempt < 100 && mockXMTPService.getSentMessages().length < count; attempt++) {
+    await sleep(10);
+  }
+}
+
+describe("Inbound Message Router", () => {
+  let router: InboundMessageRouter;
+
+  beforeEach(async () => {
+    resetAllServices();
+    await mockXMTPService.connect();
+    router = new InboundMessageRouter({
+      runtime: createTestRuntime(),
+      transport: mockXMTPService,
+      actions: inboundActions
+    });
+  });
+
+  afterEach(async () => {
+    await router.stop();
+    await mockXMTPService.disconnect();
+  });
+
+  test("should set a reminder from a DM and reply to the sender", async () => {
+    router.start();
+
+    await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "Remind me about vitalik.eth");
+    await waitForReplies(1);
+
+    const reply = mockXMTPService.getLastMessageTo(TEST_WALLETS.USER1);
+    expect(reply!.content).toContain("Reminder set for \"vitalik.eth\"");
+    expect(reply!.conversation).toBe((await mockXMTPService.getMessages(TEST_WALLETS.USER1))[0].conversation);
+
+    const result: any = await mockDatabaseService.from('reminders').select().eq('domain', 'vitalik.eth');
+    expect(result.data[0].wallet_address).toBe(TEST_WALLETS.USER1);
+  });
+
+  test("should handle messages from several senders in order", async () => {
+    router.start();
+
+    await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "Check when ethereum.eth expires");
+    await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER2, "Show my reminders");
+    await waitForReplies(2);
+
+    expect(mockXMTPService.getLastMessageTo(TEST_WALLETS.USER1)!.content).toContain("ethereum.eth");
+    expect(mockXMTPService.getLastMessageTo(TEST_WALLETS.USER2)!.content).toContain("don't have any");
+  });
+
+  test("should route stop requests to REMOVE_REMINDER before SET_REMINDER", async () => {
+    await router.handleMessage(await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "Remind me about vitalik.eth"));
+
+    const replies = await router.handleMessage(
+      await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "Stop reminding me about vitalik.eth")
+    );
+
+    expect(replies[0]).toContain("Stopped tracking");
+  });
+
+  test("should route reminder listings and expiry checks past SET_REMINDER", async () => {
+    await router.handleMessage(await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "Remind me about vitalik.eth"));
+
+    for (const text of ["list my ENS reminders", "show my tracked domains", "which domains are you tracking?"]) {
+      const replies = await router.handleMessage(await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, text));
+      expect(replies[0]).toContain("vitalik.eth");
+      expect(replies[0]).not.toContain("Please specify a valid ENS domain");
+    }
+
+    const replies = await router.handleMessage(
+      await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "check ethereum.eth and show reminders")
+    );
+    expect(replies[0]).toContain("ethereum.eth");
+    const result: any = await mockDatabaseService.from('reminders').select().eq('domain', 'ethereum.eth');
+    expect(result.data).toEqual([]);
+  });
+
+  test("should use the sender address as the entity", async () => {
+    await router.handleMessage(await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER2, "Track ethereum.eth"));
+
+    const replies = await router.handleMessage(await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "List my reminders"));
+    expect(replies[0]).not.toContain("ethereum.eth");
+  });
+
+  test("should reply with help for unrecognised messages", async () => {
+    const replies = await router.handleMessage(await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "gm"));
+
+    expect(replies).toEqual([HELP_TEXT]);
+    expect(mockXMTPService.wasMessageSentTo(TEST_WALLETS.USER1, "I can help you")).toBe(true);
+  });
+
+  test("should stop listening when stopped", async () => {
+    router.start();
+    await router.stop();
+
+    await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "List my reminders");
+    await sleep(50);
+
+    expect(mockXMTPService.getSentMessages()).toHaveLength(0);
+  });
+});
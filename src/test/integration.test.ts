@@ -132,6 +132,8 @@ describe("Integration Tests - Complete User Journeys", () => {
                 // Record the sent reminder
                 await mockDatabaseService.from('sent_reminders').insert({
                   reminder_id: reminder.id,
+                  wallet_address: reminder.wallet_address,
+                  domain: reminder.domain,
                   sent_at: new Date().toISOString(),
                   reminder_type: `day_${daysUntilExpiry}` as 'day_30' | 'day_7' | 'day_1'
                 });
@@ -0,0 +1,149 @@
+/**
+ * Test suite for the messaging transports
+ */
+
+import { MessageQueue, MessagingTransport } from "../services/messaging-transport";
+import { mockXMTPService } from "../services/mock-xmtp";
+import { XmtpTransport } from "../services/xmtp-transport";
+import { getMessagingTransport, ReminderService } from "../services/reminder-service";
+import { createTestRuntime, resetAllServices, TEST_WALLETS } from "./test-utils";
+
+describe("Message Queue", () => {
+  test("should deliver pushed items in order", async () => {
+    const queue = new MessageQueue<number>();
+    queue.push(1);
+    queue.push(2);
+
+    expect(await queue.next()).toEqual({ value: 1, done: false });
+    expect(await queue.next()).toEqual({ value: 2, done: false });
+  });
+
+  test("should resolve waiting consumers when an item arrives", async () => {
+    const queue = new MessageQueue<string>();
+    const pending = queue.next();
+
+    queue.push("hello");
+
+    expect(await pending).toEqual({ value: "hello", done: false });
+  });
+
+  test("should end iteration when closed", async () => {
+    const onClose = jest.fn();
+    const queue = new MessageQueue<string>(onClose);
+    queue.push("last");
+    queue.close();
+
+    const received: string[] = [];
+    for await (const item of queue) {
+      received.push(item);
+    }
+
+    expect(received).toEqual(["last"]);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Mock XMTP transport", () => {
+  beforeEach(async () => {
+    resetAllServices();
+    await mockXMTPService.connect();
+  });
+
+  afterEach(async () => {
+    await mockXMTPService.disconnect();
+  });
+
+  test("should conform to the messaging transport interface", () => {
+    const transport: MessagingTransport = mockXMTPService;
+    expect(transport.kind).toBe("mock");
+    expect(transport.isReady()).toBe(true);
+  });
+
+  test("should stream incoming messages", async () => {
+    const stream = mockXMTPService.streamIncoming();
+
+    await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "list my reminders");
+    await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER2, "check vitalik.eth");
+
+    const first = await stream.next();
+    const second = await stream.next();
+    expect(first.value.sender).toBe(TEST_WALLETS.USER1);
+    expect(first.value.content).toBe("list my reminders");
+    expect(second.value.sender).toBe(TEST_WALLETS.USER2);
+  });
+
+  test("should not stream outgoing messages", async () => {
+    const stream = mockXMTPService.streamIncoming();
+
+    await mockXMTPService.sendMessage(TEST_WALLETS.USER1, "reminder");
+    await mockXMTPService.simulateIncomingMessage(TEST_WALLETS.USER1, "thanks");
+
+    expect((await stream.next()).value.content).toBe("thanks");
+  });
+
+  test("should end incoming streams on disconnect", async () => {
+    const stream = mockXMTPService.streamIncoming();
+    const pending = stream.next();
+
+    await mockXMTPService.disconnect();
+
+    expect(await pending).toEqual({ value: undefined, done: true });
+  });
+
+  test("should refuse to stream when disconnected", async () => {
+    await mockXMTPService.disconnect();
+
+    expect(() => mockXMTPService.streamIncoming()).toThrow("XMTP service not connected");
+  });
+});
+
+describe("XMTP transport", () => {
+  test("should require a private key to connect", async () => {
+    const transport = new XmtpTransport({ environment: "production" });
+
+    await expect(transport.connect()).rejects.toThrow("XMTP_PRIVATE_KEY is required");
+    expect(transport.isReady()).toBe(false);
+  });
+
+  test("should refuse to send before connecting", async () => {
+    const transport = new XmtpTransport({ privateKey: "0x" + "11".repeat(32) });
+
+    await expect(transport.sendMessage(TEST_WALLETS.USER1, "hi")).rejects.toThrow("XMTP service not connected");
+  });
+});
+
+describe("Transport selection", () => {
+  test("should use the mock XMTP service in mock mode", () => {
+    expect(getMessagingTransport(createTestRuntime())).toBe(mockXMTPService);
+  });
+
+  test("should use XMTP outside mock mode", () => {
+    const runtime = createTestRuntime();
+    runtime.setSetting("SUPABASE_URL", "https://example.supabase.co");
+    runtime.setSetting("XMTP_PRIVATE_KEY", "0x" + "11".repeat(32));
+
+    expect(getMessagingTransport(runtime)).toBeInstanceOf(XmtpTransport);
+  });
+
+  test("should send reminders through an injected transport", async () => {
+    const transport = new XmtpTransport({});
+    jest.spyOn(transport, "getAddress").mockReturnValue("0xbot");
+    const sendMessage = jest.spyOn(transport, "sendMessage").mockResolvedValue({
+      id: "msg_1",
+      sender: "0xbot",
+      recipient: TEST_WALLETS.USER1,
+      content: "",
+      timestamp: new Date(),
+      conversation: "conv_1"
+    });
+    const service = new ReminderService({ runtime: createTestRuntime(), enableCron: false, transport });
+
+    const sent = await service.sendReminder(TEST_WALLETS.USER1, "test.eth", {
+      state: "active",
+      daysUntilExpiry: 7
+    } as any);
+
+    expect(sent).toBe(true);
+    expect(sendMessage).toHaveBeenCalledWith(TEST_WALLETS.USER1, expect.stringContaining("expires in 7 days"));
+  });
+});
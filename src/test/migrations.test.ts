@@ -0,0 +1,218 @@
+/**
+ * Test suite for the schema migrations
+ */
+
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getPendingMigrations,
+  getRollbackMigrations,
+  MigrationError,
+  MigrationRunner,
+  renderOperation
+} from "../services/migration-runner";
+import { MockDatabaseService, MockMigrationStore } from "../services/mock-database";
+import { closeSqliteDatabases, openSqliteDatabase, SqliteDatabase, SqliteMigrationStore } from "../services/sqlite-database";
+import { MIGRATIONS } from "../migrations";
+import { ColumnDefinition, Migration, NOW } from "../migrations/types";
+import { TEST_WALLETS } from "./test-utils";
+
+const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function columnNames(db: SqliteDatabase, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(column => column.name);
+}
+
+describe("Schema Migrations", () => {
+  test("should number migrations consecutively from 1", () => {
+    expect(MIGRATIONS.map(migration => migration.version)).toEqual(MIGRATIONS.map((_, index) => index + 1));
+  });
+
+  describe("Planning", () => {
+    const migrations = MIGRATIONS.slice(0, 3);
+
+    test("should list pending migrations in order up to a target", () => {
+      expect(getPendingMigrations(migrations, [1]).map(migration => migration.version)).toEqual([2, 3]);
+      expect(getPendingMigrations(migrations, [], 2).map(migration => migration.version)).toEqual([1, 2]);
+      expect(getPendingMigrations(migrations, [1, 2, 3])).toEqual([]);
+    });
+
+    test("should roll back the newest migrations first", () => {
+      expect(getRollbackMigrations(migrations, [1, 2, 3], 2).map(migration => migration.version)).toEqual([3, 2]);
+      expect(getRollbackMigrations(migrations, [], 1)).toEqual([]);
+    });
+
+    test("should refuse to roll back migrations this codebase doesn't define", () => {
+      expect(() => getRollbackMigrations(migrations, [1, 2, 3, 9], 1)).toThrow(MigrationError);
+    });
+  });
+
+  describe("SQL rendering", () => {
+    const column: ColumnDefinition = { name: "created_at", type: "timestamp", default: NOW };
+
+    test("should render columns for each dialect", () => {
+      expect(renderOperation({ type: "add_column", table: "reminders", column }, "postgres")).toEqual([
+        "ALTER TABLE reminders ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()"
+      ]);
+      expect(renderOperation({ type: "add_column", table: "reminders", column }, "sqlite")).toEqual([
+        "ALTER TABLE reminders ADD COLUMN created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))"
+      ]);
+    });
+
+    test("should render JSON and boolean defaults", () => {
+      const operation = {
+        type: "create_table" as const,
+        table: "settings",
+        columns: [
+          { name: "intervals", type: "json" as const, default: "[30, 7, 1]" },
+          { name: "enabled", type: "boolean" as const, default: true }
+        ]
+      };
+
+      expect(renderOperation(operation, "postgres")[0]).toContain("intervals JSONB DEFAULT '[30, 7, 1]'::jsonb");
+      expect(renderOperation(operation, "sqlite")[0]).toContain("enabled INTEGER DEFAULT 1");
+    });
+
+    test("should only render raw SQL for its dialect", () => {
+      const operation = { type: "sql" as const, postgres: "ALTER TABLE reminders ENABLE ROW LEVEL SECURITY" };
+
+      expect(renderOperation(operation, "postgres")).toHaveLength(1);
+      expect(renderOperation(operation, "sqlite")).toEqual([]);
+    });
+  });
+
+  describe("Mock database", () => {
+    let database: MockDatabaseService;
+    let runner: MigrationRunner;
+
+    beforeEach(() => {
+      database = new MockDatabaseService();
+      runner = new MigrationRunner(new MockMigrationStore(database));
+    });
+
+    test("should apply every migration when created", async () => {
+      const status = await runner.status();
+
+      expect(status.map(migration => migration.version)).toEqual(MIGRATIONS.map(migration => migration.version));
+      expect(status.every(migration => migration.applied_at !== null)).toBe(true);
+      expect(await runner.migrate()).toEqual([]);
+    });
+
+    test("should drop unique keys when their migration is rolled back", async () => {
+      const reminder = { domain: "vitalik.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: "2030-01-01T00:00:00.000Z" };
+      await database.from("reminders").insert(reminder);
+      expect((await database.from("reminders").insert(reminder)).error).toMatchObject({ code: "23505" });
+
+      const rolledBack = await runner.rollback(LATEST_VERSION - 2);
+
+      expect(rolledBack[rolledBack.length - 1].version).toBe(3);
+      expect((await database.from("reminders").insert(reminder)).error).toBeNull();
+      expect((await runner.status()).filter(migration => migration.applied_at === null)).toHaveLength(LATEST_VERSION - 2);
+    });
+
+    test("should drop and restore tables", async () => {
+      await runner.rollback(LATEST_VERSION);
+      expect((await database.from("reminders").select("*")).error).toMatchObject({ message: "Unknown table: reminders" });
+
+      await runner.migrate();
+      expect((await database.from("reminders").select("*")).data).toEqual([]);
+    });
+
+    test("should fill added columns with their defaults", async () => {
+      await runner.rollback(LATEST_VERSION - 1);
+      await database.from("reminders").insert({ domain: "vitalik.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: "2030-01-01T00:00:00.000Z" });
+
+      await runner.migrate(2);
+
+      const { data } = await database.from("reminders").select("reminder_intervals").eq("domain", "vitalik.eth").single();
+      expect(data.reminder_intervals).toBe("[30, 7, 1]");
+    });
+
+    test("should re-apply migrations on reset", async () => {
+      await runner.rollback(LATEST_VERSION);
+
+      database.reset();
+
+      expect(database.getAppliedMigrations()).toHaveLength(MIGRATIONS.length);
+    });
+  });
+
+  describe("SQLite", () => {
+    let directory: string;
+    let filename: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), "ens-migrations-"));
+      filename = join(directory, "reminders.db");
+    });
+
+    afterEach(() => {
+      closeSqliteDatabases();
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    test("should apply the same migrations as the mock database when opened", async () => {
+      const db = openSqliteDatabase(filename);
+      const sqliteStatus = await new MigrationRunner(new SqliteMigrationStore(db)).status();
+      const mockStatus = await new MigrationRunner(new MockMigrationStore(new MockDatabaseService())).status();
+
+      expect(sqliteStatus.map(({ version, name }) => ({ version, name }))).toEqual(mockStatus.map(({ version, name }) => ({ version, name })));
+      expect(sqliteStatus.every(migration => migration.applied_at !== null)).toBe(true);
+      expect(columnNames(db, "sent_reminders")).toContain("message_id");
+    });
+
+    test("should leave migrations to the caller when asked", async () => {
+      const db = openSqliteDatabase(filename, { migrate: false });
+      const runner = new MigrationRunner(new SqliteMigrationStore(db));
+
+      expect((await runner.status()).every(migration => migration.applied_at === null)).toBe(true);
+
+      await runner.migrate(2);
+
+      expect(columnNames(db, "reminders")).toContain("reminder_intervals");
+      expect(columnNames(db, "sent_reminders")).not.toContain("message_id");
+    });
+
+    test("should roll back and re-apply migrations", async () => {
+      const db = openSqliteDatabase(filename);
+      const runner = new MigrationRunner(new SqliteMigrationStore(db));
+
+      await runner.rollback(LATEST_VERSION - 1);
+      expect(columnNames(db, "reminders")).not.toContain("reminder_intervals");
+
+      await runner.migrate();
+      expect(columnNames(db, "reminders")).toContain("reminder_intervals");
+      expect((await runner.status()).map(migration => migration.applied_at !== null)).toEqual(MIGRATIONS.map(() => true));
+    });
+
+    test("should roll back a failed migration entirely", async () => {
+      const db = openSqliteDatabase(filename);
+      const broken: Migration = {
+        version: LATEST_VERSION + 1,
+        name: "broken",
+        up: [
+          { type: "add_column", table: "reminders", column: { name: "notes", type: "text" } },
+          { type: "sql", sqlite: "ALTER TABLE missing ADD COLUMN notes TEXT" }
+        ],
+        down: []
+      };
+      const runner = new MigrationRunner(new SqliteMigrationStore(db), [...MIGRATIONS, broken]);
+
+      await expect(runner.migrate()).rejects.toThrow(`Migration ${String(broken.version).padStart(3, "0")} failed`);
+
+      expect(columnNames(db, "reminders")).not.toContain("notes");
+      expect((await runner.status()).find(migration => migration.version === broken.version)?.applied_at).toBeNull();
+    });
+
+    test("should report applied migrations this codebase doesn't define", async () => {
+      const db = openSqliteDatabase(filename);
+      const runner = new MigrationRunner(new SqliteMigrationStore(db), MIGRATIONS.slice(0, 1));
+
+      const status = await runner.status();
+
+      expect(status.filter(migration => migration.unknown).map(migration => migration.version)).toEqual(MIGRATIONS.slice(1).map(migration => migration.version));
+      await expect(runner.rollback()).rejects.toThrow(MigrationError);
+    });
+  });
+});
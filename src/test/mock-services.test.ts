@@ -4,8 +4,11 @@
 
 import { mockXMTPService } from "../services/mock-xmtp";
 import { mockCronService } from "../services/mock-cron";
-import { mockDatabaseService, ReminderRecord } from "../services/mock-database";
-import { sleep, TEST_WALLETS } from "./test-utils";
+import { FakeClock, getClock, resetClock, setClock } from "../services/clock";
+import { mockDatabaseService } from "../services/mock-database";
+import { ReminderInput } from "../services/repositories";
+import { mockEnsDataSource } from "../services/mock-ens";
+import { sleep, TEST_WALLETS, ENS_FIXTURE_PATH } from "./test-utils";
 
 describe("Mock Services", () => {
   beforeEach(() => {
@@ -13,6 +16,13 @@ describe("Mock Services", () => {
     mockXMTPService.reset();
     mockCronService.reset();
     mockDatabaseService.reset();
+    mockEnsDataSource.reset();
+  });
+
+  afterAll(async () => {
+    // Tests start the polling loop and connection themselves; don't leave them running if one failed midway
+    mockCronService.stop();
+    await mockXMTPService.disconnect();
   });
 
   describe("Mock XMTP Service", () => {
@@ -182,9 +192,35 @@ describe("Mock Services", () => {
       await sleep(200);
       
       expect(callback).toHaveBeenCalled();
-      
+
       mockCronService.stop();
     });
+
+    test("should run due jobs when the clock is advanced", async () => {
+      const clock = new FakeClock(new Date("2030-01-02T10:00:00.000Z"));
+      setClock(clock);
+
+      try {
+        const callback = jest.fn();
+        const job = mockCronService.schedule("test-job", "0 9 * * *", callback);
+        const nextRun = job.nextRun!;
+
+        await mockCronService.advanceTime(1000);
+        expect(callback).not.toHaveBeenCalled();
+        expect(clock.now().toISOString()).toBe("2030-01-02T10:00:01.000Z");
+
+        await mockCronService.advanceTime(nextRun.getTime() - mockCronService.now().getTime());
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(job.lastRun!.getTime()).toBeGreaterThanOrEqual(nextRun.getTime());
+        expect(getClock().now()).toEqual(mockCronService.now());
+      } finally {
+        resetClock();
+      }
+    });
+
+    test("should only advance a FakeClock", async () => {
+      await expect(mockCronService.advanceTime(1000)).rejects.toThrow("advanceTime() needs a FakeClock");
+    });
   });
 
   describe("Mock Database Service", () => {
@@ -194,7 +230,7 @@ describe("Mock Services", () => {
     });
 
     test("should insert reminders", async () => {
-      const reminderData: ReminderRecord = {
+      const reminderData: ReminderInput = {
         domain: "newdomain.eth",
         wallet_address: TEST_WALLETS.USER1,
         expiry_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
@@ -202,18 +238,34 @@ describe("Mock Services", () => {
         created_at: new Date().toISOString()
       };
 
-      const result = mockDatabaseService.from('reminders').insert(reminderData);
-      
-      result.then((insertResult: any) => {
-        expect(insertResult.error).toBeNull();
-        expect(insertResult.data.domain).toBe("newdomain.eth");
-        expect(insertResult.data.id).toBeTruthy();
-      });
+      const insertResult = await mockDatabaseService.from('reminders').insert(reminderData).select().single();
+
+      expect(insertResult.error).toBeNull();
+      expect(insertResult.data.domain).toBe("newdomain.eth");
+      expect(insertResult.data.id).toBeTruthy();
+    });
+
+    test("should return no data from mutations without select(), like Supabase", async () => {
+      const reminderData: ReminderInput = {
+        domain: "unselected.eth",
+        wallet_address: TEST_WALLETS.USER1,
+        expiry_date: new Date().toISOString()
+      };
+
+      const results = [
+        await mockDatabaseService.from('reminders').insert(reminderData),
+        await mockDatabaseService.from('reminders').upsert(reminderData, { onConflict: 'wallet_address,domain' }),
+        await mockDatabaseService.from('reminders').update({ tracking_mode: 'watch' }).eq('domain', "unselected.eth"),
+        await mockDatabaseService.from('reminders').delete().eq('domain', "unselected.eth")
+      ];
+
+      expect(results.map(result => [result.data, result.error])).toEqual(Array(4).fill([null, null]));
+      expect(mockDatabaseService.getStats().reminders).toBe(0);
     });
 
     test("should select reminders by wallet address", async () => {
       // Insert a test reminder
-      const reminderData: ReminderRecord = {
+      const reminderData: ReminderInput = {
         domain: "test-select.eth",
         wallet_address: TEST_WALLETS.USER1,
         expiry_date: new Date().toISOString(),
@@ -221,23 +273,21 @@ describe("Mock Services", () => {
         created_at: new Date().toISOString()
       };
 
-      mockDatabaseService.from('reminders').insert(reminderData);
+      await mockDatabaseService.from('reminders').insert(reminderData);
 
       // Query for the reminder
-      const result = mockDatabaseService.from('reminders').select();
-      result.eq('wallet_address', TEST_WALLETS.USER1).then((queryResult: any) => {
-        expect(queryResult.error).toBeNull();
-        expect(queryResult.data).toBeTruthy();
-        expect(queryResult.data.length).toBeGreaterThan(0);
-        
-        const reminder = queryResult.data.find((r: any) => r.domain === "test-select.eth");
-        expect(reminder).toBeTruthy();
-      });
+      const queryResult = await mockDatabaseService.from('reminders').select().eq('wallet_address', TEST_WALLETS.USER1);
+      expect(queryResult.error).toBeNull();
+      expect(queryResult.data).toBeTruthy();
+      expect(queryResult.data.length).toBeGreaterThan(0);
+
+      const reminder = queryResult.data.find((r: any) => r.domain === "test-select.eth");
+      expect(reminder).toBeTruthy();
     });
 
     test("should update reminders", async () => {
       // Insert a reminder first
-      const reminderData: ReminderRecord = {
+      const reminderData: ReminderInput = {
         domain: "update-test.eth",
         wallet_address: TEST_WALLETS.USER1,
         expiry_date: new Date().toISOString(),
@@ -245,26 +295,22 @@ describe("Mock Services", () => {
         created_at: new Date().toISOString()
       };
 
-      const insertResult = mockDatabaseService.from('reminders').insert(reminderData);
-      
-      insertResult.then((result: any) => {
-        const reminderId = result.data.id;
-        
-        // Update the reminder
-        const updateResult = mockDatabaseService.from('reminders').update({
-          reminders_sent: JSON.stringify([30])
-        });
-        
-        updateResult.eq('id', reminderId).then((updateRes: any) => {
-          expect(updateRes.error).toBeNull();
-          expect(updateRes.data.count).toBe(1);
-        });
-      });
+      const result = await mockDatabaseService.from('reminders').insert(reminderData).select().single();
+      const reminderId = result.data.id;
+
+      // Update the reminder
+      const updateRes = await mockDatabaseService.from('reminders').update({
+        reminders_sent: JSON.stringify([30])
+      }).eq('id', reminderId).select();
+
+      expect(updateRes.error).toBeNull();
+      expect(updateRes.data).toHaveLength(1);
+      expect(updateRes.data[0].reminders_sent).toBe(JSON.stringify([30]));
     });
 
     test("should delete reminders", async () => {
       // Insert a reminder first
-      const reminderData: ReminderRecord = {
+      const reminderData: ReminderInput = {
         domain: "delete-test.eth",
         wallet_address: TEST_WALLETS.USER1,
         expiry_date: new Date().toISOString(),
@@ -272,19 +318,52 @@ describe("Mock Services", () => {
         created_at: new Date().toISOString()
       };
 
-      mockDatabaseService.from('reminders').insert(reminderData);
+      await mockDatabaseService.from('reminders').insert(reminderData);
 
       // Delete the reminder
-      const deleteResult = mockDatabaseService.from('reminders').delete();
-      deleteResult.eq('domain', 'delete-test.eth').then((result: any) => {
-        expect(result.error).toBeNull();
-        expect(result.data.count).toBe(1);
-      });
+      const result = await mockDatabaseService.from('reminders').delete().eq('domain', 'delete-test.eth').select();
+      expect(result.error).toBeNull();
+      expect(result.data).toHaveLength(1);
+    });
+
+    test("should enforce the unique wallet and domain key on insert", async () => {
+      const reminderData: ReminderInput = {
+        domain: "unique.eth",
+        wallet_address: TEST_WALLETS.USER1,
+        expiry_date: new Date().toISOString(),
+        reminders_sent: JSON.stringify([]),
+        created_at: new Date().toISOString()
+      };
+
+      const first: any = await mockDatabaseService.from('reminders').insert(reminderData);
+      const second: any = await mockDatabaseService.from('reminders').insert(reminderData);
+
+      expect(first.error).toBeNull();
+      expect(second.error.code).toBe('23505');
+      expect(mockDatabaseService.getStats().reminders).toBe(1);
+    });
+
+    test("should upsert on conflict columns", async () => {
+      const reminderData = {
+        domain: "upsert.eth",
+        wallet_address: TEST_WALLETS.USER1,
+        expiry_date: "2030-01-01T00:00:00.000Z"
+      };
+
+      const inserted: any = await mockDatabaseService.from('reminders')
+        .upsert(reminderData, { onConflict: 'wallet_address,domain' }).select().single();
+      const updated: any = await mockDatabaseService.from('reminders')
+        .upsert({ ...reminderData, expiry_date: "2031-01-01T00:00:00.000Z" }, { onConflict: 'wallet_address,domain' }).select().single();
+
+      expect(updated.error).toBeNull();
+      expect(updated.data.id).toBe(inserted.data.id);
+      expect(updated.data.expiry_date).toBe("2031-01-01T00:00:00.000Z");
+      expect(mockDatabaseService.getStats().reminders).toBe(1);
     });
 
     test("should handle complex queries", async () => {
       // Insert multiple reminders
-      const reminder1: ReminderRecord = {
+      const reminder1: ReminderInput = {
         domain: "domain1.eth",
         wallet_address: TEST_WALLETS.USER1,
         expiry_date: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString(), // 5 days
@@ -292,7 +371,7 @@ describe("Mock Services", () => {
         created_at: new Date().toISOString()
       };
 
-      const reminder2: ReminderRecord = {
+      const reminder2: ReminderInput = {
         domain: "domain2.eth",
         wallet_address: TEST_WALLETS.USER1,
         expiry_date: new Date(Date.now() + 35 * 24 * 60 * 60 * 1000).toISOString(), // 35 days
@@ -300,22 +379,21 @@ describe("Mock Services", () => {
         created_at: new Date().toISOString()
       };
 
-      mockDatabaseService.from('reminders').insert(reminder1);
-      mockDatabaseService.from('reminders').insert(reminder2);
+      await mockDatabaseService.from('reminders').insert(reminder1);
+      await mockDatabaseService.from('reminders').insert(reminder2);
 
       // Query for expiring soon (less than 30 days)
       const soonDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
-      
-      const result = mockDatabaseService.from('reminders').select();
-      // Note: This is a simplified test - real implementation would use proper date comparison
-      expect(result).toBeTruthy();
+
+      const result = await mockDatabaseService.from('reminders').select().lt('expiry_date', soonDate);
+      expect(result.data.map((reminder: any) => reminder.domain)).toEqual(["domain1.eth"]);
     });
 
-    test("should provide accurate statistics", () => {
+    test("should provide accurate statistics", async () => {
       const initialStats = mockDatabaseService.getStats();
       
       // Insert some test data
-      mockDatabaseService.from('reminders').insert({
+      await mockDatabaseService.from('reminders').insert({
         domain: "stats-test.eth",
         wallet_address: TEST_WALLETS.USER1,
         expiry_date: new Date().toISOString(),
@@ -323,8 +401,10 @@ describe("Mock Services", () => {
         created_at: new Date().toISOString()
       });
 
-      mockDatabaseService.from('sent_reminders').insert({
+      await mockDatabaseService.from('sent_reminders').insert({
         reminder_id: 1,
+        wallet_address: TEST_WALLETS.USER1,
+        domain: "stats-test.eth",
         sent_at: new Date().toISOString(),
         reminder_type: 'day_30' as const
       });
@@ -333,6 +413,162 @@ describe("Mock Services", () => {
       expect(newStats.reminders).toBe(initialStats.reminders + 1);
       expect(newStats.sentReminders).toBe(initialStats.sentReminders + 1);
     });
+
+    describe("Query builder", () => {
+      beforeEach(async () => {
+        await mockDatabaseService.from('reminders').insert([
+          { domain: "a.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: "2030-03-01T00:00:00.000Z", reminders_sent: "[]", created_at: "2024-01-01T00:00:00.000Z" },
+          { domain: "b.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: "2030-01-01T00:00:00.000Z", reminders_sent: "[]", created_at: "2024-01-01T00:00:00.000Z" },
+          { domain: "c.eth", wallet_address: TEST_WALLETS.USER2, expiry_date: "2030-02-01T00:00:00.000Z", reminders_sent: "[]", created_at: "2024-01-01T00:00:00.000Z" }
+        ]);
+      });
+
+      test("should chain filters and ordering", async () => {
+        const result = await mockDatabaseService.from('reminders')
+          .select('domain')
+          .eq('wallet_address', TEST_WALLETS.USER1)
+          .gte('expiry_date', "2030-01-01T00:00:00.000Z")
+          .order('expiry_date', { ascending: false });
+
+        expect(result.error).toBeNull();
+        expect(result.data).toEqual([{ domain: "a.eth" }, { domain: "b.eth" }]);
+        expect(result.count).toBeNull();
+      });
+
+      test("should filter with in and neq", async () => {
+        const result = await mockDatabaseService.from('reminders')
+          .select('domain')
+          .in('domain', ["a.eth", "b.eth", "c.eth", "d.eth"])
+          .neq('expiry_date', "2030-01-01T00:00:00.000Z")
+          .order('domain');
+
+        expect(result.data).toEqual([{ domain: "a.eth" }, { domain: "c.eth" }]);
+      });
+
+      test("should paginate with limit and range", async () => {
+        const limited = await mockDatabaseService.from('reminders').select('domain').order('domain').limit(2);
+        const ranged = await mockDatabaseService.from('reminders').select('domain').order('domain').range(1, 2);
+
+        expect(limited.data).toEqual([{ domain: "a.eth" }, { domain: "b.eth" }]);
+        expect(ranged.data).toEqual([{ domain: "b.eth" }, { domain: "c.eth" }]);
+      });
+
+      test("should count matching rows independently of pagination", async () => {
+        const page = await mockDatabaseService.from('reminders')
+          .select('*', { count: 'exact' })
+          .eq('wallet_address', TEST_WALLETS.USER1)
+          .limit(1);
+        const head = await mockDatabaseService.from('reminders').select('*', { count: 'exact', head: true });
+
+        expect(page.data).toHaveLength(1);
+        expect(page.count).toBe(2);
+        expect(head.data).toBeNull();
+        expect(head.count).toBe(3);
+      });
+
+      test("should return single rows", async () => {
+        const single = await mockDatabaseService.from('reminders').select('domain').eq('domain', "c.eth").single();
+        const missing = await mockDatabaseService.from('reminders').select().eq('domain', "none.eth").maybeSingle();
+        const ambiguous = await mockDatabaseService.from('reminders').select().eq('wallet_address', TEST_WALLETS.USER1).single();
+
+        expect(single.data).toEqual({ domain: "c.eth" });
+        expect(missing).toEqual({ data: null, error: null, count: null });
+        expect(ambiguous.data).toBeNull();
+        expect(ambiguous.error.code).toBe('PGRST116');
+      });
+
+      test("should return affected rows when a mutation is followed by select", async () => {
+        const updated = await mockDatabaseService.from('reminders')
+          .update({ reminders_sent: "[30]" })
+          .eq('wallet_address', TEST_WALLETS.USER1)
+          .select('domain, reminders_sent');
+        const deleted = await mockDatabaseService.from('reminders').delete().lt('expiry_date', "2030-02-15T00:00:00.000Z").select('domain');
+
+        expect(updated.data).toEqual([
+          { domain: "a.eth", reminders_sent: "[30]" },
+          { domain: "b.eth", reminders_sent: "[30]" }
+        ]);
+        expect(deleted.data).toEqual([{ domain: "b.eth" }, { domain: "c.eth" }]);
+        expect(mockDatabaseService.getStats().reminders).toBe(1);
+      });
+
+      test("should run lazily, and again on every await", async () => {
+        const query = mockDatabaseService.from('sent_reminders').insert({
+          reminder_id: 1,
+          wallet_address: TEST_WALLETS.USER1,
+          domain: "test.eth",
+          sent_at: "2030-01-01T00:00:00.000Z",
+          reminder_type: 'day_30'
+        });
+        expect(mockDatabaseService.getStats().sentReminders).toBe(0);
+
+        await query;
+        await query;
+        expect(mockDatabaseService.getStats().sentReminders).toBe(2);
+      });
+
+      test("should behave like a promise", async () => {
+        const domains = await mockDatabaseService.from('reminders')
+          .select('domain')
+          .eq('domain', "a.eth")
+          .then(result => result.data.map((row: any) => row.domain));
+
+        expect(domains).toEqual(["a.eth"]);
+        await expect(Promise.all([
+          mockDatabaseService.from('reminders').select().limit(1),
+          mockDatabaseService.from('conversations').select()
+        ])).resolves.toHaveLength(2);
+      });
+    });
+  });
+
+  describe("Mock ENS Data Source", () => {
+    test("should serve seeded fixtures", async () => {
+      const expiry = await mockEnsDataSource.getExpiry("test.eth");
+      expect(expiry).toBeInstanceOf(Date);
+      expect(await mockEnsDataSource.getOwner("test.eth")).toBe("0xtest123");
+      expect(await mockEnsDataSource.getNameStatus("test.eth")).toBe("registered");
+    });
+
+    test("should treat unknown names as unregistered", async () => {
+      expect(await mockEnsDataSource.getExpiry("unknown.eth")).toBeNull();
+      expect(await mockEnsDataSource.getRegistrant("unknown.eth")).toBeNull();
+      expect(await mockEnsDataSource.getNameStatus("unknown.eth")).toBe("available");
+    });
+
+    test("should load fixtures from a JSON file", async () => {
+      mockEnsDataSource.loadFromFile(ENS_FIXTURE_PATH);
+
+      const expiry = await mockEnsDataSource.getExpiry("vitalik.eth");
+      expect(expiry!.toISOString()).toBe("2032-05-04T00:00:00.000Z");
+      expect(await mockEnsDataSource.getResolver("vitalik.eth")).toBe("0x231b0Ee14048e9dCcD1d247744d114a4EB5E8E63");
+      expect(mockEnsDataSource.getStats().fixturePath).toBe(ENS_FIXTURE_PATH);
+    });
+
+    test("should report names past their grace period as available", async () => {
+      mockEnsDataSource.setName("lapsed.eth", {
+        expiry: new Date(Date.now() - 120 * 24 * 60 * 60 * 1000).toISOString()
+      });
+
+      expect(await mockEnsDataSource.getNameStatus("lapsed.eth")).toBe("available");
+      expect(await mockEnsDataSource.getNameStatus("expired.eth")).toBe("registered");
+    });
+
+    test("should cap subname expiries by their parent", async () => {
+      mockEnsDataSource.loadFromFile(ENS_FIXTURE_PATH);
+
+      // Wrapped, with its own expiry before the parent's
+      expect((await mockEnsDataSource.getExpiry("pay.vitalik.eth"))!.toISOString()).toBe("2029-01-01T00:00:00.000Z");
+      expect(await mockEnsDataSource.getWrappedName("pay.vitalik.eth")).toMatchObject({ fuses: 65537 });
+
+      // Unwrapped, so it lasts as long as its parent
+      expect((await mockEnsDataSource.getExpiry("blog.vitalik.eth"))!.toISOString()).toBe("2032-05-04T00:00:00.000Z");
+      expect(await mockEnsDataSource.getWrappedName("blog.vitalik.eth")).toBeNull();
+
+      mockEnsDataSource.setName("long.pay.vitalik.eth", { expiry: "2040-01-01T00:00:00.000Z", fuses: 0 });
+      expect((await mockEnsDataSource.getExpiry("long.pay.vitalik.eth"))!.toISOString()).toBe("2029-01-01T00:00:00.000Z");
+      expect(await mockEnsDataSource.getExpiry("missing.vitalik.eth")).toBeNull();
+    });
   });
 
   describe("Service Integration", () => {
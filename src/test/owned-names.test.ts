@@ -0,0 +1,95 @@
+/**
+ * Test suite for finding the names a wallet holds
+ */
+
+import { ethers } from "ethers";
+import { ENS_REGISTRAR_ADDRESS, NAME_WRAPPER_ADDRESS } from "../services/ens-data-source";
+import { mockRegistrarLogSource } from "../services/mock-registrar-logs";
+import { RegistrarTransferNameSource } from "../services/owned-names";
+import { ETH_REGISTRAR_CONTROLLER_ADDRESS } from "../services/registrar-events";
+import { resetAllServices, TEST_WALLETS } from "./test-utils";
+
+const registrar = new ethers.Interface(["event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)"]);
+const nameWrapper = new ethers.Interface([
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+  "event NameWrapped(bytes32 indexed node, bytes name, address owner, uint32 fuses, uint64 expiry)"
+]);
+const controller = new ethers.Interface([
+  "event NameRegistered(string name, bytes32 indexed label, address indexed owner, uint256 baseCost, uint256 premium, uint256 expires)"
+]);
+
+let logIndex = 0;
+
+function addTransfer(label: string, from: string, to: string, blockNumber: number): void {
+  const { topics, data } = registrar.encodeEventLog("Transfer", [from, to, BigInt(ethers.id(label))]);
+  mockRegistrarLogSource.addLog({ address: ENS_REGISTRAR_ADDRESS, blockNumber, transactionHash: ethers.id(`${label}-${blockNumber}`), logIndex: logIndex++, topics, data });
+}
+
+function addRegistration(label: string, owner: string, blockNumber: number): void {
+  const { topics, data } = controller.encodeEventLog("NameRegistered", [label, ethers.id(label), owner, 0, 0, 2000000000]);
+  mockRegistrarLogSource.addLog({ address: ETH_REGISTRAR_CONTROLLER_ADDRESS, blockNumber, transactionHash: ethers.id(label), logIndex: logIndex++, topics, data });
+  addTransfer(label, ethers.ZeroAddress, owner, blockNumber);
+}
+
+function addWrapperLog(event: string, args: unknown[], blockNumber: number): void {
+  const { topics, data } = nameWrapper.encodeEventLog(event, args);
+  mockRegistrarLogSource.addLog({ address: NAME_WRAPPER_ADDRESS, blockNumber, transactionHash: ethers.id(`${event}-${blockNumber}`), logIndex: logIndex++, topics, data });
+}
+
+function addWrap(name: string, owner: string, blockNumber: number): void {
+  addWrapperLog("NameWrapped", [ethers.namehash(name), ethers.dnsEncode(name), owner, 0, 2000000000], blockNumber);
+  addWrapperLog("TransferSingle", [owner, ethers.ZeroAddress, owner, BigInt(ethers.namehash(name)), 1], blockNumber);
+}
+
+describe("Registrar Transfer Name Source", () => {
+  let source: RegistrarTransferNameSource;
+
+  beforeEach(() => {
+    resetAllServices();
+    source = new RegistrarTransferNameSource(mockRegistrarLogSource, { fromBlock: 100, maxBlockRange: 50 });
+  });
+
+  test("should find the names a wallet registered or received, and drop the ones it sent on", async () => {
+    addRegistration("kept", TEST_WALLETS.USER1, 110);
+    addRegistration("gift", TEST_WALLETS.USER2, 120);
+    addTransfer("gift", TEST_WALLETS.USER2, TEST_WALLETS.USER1, 180);
+    addRegistration("sold", TEST_WALLETS.USER1, 130);
+    addTransfer("sold", TEST_WALLETS.USER1, TEST_WALLETS.USER3, 240);
+
+    const names = await source.getOwnedNames(TEST_WALLETS.USER1);
+
+    expect(names.sort()).toEqual(["gift.eth", "kept.eth"]);
+    expect(await source.getOwnedNames(TEST_WALLETS.USER3)).toEqual(["sold.eth"]);
+  });
+
+  test("should skip tokens whose label was never seen in the controller logs", async () => {
+    addRegistration("named", TEST_WALLETS.USER1, 110);
+    addTransfer("unnamed", ethers.ZeroAddress, TEST_WALLETS.USER1, 115);
+
+    expect(await source.getOwnedNames(TEST_WALLETS.USER1)).toEqual(["named.eth"]);
+  });
+
+  test("should find wrapped names, which the NameWrapper holds in the registrar", async () => {
+    // Wrapping moves the registrar token to the NameWrapper, which mints its own token to the wallet
+    addRegistration("wrapped", TEST_WALLETS.USER1, 110);
+    addTransfer("wrapped", TEST_WALLETS.USER1, NAME_WRAPPER_ADDRESS, 150);
+    addWrap("wrapped.eth", TEST_WALLETS.USER1, 150);
+    addWrap("sub.wrapped.eth", TEST_WALLETS.USER1, 160);
+    addWrap("batched.eth", TEST_WALLETS.USER1, 170);
+    addWrapperLog("TransferBatch", [
+      TEST_WALLETS.USER1,
+      TEST_WALLETS.USER1,
+      TEST_WALLETS.USER2,
+      [BigInt(ethers.namehash("batched.eth")), BigInt(ethers.namehash("sub.wrapped.eth"))],
+      [1, 1]
+    ], 200);
+
+    expect(await source.getOwnedNames(TEST_WALLETS.USER1)).toEqual(["wrapped.eth"]);
+    expect((await source.getOwnedNames(TEST_WALLETS.USER2)).sort()).toEqual(["batched.eth", "sub.wrapped.eth"]);
+  });
+
+  test("should find nothing for senders that aren't addresses", async () => {
+    expect(await source.getOwnedNames("not-an-address")).toEqual([]);
+  });
+});
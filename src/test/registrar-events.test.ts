@@ -0,0 +1,171 @@
+/**
+ * Test suite for registrar event scanning
+ */
+
+import { ethers } from "ethers";
+import {
+  getEthLabelhash,
+  parseRegistrarLog,
+  REGISTRAR_SCAN_CURSOR,
+  RegistrarEvent,
+  RegistrarEventScanner
+} from "../services/registrar-events";
+import { mockRegistrarLogSource } from "../services/mock-registrar-logs";
+import { mockXMTPService } from "../services/mock-xmtp";
+import { createInMemoryRepositories, Repositories } from "../services/repositories";
+import { TrackingMode } from "../schema/records";
+import { ReminderService } from "../services/reminder-service";
+import { createTestRuntime, REGISTRAR_LOG_FIXTURE_PATH, resetAllServices, TEST_WALLETS } from "./test-utils";
+
+// Recorded logs sit in blocks 21500010-21500050, and the fixture's chain head is 21500100
+const BEFORE_FIXTURE_BLOCK = 21500000;
+
+describe("Registrar Events", () => {
+  let repositories: Repositories;
+
+  beforeEach(() => {
+    resetAllServices();
+    repositories = createInMemoryRepositories();
+    mockRegistrarLogSource.loadFromFile(REGISTRAR_LOG_FIXTURE_PATH);
+  });
+
+  test("should decode renewals and registrations from both controllers", async () => {
+    const logs = await mockRegistrarLogSource.getLogs({
+      address: ["0x253553366Da8546fC250F225fe3d25d0C782303b", "0x283Af0B28c62C092C9727F1Ee09c02CA627EB7F5"],
+      topics: [],
+      fromBlock: 0,
+      toBlock: 21500100
+    });
+
+    expect(logs.map(parseRegistrarLog)).toEqual([
+      expect.objectContaining({ type: "renewed", name: "vitalik", expires: new Date("2037-05-04T00:00:00.000Z"), blockNumber: 21500010 }),
+      expect.objectContaining({
+        type: "registered",
+        name: "fresh-name",
+        expires: new Date("2027-11-20T14:03:11.000Z"),
+        owner: ethers.getAddress("0xfe89cc7abb2c4183683ab71653c4cdc9b02d44b7")
+      }),
+      expect.objectContaining({ type: "renewed", name: "mydomain", labelhash: getEthLabelhash("mydomain.eth") })
+    ]);
+  });
+
+  test("should only compute labelhashes for second-level .eth names", () => {
+    expect(getEthLabelhash("Vitalik.eth")).toBe(getEthLabelhash("vitalik.eth"));
+    expect(getEthLabelhash("pay.vitalik.eth")).toBeNull();
+    expect(getEthLabelhash("vitalik.xyz")).toBeNull();
+  });
+
+  describe("Scanner", () => {
+    const collect = (events: RegistrarEvent[]) => async (batch: RegistrarEvent[]) => {
+      events.push(...batch);
+    };
+
+    test("should start from the confirmed chain head on the first scan", async () => {
+      const scanner = new RegistrarEventScanner(mockRegistrarLogSource, repositories.scanCursors);
+      const events: RegistrarEvent[] = [];
+
+      const result = await scanner.scan(collect(events));
+
+      expect(result).toMatchObject({ initialized: true, toBlock: 21500088 });
+      expect(events).toEqual([]);
+      expect(await repositories.scanCursors.getBlock(REGISTRAR_SCAN_CURSOR)).toBe(21500088);
+    });
+
+    test("should scan in block ranges and persist the last processed block", async () => {
+      await repositories.scanCursors.setBlock(REGISTRAR_SCAN_CURSOR, BEFORE_FIXTURE_BLOCK);
+      const getLogs = jest.spyOn(mockRegistrarLogSource, "getLogs");
+      const scanner = new RegistrarEventScanner(mockRegistrarLogSource, repositories.scanCursors, { maxBlockRange: 30, confirmations: 0 });
+      const events: RegistrarEvent[] = [];
+
+      const result = await scanner.scan(collect(events));
+      const ranges = getLogs.mock.calls.map(([filter]) => [filter.fromBlock, filter.toBlock]);
+      getLogs.mockRestore();
+
+      expect(ranges).toEqual([[21500001, 21500030], [21500031, 21500060], [21500061, 21500090], [21500091, 21500100]]);
+      expect(result).toEqual({ fromBlock: 21500001, toBlock: 21500100, events: 3, initialized: false });
+      expect(events.map(event => event.name)).toEqual(["vitalik", "fresh-name", "mydomain"]);
+      expect(await repositories.scanCursors.getBlock(REGISTRAR_SCAN_CURSOR)).toBe(21500100);
+
+      // Nothing new since the last scan
+      expect((await scanner.scan(collect(events))).events).toBe(0);
+    });
+
+    test("should resume from the last completed range when a handler fails", async () => {
+      await repositories.scanCursors.setBlock(REGISTRAR_SCAN_CURSOR, BEFORE_FIXTURE_BLOCK);
+      const scanner = new RegistrarEventScanner(mockRegistrarLogSource, repositories.scanCursors, { maxBlockRange: 30, confirmations: 0 });
+
+      await expect(scanner.scan(async events => {
+        if (events.some(event => event.name === "mydomain")) {
+          throw new Error("database unavailable");
+        }
+      })).rejects.toThrow("database unavailable");
+
+      expect(await repositories.scanCursors.getBlock(REGISTRAR_SCAN_CURSOR)).toBe(21500030);
+      const events: RegistrarEvent[] = [];
+      await scanner.scan(collect(events));
+      expect(events.map(event => event.name)).toEqual(["mydomain"]);
+    });
+  });
+
+  describe("Reminder sync", () => {
+    let service: ReminderService;
+
+    const seedReminder = async (domain: string, expiryDate: string, trackingMode: TrackingMode = 'owner') => {
+      await repositories.reminders.upsert({ domain, wallet_address: TEST_WALLETS.USER1, expiry_date: expiryDate, tracking_mode: trackingMode });
+    };
+
+    beforeEach(async () => {
+      await mockXMTPService.connect();
+      service = new ReminderService({
+        runtime: createTestRuntime(),
+        enableCron: false,
+        resyncBatchDelayMs: 0,
+        registrarScanner: new RegistrarEventScanner(mockRegistrarLogSource, repositories.scanCursors, { confirmations: 0 })
+      });
+    });
+
+    afterEach(async () => {
+      await mockXMTPService.disconnect();
+    });
+
+    test("should update tracked names from the events since the last sync", async () => {
+      await seedReminder("vitalik.eth", "2032-05-04T00:00:00.000Z", 'watch');
+      await seedReminder("mydomain.eth", "2031-01-15T00:00:00.000Z");
+      await seedReminder("untouched.eth", "2030-01-01T00:00:00.000Z");
+      await repositories.scanCursors.setBlock(REGISTRAR_SCAN_CURSOR, BEFORE_FIXTURE_BLOCK);
+
+      const result = await service.syncRegistrarEvents();
+
+      expect(result).toMatchObject({ checked: 2, updated: 1, renewed: 1 });
+      expect((await repositories.reminders.findByWalletAndDomain(TEST_WALLETS.USER1, "vitalik.eth"))?.expiry_date).toBe("2037-05-04T00:00:00.000Z");
+      expect(mockXMTPService.wasMessageSentTo(TEST_WALLETS.USER1, "\"vitalik.eth\" was renewed by its owner until")).toBe(true);
+      expect((await repositories.reminders.findByWalletAndDomain(TEST_WALLETS.USER1, "untouched.eth"))?.expiry_date).toBe("2030-01-01T00:00:00.000Z");
+    });
+
+    test("should tell the tracker when a released name is registered again by another account", async () => {
+      // fresh-name.eth is registered to 0xfe89…44b7 in the recorded logs
+      await seedReminder("fresh-name.eth", "2024-01-01T00:00:00.000Z");
+      await repositories.scanCursors.setBlock(REGISTRAR_SCAN_CURSOR, BEFORE_FIXTURE_BLOCK);
+
+      const result = await service.syncRegistrarEvents();
+
+      expect(result).toMatchObject({ reregistered: 1 });
+      const reminder = await repositories.reminders.findByWalletAndDomain(TEST_WALLETS.USER1, "fresh-name.eth");
+      expect(reminder).toMatchObject({ expiry_date: "2027-11-20T14:03:11.000Z", tracking_mode: "watch" });
+      expect(mockXMTPService.wasMessageSentTo(TEST_WALLETS.USER1, "\"fresh-name.eth\" was released and re-registered by another account")).toBe(true);
+      expect(mockXMTPService.wasMessageSentTo(TEST_WALLETS.USER1, "was renewed")).toBe(false);
+    });
+
+    test("should re-sync every expiry when there is no block to start from", async () => {
+      // The ENS fixtures have mydomain.eth expiring on 2030-01-15
+      await seedReminder("mydomain.eth", "2029-01-15T00:00:00.000Z");
+      const resync = jest.spyOn(service, "resyncExpiries");
+
+      await service.syncRegistrarEvents();
+
+      expect(resync).toHaveBeenCalledTimes(1);
+      expect(await repositories.scanCursors.getBlock(REGISTRAR_SCAN_CURSOR)).toBe(21500100);
+      expect((await repositories.reminders.findByWalletAndDomain(TEST_WALLETS.USER1, "mydomain.eth"))?.expiry_date).toBe("2030-01-15T00:00:00.000Z");
+    });
+  });
+});
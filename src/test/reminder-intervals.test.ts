@@ -0,0 +1,65 @@
+/**
+ * Test suite for reminder interval parsing and formatting
+ */
+
+import {
+  parseReminderIntervals,
+  parseStoredIntervals,
+  formatReminderIntervals,
+  getIntervalReminderType,
+  getReminderTypeInterval,
+  InvalidReminderIntervalError
+} from "../services/reminder-intervals";
+
+describe("Reminder Intervals", () => {
+  test.each([
+    ["remind me about foo.eth 60, 14 and 3 days before", [60, 14, 3]],
+    ["remind me about foo.eth 3, 60 & 14 days before", [60, 14, 3]],
+    ["remind me about foo.eth 60, 14, and 3 days before", [60, 14, 3]],
+    ["remind me about foo.eth 60, 14, & 3 days before", [60, 14, 3]],
+    ["track foo.eth 10 days before expiry", [10]],
+    ["remind me 7d before about foo.eth", [7]],
+    ["remind me about foo.eth 14 14 and 2 days prior", [14, 2]],
+    ["remind me about foo.eth at 30, 7 and 1 days before expiry", [30, 7, 1]],
+    ["remind me about foo.eth, it expires in 30 days", null],
+    ["remind me about foo.eth, 45 days left", null],
+    ["foo.eth expires in 90 days, remind me 5 days before", [5]],
+    ["remind me about domain12.eth", null],
+    ["remind me about vitalik.eth", null]
+  ])("should parse %p", (text, expected) => {
+    expect(parseReminderIntervals(text)).toEqual(expected);
+  });
+
+  test("should reject out of range intervals", () => {
+    expect(() => parseReminderIntervals("remind me about foo.eth 400 days before"))
+      .toThrow(InvalidReminderIntervalError);
+    expect(() => parseReminderIntervals("remind me about foo.eth 0 days before"))
+      .toThrow("between 1 and 365 days");
+    // Digits without a separator are one number, not 60 and 14
+    expect(() => parseReminderIntervals("remind me about foo.eth 6014 days before")).toThrow("got 6014");
+  });
+
+  test("should read stored intervals", () => {
+    expect(parseStoredIntervals("[1,30,7]")).toEqual([30, 7, 1]);
+    expect(parseStoredIntervals([14, 3])).toEqual([14, 3]);
+    expect(parseStoredIntervals(undefined)).toBeNull();
+    expect(parseStoredIntervals("[]")).toBeNull();
+    expect(parseStoredIntervals("not json")).toBeNull();
+  });
+
+  test("should format intervals for display", () => {
+    expect(formatReminderIntervals([30, 7, 1])).toBe("30, 7, and 1");
+    expect(formatReminderIntervals([60, 14])).toBe("60 and 14");
+    expect(formatReminderIntervals([5])).toBe("5");
+  });
+
+  test.each([[[60, 14, 3]], [[60, 14]], [[5]]])("should parse formatted intervals %p back", intervals => {
+    expect(parseReminderIntervals(`remind me about foo.eth ${formatReminderIntervals(intervals)} days before`)).toEqual(intervals);
+  });
+
+  test("should map intervals to reminder types", () => {
+    expect(getIntervalReminderType(14)).toBe("day_14");
+    expect(getReminderTypeInterval("day_60")).toBe(60);
+    expect(getReminderTypeInterval("grace_period")).toBeNull();
+  });
+});
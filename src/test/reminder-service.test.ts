@@ -0,0 +1,488 @@
+/**
+ * Test suite for the reminder service
+ */
+
+import { ReminderService } from "../services/reminder-service";
+import { mockXMTPService } from "../services/mock-xmtp";
+import { mockDatabaseService } from "../services/mock-database";
+import { mockCronService } from "../services/mock-cron";
+import { mockEnsDataSource } from "../services/mock-ens";
+import { NAME_WRAPPER_ADDRESS } from "../services/ens-data-source";
+import { ensReminderPlugin } from "../plugins/ens-reminder-plugin";
+import {
+  createTestCallback,
+  createTestMessage,
+  createTestRuntime,
+  resetAllServices,
+  TEST_WALLETS,
+  TimeTravelHarness
+} from "./test-utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function seedReminder(domain: string, expiryDate: Date, intervals?: number[], walletAddress: string = TEST_WALLETS.USER1): Promise<void> {
+  await mockDatabaseService.from('reminders').insert({
+    domain,
+    wallet_address: walletAddress,
+    expiry_date: expiryDate.toISOString(),
+    reminders_sent: JSON.stringify([]),
+    reminder_intervals: intervals ? JSON.stringify(intervals) : undefined,
+    created_at: new Date().toISOString()
+  });
+}
+
+describe("Reminder Service", () => {
+  let service: ReminderService;
+
+  beforeEach(async () => {
+    resetAllServices();
+    await mockXMTPService.connect();
+    service = new ReminderService({ runtime: createTestRuntime(), enableCron: false });
+  });
+
+  afterEach(async () => {
+    await mockXMTPService.disconnect();
+  });
+
+  describe("Lifecycle-driven reminders", () => {
+    test("should send a reminder on an interval day", async () => {
+      await seedReminder("soon.eth", new Date(Date.now() + 6.5 * DAY_MS));
+
+      await service.processReminders();
+
+      expect(mockXMTPService.wasMessageSentTo(TEST_WALLETS.USER1, "\"soon.eth\" expires in 7 days")).toBe(true);
+    });
+
+    test("should send a grace period notice once", async () => {
+      await seedReminder("lapsed.eth", new Date(Date.now() - 10 * DAY_MS));
+
+      await service.processReminders();
+      await service.processReminders();
+
+      const messages = mockXMTPService.getSentMessages();
+      expect(messages).toHaveLength(1);
+      expect(messages[0].content).toContain("is in the grace period until");
+    });
+
+    test("should send a premium auction notice once the grace period ends", async () => {
+      await seedReminder("released.eth", new Date(Date.now() - 95 * DAY_MS));
+
+      await service.processReminders();
+
+      expect(mockXMTPService.wasMessageSentTo(TEST_WALLETS.USER1, "temporary premium auction")).toBe(true);
+    });
+
+    test("should send an available notice once the premium auction ends", async () => {
+      await seedReminder("gone.eth", new Date(Date.now() - 200 * DAY_MS));
+
+      await service.processReminders();
+      await service.processReminders();
+
+      const messages = mockXMTPService.getSentMessages();
+      expect(messages).toHaveLength(1);
+      expect(messages[0].content).toContain("is available for anyone to register");
+    });
+
+    test("should tell watchers about names that aren't theirs", async () => {
+      await seedReminder("coveted.eth", new Date(Date.now() - 95 * DAY_MS));
+      await mockDatabaseService.from('reminders').update({ tracking_mode: 'watch' }).eq('domain', "coveted.eth");
+
+      await service.processReminders();
+
+      const [message] = mockXMTPService.getSentMessages();
+      expect(message.content).toContain("Watched domain \"coveted.eth\" has been released");
+      expect(message.content).not.toContain("Your ENS domain");
+    });
+  });
+
+  describe("Per-reminder intervals", () => {
+    test("should honour intervals stored on the reminder", async () => {
+      await seedReminder("custom.eth", new Date(Date.now() + 13.5 * DAY_MS), [60, 14, 3]);
+
+      await service.processReminders();
+
+      const sent: any = await mockDatabaseService.from('sent_reminders').select();
+      expect(sent.data).toHaveLength(1);
+      expect(sent.data[0].reminder_type).toBe("day_14");
+      expect(mockXMTPService.wasMessageSentTo(TEST_WALLETS.USER1, "expires in 14 days")).toBe(true);
+    });
+
+    test("should not use default intervals the user did not ask for", async () => {
+      await seedReminder("custom.eth", new Date(Date.now() + 6.5 * DAY_MS), [60, 14, 3]);
+
+      await service.processReminders();
+
+      const sent: any = await mockDatabaseService.from('sent_reminders').select();
+      expect(sent.data.map((record: any) => record.reminder_type)).toEqual(["day_14"]);
+    });
+
+    test("should fall back to the service defaults", async () => {
+      await seedReminder("default.eth", new Date(Date.now() + 29.5 * DAY_MS));
+
+      await service.processReminders();
+
+      expect(mockXMTPService.wasMessageSentTo(TEST_WALLETS.USER1, "expires in 30 days")).toBe(true);
+    });
+  });
+
+  describe("Catch-up delivery", () => {
+    const start = new Date("2030-01-01T09:00:00.000Z");
+    const expiryDate = new Date(start.getTime() + 40 * DAY_MS);
+
+    const travelTo = (daysAfterStart: number) => {
+      jest.setSystemTime(new Date(start.getTime() + daysAfterStart * DAY_MS));
+    };
+
+    const sentTypes = async (): Promise<string[]> => {
+      const sent: any = await mockDatabaseService.from('sent_reminders').select();
+      return sent.data.map((record: any) => record.reminder_type);
+    };
+
+    beforeEach(async () => {
+      // Only fake the system clock; the mock services still rely on real timers
+      jest.useFakeTimers({
+        now: start,
+        doNotFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'setImmediate', 'clearImmediate', 'nextTick', 'queueMicrotask']
+      });
+      await seedReminder("downtime.eth", expiryDate);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test("should send each tier once when the job runs daily", async () => {
+      for (let day = 0; day < 40; day++) {
+        travelTo(day);
+        await service.processReminders();
+      }
+
+      expect(await sentTypes()).toEqual(["day_30", "day_7", "day_1"]);
+      expect(mockXMTPService.getSentMessages()).toHaveLength(3);
+    });
+
+    test("should catch up on a tier missed during downtime", async () => {
+      travelTo(12);
+      await service.processReminders();
+      expect(await sentTypes()).toEqual(["day_30"]);
+
+      // Down from day 12 until 5 days before expiry, so the 7-day run never happened
+      travelTo(35);
+      await service.processReminders();
+
+      expect(await sentTypes()).toEqual(["day_30", "day_7"]);
+      expect(mockXMTPService.getLastMessageTo(TEST_WALLETS.USER1)!.content).toContain("expires in 5 days");
+    });
+
+    test("should suppress older tiers superseded by a more urgent one", async () => {
+      // First run after an outage is 4 days before expiry: the 30-day tier is no longer relevant
+      travelTo(36);
+      await service.processReminders();
+      travelTo(37);
+      await service.processReminders();
+
+      expect(await sentTypes()).toEqual(["day_7"]);
+      expect(mockXMTPService.getSentMessages()).toHaveLength(1);
+    });
+
+    test("should not resend a tier on repeated runs", async () => {
+      travelTo(35);
+      await service.processReminders();
+      await service.processReminders();
+      await service.processReminders();
+
+      expect(await sentTypes()).toEqual(["day_7"]);
+    });
+  });
+
+  describe("Expiry re-sync", () => {
+    const storedReminder = async (domain: string): Promise<any> => {
+      const { data } = await mockDatabaseService.from('reminders').select('*').eq('domain', domain).single();
+      return data;
+    };
+    const storedExpiry = async (domain: string): Promise<string> => (await storedReminder(domain)).expiry_date;
+
+    beforeEach(() => {
+      service = new ReminderService({ runtime: createTestRuntime(), enableCron: false, resyncBatchDelayMs: 0 });
+    });
+
+    test("should reset reminders and thank the user when a domain is renewed", async () => {
+      await seedReminder("renewed.eth", new Date(Date.now() + 6.5 * DAY_MS));
+      await service.processReminders();
+      const { id } = await storedReminder("renewed.eth");
+      expect(await service.getSentReminderTypes(id)).toEqual(["day_7"]);
+
+      const renewedUntil = new Date(Date.now() + 365 * DAY_MS);
+      mockEnsDataSource.setName("renewed.eth", { expiry: renewedUntil.toISOString() });
+      const result = await service.resyncExpiries();
+
+      expect(result.renewed).toBe(1);
+      expect(await storedExpiry("renewed.eth")).toBe(renewedUntil.toISOString());
+      expect(await service.getSentReminderTypes(id)).toEqual([]);
+      expect(mockXMTPService.getLastMessageTo(TEST_WALLETS.USER1)!.content).toContain(`"renewed.eth" was renewed until ${renewedUntil.toDateString()}`);
+
+      // Nothing is due any more for the new expiry
+      const sentBefore = mockXMTPService.getSentMessages().length;
+      await service.processReminders();
+      expect(mockXMTPService.getSentMessages()).toHaveLength(sentBefore);
+    });
+
+    test("should leave reminders alone when the expiry is unchanged or unknown", async () => {
+      const expiryDate = new Date(Date.now() + 20 * DAY_MS);
+      await seedReminder("same.eth", expiryDate);
+      await seedReminder("unknown.eth", expiryDate);
+      mockEnsDataSource.setName("same.eth", { expiry: expiryDate.toISOString() });
+
+      const result = await service.resyncExpiries();
+
+      expect(result.renewed).toBe(0);
+      expect(await storedExpiry("same.eth")).toBe(expiryDate.toISOString());
+      expect(await storedExpiry("unknown.eth")).toBe(expiryDate.toISOString());
+      expect(mockXMTPService.getSentMessages()).toHaveLength(0);
+    });
+
+    test("should welcome a domain back rather than thank for a renewal once it was released and registered again", async () => {
+      await seedReminder("released.eth", new Date(Date.now() - 100 * DAY_MS));
+      const registeredUntil = new Date(Date.now() + 365 * DAY_MS);
+      mockEnsDataSource.setName("released.eth", { expiry: registeredUntil.toISOString(), registrant: TEST_WALLETS.USER1 });
+
+      const result = await service.resyncExpiries();
+
+      expect(result).toMatchObject({ renewed: 0, reregistered: 1 });
+      expect(await storedExpiry("released.eth")).toBe(registeredUntil.toISOString());
+      expect((await storedReminder("released.eth")).tracking_mode).toBe("owner");
+      expect(mockXMTPService.getLastMessageTo(TEST_WALLETS.USER1)!.content).toContain(`"released.eth" is registered to your wallet again`);
+    });
+
+    test("should read the owner of a re-registered wrapped domain from the NameWrapper", async () => {
+      await seedReminder("rewrapped.eth", new Date(Date.now() - 100 * DAY_MS));
+      const registeredUntil = new Date(Date.now() + 365 * DAY_MS);
+      mockEnsDataSource.setName("rewrapped.eth", {
+        expiry: registeredUntil.toISOString(),
+        registrant: NAME_WRAPPER_ADDRESS,
+        owner: TEST_WALLETS.USER2,
+        fuses: 0
+      });
+
+      await service.resyncExpiries();
+
+      expect((await storedReminder("rewrapped.eth")).tracking_mode).toBe("watch");
+      expect(mockXMTPService.getLastMessageTo(TEST_WALLETS.USER1)!.content).toContain(`re-registered by another account (${TEST_WALLETS.USER2})`);
+    });
+
+    test("should watch an owner reminder's domain instead once it's transferred to another account", async () => {
+      const expiryDate = new Date(Date.now() + 20 * DAY_MS);
+      await seedReminder("sold.eth", expiryDate);
+      await seedReminder("kept.eth", expiryDate);
+      mockEnsDataSource.setName("sold.eth", { expiry: expiryDate.toISOString(), registrant: TEST_WALLETS.USER2, owner: TEST_WALLETS.USER2 });
+      mockEnsDataSource.setName("kept.eth", { expiry: expiryDate.toISOString(), registrant: TEST_WALLETS.USER2, owner: TEST_WALLETS.USER1 });
+
+      const result = await service.resyncExpiries();
+
+      expect(result).toMatchObject({ updated: 0, transferred: 1 });
+      expect((await storedReminder("sold.eth")).tracking_mode).toBe("watch");
+      expect((await storedReminder("kept.eth")).tracking_mode).toBe("owner");
+      expect(mockXMTPService.getSentMessages()).toHaveLength(1);
+      expect(mockXMTPService.getLastMessageTo(TEST_WALLETS.USER1)!.content).toContain(`"sold.eth" is now held by another account (${TEST_WALLETS.USER2})`);
+
+      // The next reminder goes out as a watched domain's
+      await service.processReminders();
+      expect(mockXMTPService.wasMessageSentTo(TEST_WALLETS.USER1, `Watched domain "sold.eth" expires in 20 days`)).toBe(true);
+    });
+
+    test("should tell the previous holder of a transferred domain that its new owner renewed it", async () => {
+      await seedReminder("handed-over.eth", new Date(Date.now() + 6.5 * DAY_MS));
+      const renewedUntil = new Date(Date.now() + 365 * DAY_MS);
+      mockEnsDataSource.setName("handed-over.eth", {
+        expiry: renewedUntil.toISOString(),
+        registrant: NAME_WRAPPER_ADDRESS,
+        owner: TEST_WALLETS.USER2,
+        fuses: 0
+      });
+
+      const result = await service.resyncExpiries();
+
+      expect(result).toMatchObject({ renewed: 1, transferred: 1 });
+      expect(await storedReminder("handed-over.eth")).toMatchObject({ tracking_mode: "watch", expiry_date: renewedUntil.toISOString() });
+      expect(mockXMTPService.getLastMessageTo(TEST_WALLETS.USER1)!.content).toContain(`"handed-over.eth" was renewed by its owner`);
+    });
+
+    test("should look up each domain once per batch and isolate failed lookups", async () => {
+      const batchedService = new ReminderService({ runtime: createTestRuntime(), enableCron: false, resyncBatchSize: 2, resyncBatchDelayMs: 0 });
+      await seedReminder("shared.eth", new Date(Date.now() + 20 * DAY_MS), undefined, TEST_WALLETS.USER1);
+      await seedReminder("shared.eth", new Date(Date.now() + 20 * DAY_MS), undefined, TEST_WALLETS.USER2);
+      await seedReminder("broken.eth", new Date(Date.now() + 20 * DAY_MS));
+      const renewedUntil = new Date(Date.now() + 400 * DAY_MS);
+      mockEnsDataSource.setName("shared.eth", { expiry: renewedUntil.toISOString() });
+      mockEnsDataSource.setName("broken.eth", { expiry: renewedUntil.toISOString() });
+
+      const getExpiry = mockEnsDataSource.getExpiry.bind(mockEnsDataSource);
+      const lookups = jest.spyOn(mockEnsDataSource, "getExpiry").mockImplementation(async domain =>
+        domain === "broken.eth" ? Promise.reject(new Error("rate limited")) : getExpiry(domain)
+      );
+
+      const result = await batchedService.resyncExpiries();
+      const lookedUp = lookups.mock.calls.map(([domain]) => domain);
+      lookups.mockRestore();
+
+      // Batches are [shared.eth, shared.eth] and [broken.eth]
+      expect(lookedUp).toEqual(["shared.eth", "broken.eth"]);
+      expect(result).toMatchObject({ checked: 2, renewed: 2, failed: 1 });
+      expect(await storedExpiry("broken.eth")).not.toBe(renewedUntil.toISOString());
+      expect(mockXMTPService.wasMessageSentTo(TEST_WALLETS.USER2, "\"shared.eth\" was renewed")).toBe(true);
+    });
+
+    test("should schedule the expiry sync ahead of the daily reminder check, and a weekly re-sync", async () => {
+      const scheduledService = new ReminderService({ runtime: createTestRuntime(), scheduler: mockCronService });
+      await scheduledService.initialize();
+      const syncJob = mockCronService.getJob("expiry-sync");
+      const checkJob = mockCronService.getJob("daily-reminder-check");
+      const resyncJob = mockCronService.getJob("expiry-resync");
+      await scheduledService.shutdown();
+
+      expect(syncJob).toBeDefined();
+      expect(checkJob).toBeDefined();
+      expect(resyncJob?.schedule).toBe("0 7 * * 1");
+    });
+  });
+
+  describe("Time travel", () => {
+    const start = new Date("2030-01-01T08:00:00.000Z");
+    let harness: TimeTravelHarness;
+    let scheduledService: ReminderService;
+
+    beforeEach(async () => {
+      harness = new TimeTravelHarness(start);
+      scheduledService = new ReminderService({ runtime: createTestRuntime(), scheduler: mockCronService });
+      await scheduledService.initialize();
+    });
+
+    afterEach(async () => {
+      await scheduledService.shutdown();
+      harness.restore();
+    });
+
+    test("should deliver each notice on the day the daily job crosses its threshold", async () => {
+      await seedReminder("timeline.eth", new Date(start.getTime() + 40 * DAY_MS));
+
+      const days = await harness.advanceDays(41);
+
+      const deliveries = days
+        .map((day, index) => ({ day: index + 1, messages: day.messages }))
+        .filter(day => day.messages.length > 0);
+      expect(deliveries.map(day => day.day)).toEqual([10, 33, 39, 40]);
+      expect(deliveries[0].messages[0].content).toContain("expires in 30 days");
+      expect(deliveries[1].messages[0].content).toContain("expires in 7 days");
+      expect(deliveries[2].messages[0].content).toContain("expires TOMORROW");
+      expect(deliveries[3].messages[0].content).toContain("is in the grace period until");
+    });
+
+    test("should tell a subname holder it expired, with no grace period or premium auction after it", async () => {
+      await seedReminder("pay.timeline.eth", new Date(start.getTime() + 1.5 * DAY_MS));
+
+      const days = await harness.advanceDays(130);
+
+      const messages = days.flatMap(day => day.messages.map(message => message.content));
+      expect(messages).toHaveLength(2);
+      expect(messages[0]).toContain("expires TOMORROW");
+      expect(messages[1]).toContain("subname \"pay.timeline.eth\" has expired");
+      expect(messages.join("\n")).not.toMatch(/grace period until|premium auction|available for anyone/);
+    });
+
+    test("should tell a watcher when a released name becomes available at the standard price", async () => {
+      const expiryDate = new Date(start.getTime() + 1.5 * DAY_MS);
+      await seedReminder("waiting.eth", expiryDate);
+      await mockDatabaseService.from('reminders').update({ tracking_mode: 'watch' }).eq('domain', "waiting.eth");
+
+      const days = await harness.advanceDays(120);
+
+      const deliveries = days.filter(day => day.messages.length > 0);
+      expect(deliveries.map(day => day.messages[0].content)).toEqual([
+        expect.stringContaining("expires in 1 day"),
+        expect.stringContaining("has expired"),
+        expect.stringContaining("has been released"),
+        expect.stringContaining("is available for anyone to register at the standard price")
+      ]);
+      const premiumEndsAt = new Date(expiryDate.getTime() + 111 * DAY_MS);
+      expect(deliveries[3].date.getTime()).toBeGreaterThanOrEqual(premiumEndsAt.getTime());
+      expect(deliveries[3].date.getTime() - premiumEndsAt.getTime()).toBeLessThan(DAY_MS);
+
+      const sent: any = await mockDatabaseService.from('sent_reminders').select();
+      expect(sent.data.map((record: any) => record.reminder_type)).toEqual(["day_1", "grace_period", "premium_auction", "available"]);
+    });
+
+    test("should start reminders over for the next cycle after SET_REMINDER picks up a renewal", async () => {
+      const setReminder = ensReminderPlugin.actions.find(action => action.name === "SET_REMINDER")!;
+      const callback = createTestCallback();
+      const sendSetReminder = () => setReminder.handler(
+        createTestRuntime(),
+        createTestMessage(TEST_WALLETS.USER1, "remind me about renewing.eth"),
+        undefined,
+        undefined,
+        callback.call.bind(callback)
+      );
+      const sentTypes = async (): Promise<string[]> => {
+        const sent: any = await mockDatabaseService.from('sent_reminders').select();
+        return sent.data.map((record: any) => record.reminder_type);
+      };
+
+      const firstExpiry = new Date(start.getTime() + 10.5 * DAY_MS);
+      mockEnsDataSource.setName("renewing.eth", { expiry: firstExpiry.toISOString() });
+      await sendSetReminder();
+      await harness.advanceDays(10);
+      expect(await sentTypes()).toEqual(["day_30", "day_7", "day_1"]);
+
+      // Renewed on-chain, and the user asks again before the next sync
+      mockEnsDataSource.setName("renewing.eth", { expiry: new Date(firstExpiry.getTime() + 40 * DAY_MS).toISOString() });
+      await sendSetReminder();
+      expect(callback.getLastResult()!.text).toContain("expiry refreshed");
+
+      const nextCycle = await harness.advanceDays(41);
+
+      expect(nextCycle.flatMap(day => day.messages).map(message => message.content)).toEqual([
+        expect.stringContaining("expires in 30 days"),
+        expect.stringContaining("expires in 7 days"),
+        expect.stringContaining("expires TOMORROW"),
+        expect.stringContaining("is in the grace period until")
+      ]);
+      expect(await sentTypes()).toEqual(["day_30", "day_7", "day_1", "grace_period"]);
+    });
+
+    test("should pick up a subname extended through the NameWrapper in the weekly re-sync", async () => {
+      const storedExpiry = async (): Promise<string> =>
+        (await mockDatabaseService.from('reminders').select('*').eq('domain', "pay.extended.eth").single()).data.expiry_date;
+      const expiryDate = new Date(start.getTime() + 60 * DAY_MS);
+      const extendedUntil = new Date(start.getTime() + 400 * DAY_MS);
+      mockEnsDataSource.setName("extended.eth", { expiry: new Date(start.getTime() + 730 * DAY_MS).toISOString() });
+      mockEnsDataSource.setName("pay.extended.eth", { expiry: expiryDate.toISOString(), fuses: 0 });
+      await seedReminder("pay.extended.eth", expiryDate);
+      await harness.advanceDays(1);
+
+      // Extending a subname emits no registrar event, so the daily sync doesn't see it
+      mockEnsDataSource.setName("pay.extended.eth", { expiry: extendedUntil.toISOString(), fuses: 0 });
+      await harness.advanceDays(4);
+      expect(await storedExpiry()).toBe(expiryDate.toISOString());
+
+      // 2030-01-07 is the first Monday
+      await harness.advanceDays(1);
+      expect(await storedExpiry()).toBe(extendedUntil.toISOString());
+    });
+
+    test("should stamp messages and records with virtual time", async () => {
+      await seedReminder("stamp.eth", new Date(start.getTime() + 31 * DAY_MS));
+
+      const [day] = await harness.advanceDays(1);
+
+      expect(day.messages).toHaveLength(1);
+      expect(day.messages[0].timestamp).toEqual(harness.now());
+      const sent: any = await mockDatabaseService.from('sent_reminders').select();
+      expect(sent.data[0].sent_at).toBe(harness.now().toISOString());
+    });
+
+    test("should run the daily job at most once per day", async () => {
+      await harness.advanceTo(new Date(start.getTime() + 5 * DAY_MS));
+
+      expect(mockCronService.getJob("daily-reminder-check")!.runCount).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Test suite for the repository layer
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createInMemoryRepositories,
+  getRepositories,
+  PostgrestReminderRepository,
+  Repositories,
+  RepositoryError
+} from "../services/repositories";
+import { mockDatabaseService, MockDatabaseService, MockQueryBuilder } from "../services/mock-database";
+import { createTestRuntime, resetAllServices, TEST_WALLETS } from "./test-utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * DAY_MS).toISOString();
+}
+
+describe("Repositories", () => {
+  let repositories: Repositories;
+
+  beforeEach(() => {
+    resetAllServices();
+    repositories = createInMemoryRepositories();
+  });
+
+  describe("Reminders", () => {
+    test("should create a reminder and find it by wallet", async () => {
+      const created = await repositories.reminders.upsert({
+        domain: "test.eth",
+        wallet_address: TEST_WALLETS.USER1,
+        expiry_date: daysFromNow(30)
+      });
+
+      expect(created.id).toBeDefined();
+      expect(await repositories.reminders.findByWallet(TEST_WALLETS.USER1)).toEqual([created]);
+      expect(await repositories.reminders.findByWallet(TEST_WALLETS.USER2)).toEqual([]);
+    });
+
+    test("should refresh an existing reminder instead of duplicating it", async () => {
+      await repositories.reminders.upsert({
+        domain: "test.eth",
+        wallet_address: TEST_WALLETS.USER1,
+        expiry_date: daysFromNow(30),
+        reminder_intervals: "[30,7,1]"
+      });
+      const refreshed = await repositories.reminders.upsert({
+        domain: "test.eth",
+        wallet_address: TEST_WALLETS.USER1,
+        expiry_date: daysFromNow(400)
+      });
+
+      const reminders = await repositories.reminders.findByWallet(TEST_WALLETS.USER1);
+      expect(reminders).toHaveLength(1);
+      expect(reminders[0].expiry_date).toBe(refreshed.expiry_date);
+      expect(reminders[0].reminder_intervals).toBe("[30,7,1]");
+    });
+
+    test("should find a reminder by wallet and domain", async () => {
+      await repositories.reminders.upsert({ domain: "a.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: daysFromNow(10) });
+      await repositories.reminders.upsert({ domain: "a.eth", wallet_address: TEST_WALLETS.USER2, expiry_date: daysFromNow(20) });
+
+      const reminder = await repositories.reminders.findByWalletAndDomain(TEST_WALLETS.USER2, "a.eth");
+      expect(reminder?.wallet_address).toBe(TEST_WALLETS.USER2);
+      expect(await repositories.reminders.findByWalletAndDomain(TEST_WALLETS.USER1, "b.eth")).toBeNull();
+    });
+
+    test("should find due reminders soonest first", async () => {
+      await repositories.reminders.upsert({ domain: "later.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: daysFromNow(20) });
+      await repositories.reminders.upsert({ domain: "soon.eth", wallet_address: TEST_WALLETS.USER2, expiry_date: daysFromNow(5) });
+      await repositories.reminders.upsert({ domain: "far.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: daysFromNow(500) });
+
+      const due = await repositories.reminders.findDue(new Date(Date.now() + 30 * DAY_MS));
+      expect(due.map(reminder => reminder.domain)).toEqual(["soon.eth", "later.eth"]);
+    });
+
+    test("should delete a reminder", async () => {
+      const created = await repositories.reminders.upsert({ domain: "test.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: daysFromNow(30) });
+
+      await repositories.reminders.delete(created.id!);
+
+      expect(await repositories.reminders.findByWallet(TEST_WALLETS.USER1)).toEqual([]);
+    });
+
+    test("should surface database errors as repository errors", async () => {
+      const database = new MockDatabaseService();
+      const failingQuery = () => new MockQueryBuilder("reminders", { type: "select" }, () => ({
+        data: null,
+        error: { message: "connection refused" },
+        count: null
+      }));
+      jest.spyOn(database, "from").mockReturnValue({ select: failingQuery } as any);
+      const reminders = new PostgrestReminderRepository(database);
+
+      await expect(reminders.findByWallet(TEST_WALLETS.USER1)).rejects.toThrow(RepositoryError);
+      await expect(reminders.findByWallet(TEST_WALLETS.USER1)).rejects.toThrow("connection refused");
+    });
+  });
+
+  describe("Sent reminders", () => {
+    let first: number;
+    let second: number;
+
+    beforeEach(async () => {
+      first = (await repositories.reminders.upsert({ domain: "a.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: daysFromNow(30) })).id!;
+      second = (await repositories.reminders.upsert({ domain: "b.eth", wallet_address: TEST_WALLETS.USER2, expiry_date: daysFromNow(30) })).id!;
+    });
+
+    test("should mark reminders sent and list their types", async () => {
+      const sentAt = new Date("2024-06-01T09:00:00Z");
+
+      const record = await repositories.sentReminders.markSent(first, "day_30", sentAt, "msg_1");
+      await repositories.sentReminders.markSent(first, "day_7");
+      await repositories.sentReminders.markSent(second, "grace_period");
+
+      expect(record).toMatchObject({
+        reminder_id: first,
+        wallet_address: TEST_WALLETS.USER1,
+        domain: "a.eth",
+        reminder_type: "day_30",
+        sent_at: sentAt.toISOString(),
+        message_id: "msg_1"
+      });
+      expect(await repositories.sentReminders.getSentTypes(first)).toEqual(["day_30", "day_7"]);
+    });
+
+    test("should reject sent reminders for unknown reminders", async () => {
+      await expect(repositories.sentReminders.markSent(42, "day_30")).rejects.toThrow("reminder 42 does not exist");
+    });
+
+    test("should reject reminder types outside the schema", async () => {
+      await expect(repositories.sentReminders.markSent(first, "30 day" as any)).rejects.toThrow(RepositoryError);
+    });
+
+    test("should delete the history for a reminder", async () => {
+      await repositories.sentReminders.markSent(first, "day_30");
+      await repositories.sentReminders.markSent(second, "day_30");
+
+      await repositories.sentReminders.deleteForReminder(first);
+
+      expect(await repositories.sentReminders.getSentTypes(first)).toEqual([]);
+      expect(await repositories.sentReminders.getSentTypes(second)).toEqual(["day_30"]);
+    });
+  });
+
+  describe("Conversations", () => {
+    test("should upsert conversations by bot and peer", async () => {
+      await repositories.conversations.upsert({ wallet_address: "0xbot", peer_address: "0xpeer", conversation_id: "conv_1" });
+      await repositories.conversations.upsert({ wallet_address: "0xbot", peer_address: "0xpeer", conversation_id: "conv_1", is_active: false });
+
+      const conversation = await repositories.conversations.findByPeer("0xbot", "0xpeer");
+      expect(conversation).toMatchObject({ conversation_id: "conv_1", is_active: false });
+      expect(mockDatabaseService.getStats().conversations).toBe(1);
+      expect(await repositories.conversations.findByPeer("0xotherbot", "0xpeer")).toBeNull();
+    });
+  });
+
+  describe("Selection", () => {
+    test("should use the mock database without Supabase credentials", () => {
+      const reminders = getRepositories(createTestRuntime()).reminders as PostgrestReminderRepository;
+      expect(reminders.client).toBe(mockDatabaseService);
+    });
+
+    test("should use Supabase when credentials are configured", () => {
+      const runtime = createTestRuntime();
+      runtime.setSetting("SUPABASE_URL", "https://example.supabase.co");
+      runtime.setSetting("SUPABASE_ANON_KEY", "anon-key");
+
+      const reminders = getRepositories(runtime).reminders as PostgrestReminderRepository;
+      expect(reminders.client).toBeInstanceOf(SupabaseClient);
+    });
+  });
+});
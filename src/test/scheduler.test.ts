@@ -0,0 +1,150 @@
+/**
+ * Test suite for the scheduler implementations
+ */
+
+import cron from "node-cron";
+import { NodeCronScheduler } from "../services/node-cron-scheduler";
+import { FakeClock, resetClock, setClock } from "../services/clock";
+import { mockCronService } from "../services/mock-cron";
+import { InvalidScheduleError } from "../services/scheduler";
+import { getScheduler, ReminderService } from "../services/reminder-service";
+import { createTestRuntime, resetAllServices } from "./test-utils";
+
+describe("Node Cron Scheduler", () => {
+  let scheduler: NodeCronScheduler;
+
+  beforeEach(() => {
+    scheduler = new NodeCronScheduler();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    scheduler.getJobs().forEach(job => scheduler.removeJob(job.id));
+  });
+
+  test.each([
+    ["0 9 * * *"],
+    ["*/15 * * * *"],
+    ["0 9 * * 1-5"],
+    ["30 8 1,15 * *"],
+    ["0 0 1 jan,jul *"]
+  ])("should accept %s", (expression) => {
+    const job = scheduler.schedule("job", expression, jest.fn());
+    expect(job.schedule).toBe(expression);
+  });
+
+  test.each([
+    ["not a cron"],
+    ["0 9 * *"],
+    ["0 0 9 * * *"],
+    ["61 9 * * *"],
+    ["0 25 * * *"]
+  ])("should reject %s", (expression) => {
+    expect(() => scheduler.schedule("job", expression, jest.fn())).toThrow(InvalidScheduleError);
+    expect(scheduler.getJobs()).toHaveLength(0);
+  });
+
+  test("should validate timezones", () => {
+    const job = scheduler.schedule("job", "0 9 * * *", jest.fn(), { timezone: "America/New_York" });
+    expect(job.timezone).toBe("America/New_York");
+
+    expect(() => scheduler.schedule("bad", "0 9 * * *", jest.fn(), { timezone: "Mars/Olympus" }))
+      .toThrow("unknown timezone 'Mars/Olympus'");
+  });
+
+  test("should trigger jobs manually and track runs", async () => {
+    const callback = jest.fn();
+    scheduler.schedule("job", "0 9 * * *", callback);
+
+    await scheduler.triggerJob("job");
+    await scheduler.triggerJob("job");
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(scheduler.getJobs()[0].runCount).toBe(2);
+    expect(scheduler.getStats().totalRuns).toBe(2);
+  });
+
+  test("should survive failing jobs", async () => {
+    scheduler.schedule("job", "0 9 * * *", () => { throw new Error("boom"); });
+
+    await expect(scheduler.triggerJob("job")).resolves.toBeUndefined();
+    expect(scheduler.getJobs()[0].isRunning).toBe(false);
+  });
+
+  test("should throw for unknown jobs", async () => {
+    await expect(scheduler.triggerJob("missing")).rejects.toThrow("Job 'missing' not found");
+  });
+
+  test("should replace a job scheduled with the same id", () => {
+    scheduler.schedule("job", "0 9 * * *", jest.fn());
+    scheduler.schedule("job", "0 10 * * *", jest.fn());
+
+    expect(scheduler.getJobs()).toHaveLength(1);
+    expect(scheduler.getJobs()[0].schedule).toBe("0 10 * * *");
+  });
+
+  test("should run on either day when both day of month and day of week are restricted, as nextRun reports", async () => {
+    const clock = new FakeClock(new Date("2030-01-02T12:00:00.000Z"));
+    setClock(clock);
+    const cronSchedule = jest.spyOn(cron, "schedule");
+    const callback = jest.fn();
+
+    try {
+      // The 1st of the month or any Monday; 2030-01-07 is a Monday
+      const job = scheduler.schedule("job", "0 9 1 * 1", callback, { timezone: "UTC" });
+      const tick = cronSchedule.mock.calls[0][1] as () => Promise<void>;
+      expect(job.nextRun).toEqual(new Date("2030-01-07T09:00:00.000Z"));
+
+      for (const minute of ["2030-01-07T09:00:00Z", "2030-01-08T09:00:00Z", "2030-02-01T09:00:00Z", "2030-02-01T09:01:00Z"]) {
+        clock.setTime(new Date(minute));
+        await tick();
+      }
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(job.lastRun).toEqual(new Date("2030-02-01T09:00:00.000Z"));
+      expect(job.nextRun).toEqual(new Date("2030-02-04T09:00:00.000Z"));
+    } finally {
+      cronSchedule.mockRestore();
+      resetClock();
+    }
+  });
+
+  test("should start and stop", () => {
+    scheduler.schedule("job", "0 9 * * *", jest.fn());
+
+    scheduler.start();
+    expect(scheduler.getStats().isActive).toBe(true);
+
+    scheduler.stop();
+    expect(scheduler.getStats().isActive).toBe(false);
+  });
+});
+
+describe("Scheduler selection", () => {
+  beforeEach(() => {
+    resetAllServices();
+  });
+
+  test("should use the mock cron service in mock mode", () => {
+    expect(getScheduler(createTestRuntime())).toBe(mockCronService);
+  });
+
+  test("should use node-cron outside mock mode", () => {
+    const runtime = createTestRuntime();
+    runtime.setSetting("SUPABASE_URL", "https://example.supabase.co");
+    expect(getScheduler(runtime)).toBeInstanceOf(NodeCronScheduler);
+  });
+
+  test("should schedule the daily check in the configured timezone", async () => {
+    const runtime = createTestRuntime();
+    runtime.setSetting("REMINDER_TIMEZONE", "Europe/Berlin");
+    const service = new ReminderService({ runtime, enableXMTP: false, scheduler: mockCronService });
+
+    await service.initialize();
+    const job = mockCronService.getJob("daily-reminder-check");
+    await service.shutdown();
+
+    expect(job?.schedule).toBe("0 9 * * *");
+    expect(job?.timezone).toBe("Europe/Berlin");
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Test suite for the schema definition: the generated files, the migrations and the validators must all agree with it
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import Database from "better-sqlite3";
+import { SCHEMA } from "../schema/tables";
+import { renderRecordTypes, renderSchemaSql } from "../schema/generate";
+import { validateRecord } from "../schema/validation";
+import { MockDatabaseService } from "../services/mock-database";
+import { closeSqliteDatabases, openSqliteDatabase, SqliteDatabase } from "../services/sqlite-database";
+import { TEST_WALLETS } from "./test-utils";
+
+const ROOT = join(__dirname, "..", "..");
+
+// Everything SQLite reports about a table's columns and indexes
+function describeSqliteTable(db: SqliteDatabase, table: string) {
+  const indexes = (db.prepare(`PRAGMA index_list(${table})`).all() as { name: string; unique: number; origin: string }[])
+    .filter(index => index.origin === "c")
+    .map(index => ({
+      name: index.name,
+      unique: index.unique === 1,
+      columns: (db.prepare(`PRAGMA index_info(${index.name})`).all() as { name: string }[]).map(column => column.name)
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return { columns: db.prepare(`PRAGMA table_info(${table})`).all(), indexes };
+}
+
+describe("Schema", () => {
+  describe("Generated files", () => {
+    test("schema.sql should match the schema definition (run npm run generate-schema)", () => {
+      expect(readFileSync(join(ROOT, "schema.sql"), "utf8")).toBe(renderSchemaSql());
+    });
+
+    test("records.ts should match the schema definition (run npm run generate-schema)", () => {
+      expect(readFileSync(join(ROOT, "src", "schema", "records.ts"), "utf8")).toBe(renderRecordTypes());
+    });
+  });
+
+  describe("Migrations", () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), "ens-schema-"));
+    });
+
+    afterEach(() => {
+      closeSqliteDatabases();
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    test("should build the defined tables in the mock database", () => {
+      const database = new MockDatabaseService();
+
+      for (const table of SCHEMA) {
+        const described = database.describeTable(table.name)!;
+        const columns = table.columns.map(({ comment, tsType, ...column }) => column);
+        const uniqueKeys = table.indexes
+          .filter(index => index.unique)
+          .map(index => ({ name: index.name, columns: index.columns }));
+
+        expect(described.columns).toEqual(columns);
+        expect(described.uniqueKeys).toEqual(uniqueKeys);
+      }
+    });
+
+    test("should build the defined tables in SQLite", () => {
+      const migrated = openSqliteDatabase(join(directory, "migrated.db"));
+      const generated = new Database(join(directory, "generated.db"));
+      generated.exec(renderSchemaSql("sqlite"));
+
+      try {
+        for (const table of SCHEMA) {
+          expect(describeSqliteTable(migrated, table.name)).toEqual(describeSqliteTable(generated, table.name));
+        }
+      } finally {
+        generated.close();
+      }
+    });
+  });
+
+  describe("Validators", () => {
+    const sentReminder = {
+      reminder_id: 1,
+      wallet_address: TEST_WALLETS.USER1,
+      domain: "vitalik.eth",
+      reminder_type: "day_30",
+      sent_at: "2030-01-01T09:00:00.000Z"
+    };
+
+    test("should accept a complete record", () => {
+      expect(validateRecord("sent_reminders", sentReminder)).toEqual([]);
+    });
+
+    test("should require NOT NULL columns without defaults", () => {
+      const { wallet_address, ...record } = sentReminder;
+
+      expect(validateRecord("sent_reminders", record)).toEqual([
+        expect.objectContaining({ column: "wallet_address", problem: "required" })
+      ]);
+      expect(validateRecord("sent_reminders", record, { partial: true })).toEqual([]);
+    });
+
+    test("should check value types and patterns", () => {
+      expect(validateRecord("sent_reminders", { ...sentReminder, reminder_type: "30 day" })).toEqual([
+        expect.objectContaining({ column: "reminder_type", problem: "pattern" })
+      ]);
+      expect(validateRecord("reminders", { domain: "vitalik.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: "soon" })).toEqual([
+        expect.objectContaining({ column: "expiry_date", problem: "type" })
+      ]);
+      expect(validateRecord("conversations", { is_active: "yes" }, { partial: true })).toEqual([
+        expect.objectContaining({ column: "is_active", problem: "type" })
+      ]);
+    });
+
+    test("should reject columns the table doesn't have", () => {
+      expect(validateRecord("sent_reminders", { ...sentReminder, user: "alice" })).toEqual([
+        expect.objectContaining({ column: "user", problem: "unknown" })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Test suite for the SQLite storage backend
+ */
+
+import { Action } from "@elizaos/core";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  closeSqliteDatabases,
+  createSqliteRepositories,
+  openSqliteDatabase,
+  parseSqliteUrl,
+  SqliteReminderRepository
+} from "../services/sqlite-database";
+import { getRepositories, Repositories, RepositoryError } from "../services/repositories";
+import { ensReminderPlugin } from "../plugins/ens-reminder-plugin";
+import { createTestCallback, createTestMessage, createTestRuntime, resetAllServices, TEST_WALLETS } from "./test-utils";
+
+describe("SQLite Database", () => {
+  let directory: string;
+  let filename: string;
+  let repositories: Repositories;
+
+  beforeEach(() => {
+    resetAllServices();
+    directory = mkdtempSync(join(tmpdir(), "ens-reminders-"));
+    filename = join(directory, "data", "reminders.db");
+    repositories = createSqliteRepositories(openSqliteDatabase(filename));
+  });
+
+  afterEach(() => {
+    closeSqliteDatabases();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test.each([
+    ["sqlite://./data/reminders.db", "./data/reminders.db"],
+    ["sqlite:///var/lib/ens-bot/reminders.db", "/var/lib/ens-bot/reminders.db"],
+    ["sqlite://:memory:", ":memory:"]
+  ])("should parse %p", (url, expected) => {
+    expect(parseSqliteUrl(url)).toBe(expected);
+  });
+
+  test("should reject URLs without a path", () => {
+    expect(() => parseSqliteUrl("sqlite://")).toThrow("expected sqlite://<path>");
+  });
+
+  test("should create the tables automatically", () => {
+    const tables = openSqliteDatabase(filename)
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name")
+      .all()
+      .map((row: any) => row.name);
+
+    expect(tables).toEqual(["conversations", "reminders", "scan_cursors", "schema_migrations", "sent_reminders"]);
+  });
+
+  test("should persist reminders across restarts", async () => {
+    await repositories.reminders.upsert({
+      domain: "vitalik.eth",
+      wallet_address: TEST_WALLETS.USER1,
+      expiry_date: "2030-01-01T00:00:00.000Z",
+      reminder_intervals: "[30,7,1]",
+      created_at: "2024-01-01T00:00:00.000Z"
+    });
+
+    closeSqliteDatabases();
+    const reopened = createSqliteRepositories(openSqliteDatabase(filename));
+
+    const reminders = await reopened.reminders.findByWallet(TEST_WALLETS.USER1);
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0]).toMatchObject({ id: 1, domain: "vitalik.eth", reminder_intervals: "[30,7,1]" });
+  });
+
+  test("should refresh an existing reminder and keep omitted columns", async () => {
+    const created = await repositories.reminders.upsert({
+      domain: "vitalik.eth",
+      wallet_address: TEST_WALLETS.USER1,
+      expiry_date: "2030-01-01T00:00:00.000Z",
+      reminder_intervals: "[60]",
+      created_at: "2024-01-01T00:00:00.000Z"
+    });
+    const refreshed = await repositories.reminders.upsert({
+      domain: "vitalik.eth",
+      wallet_address: TEST_WALLETS.USER1,
+      expiry_date: "2031-01-01T00:00:00.000Z",
+      created_at: "2025-01-01T00:00:00.000Z"
+    });
+
+    expect(refreshed.id).toBe(created.id);
+    expect(refreshed).toMatchObject({
+      expiry_date: "2031-01-01T00:00:00.000Z",
+      reminder_intervals: "[60]",
+      created_at: "2024-01-01T00:00:00.000Z"
+    });
+    expect(await repositories.reminders.findByWallet(TEST_WALLETS.USER1)).toHaveLength(1);
+  });
+
+  test("should find due reminders soonest first", async () => {
+    await repositories.reminders.upsert({ domain: "later.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: "2030-03-01T00:00:00.000Z" });
+    await repositories.reminders.upsert({ domain: "soon.eth", wallet_address: TEST_WALLETS.USER2, expiry_date: "2030-01-01T00:00:00.000Z" });
+    await repositories.reminders.upsert({ domain: "far.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: "2031-01-01T00:00:00.000Z" });
+
+    const due = await repositories.reminders.findDue(new Date("2030-06-01T00:00:00.000Z"));
+    expect(due.map(reminder => reminder.domain)).toEqual(["soon.eth", "later.eth"]);
+    expect(await repositories.reminders.findByWalletAndDomain(TEST_WALLETS.USER2, "soon.eth")).toMatchObject({ domain: "soon.eth" });
+    expect(await repositories.reminders.findByWalletAndDomain(TEST_WALLETS.USER2, "later.eth")).toBeNull();
+  });
+
+  test("should page through reminders in id order", async () => {
+    for (const domain of ["a.eth", "b.eth", "c.eth"]) {
+      await repositories.reminders.upsert({ domain, wallet_address: TEST_WALLETS.USER1, expiry_date: "2030-01-01T00:00:00.000Z" });
+    }
+
+    const first = await repositories.reminders.findAfter(0, 2);
+    expect(first.map(reminder => reminder.domain)).toEqual(["a.eth", "b.eth"]);
+    expect((await repositories.reminders.findAfter(first[1].id!, 2)).map(reminder => reminder.domain)).toEqual(["c.eth"]);
+  });
+
+  test("should record sent reminders and cascade deletes", async () => {
+    const reminder = await repositories.reminders.upsert({ domain: "vitalik.eth", wallet_address: TEST_WALLETS.USER1, expiry_date: "2030-01-01T00:00:00.000Z" });
+
+    const sent = await repositories.sentReminders.markSent(reminder.id!, "day_30", new Date("2029-12-02T09:00:00.000Z"), "msg_1");
+    await repositories.sentReminders.markSent(reminder.id!, "day_7");
+
+    expect(sent).toMatchObject({ reminder_id: reminder.id, reminder_type: "day_30", sent_at: "2029-12-02T09:00:00.000Z", message_id: "msg_1" });
+    expect(await repositories.sentReminders.getSentTypes(reminder.id!)).toEqual(["day_30", "day_7"]);
+
+    await repositories.reminders.delete(reminder.id!);
+    expect(await repositories.sentReminders.getSentTypes(reminder.id!)).toEqual([]);
+  });
+
+  test("should reject sent reminders for unknown reminders", async () => {
+    await expect(repositories.sentReminders.markSent(42, "day_30")).rejects.toThrow(RepositoryError);
+  });
+
+  test("should store conversation activity as booleans", async () => {
+    await repositories.conversations.upsert({ wallet_address: "0xbot", peer_address: "0xpeer", conversation_id: "conv_1" });
+    expect(await repositories.conversations.findByPeer("0xbot", "0xpeer")).toMatchObject({ conversation_id: "conv_1", is_active: true });
+
+    const updated = await repositories.conversations.upsert({ wallet_address: "0xbot", peer_address: "0xpeer", conversation_id: "conv_1", is_active: false });
+    expect(updated.is_active).toBe(false);
+    expect(await repositories.conversations.findByPeer("0xother", "0xpeer")).toBeNull();
+  });
+
+  test("should persist scan cursors", async () => {
+    expect(await repositories.scanCursors.getBlock("registrar")).toBeNull();
+
+    await repositories.scanCursors.setBlock("registrar", 100);
+    await repositories.scanCursors.setBlock("registrar", 250);
+
+    closeSqliteDatabases();
+    const reopened = createSqliteRepositories(openSqliteDatabase(filename));
+    expect(await reopened.scanCursors.getBlock("registrar")).toBe(250);
+  });
+
+  describe("Selection", () => {
+    test("should use SQLite when DATABASE_URL is a sqlite:// URL", () => {
+      const runtime = createTestRuntime();
+      runtime.setSetting("DATABASE_URL", `sqlite://${filename}`);
+
+      expect(getRepositories(runtime).reminders).toBeInstanceOf(SqliteReminderRepository);
+    });
+
+    test("should reject other database URLs", () => {
+      const runtime = createTestRuntime();
+      runtime.setSetting("DATABASE_URL", "postgres://localhost/reminders");
+
+      expect(() => getRepositories(runtime)).toThrow("only sqlite:// URLs are supported");
+    });
+
+    test("should let the plugin actions store reminders in SQLite", async () => {
+      const runtime = createTestRuntime();
+      runtime.setSetting("DATABASE_URL", `sqlite://${filename}`);
+      const setReminder = ensReminderPlugin.actions!.find((action: Action) => action.name === "SET_REMINDER")!;
+      const listReminders = ensReminderPlugin.actions!.find((action: Action) => action.name === "LIST_REMINDERS")!;
+      const callback = createTestCallback();
+
+      await setReminder.handler(runtime, createTestMessage(TEST_WALLETS.USER1, "remind me about vitalik.eth"), undefined, undefined, callback.call.bind(callback));
+      await listReminders.handler(runtime, createTestMessage(TEST_WALLETS.USER1, "list my reminders"), undefined, undefined, callback.call.bind(callback));
+
+      expect(callback.getLastResult()?.text).toContain("vitalik.eth");
+      expect(await repositories.reminders.findByWalletAndDomain(TEST_WALLETS.USER1, "vitalik.eth")).not.toBeNull();
+    });
+  });
+});
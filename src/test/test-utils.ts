@@ -2,10 +2,21 @@
  * Test utilities for ENS reminder bot testing
  */
 
+import { join } from "path";
 import { Memory, IAgentRuntime, HandlerCallback } from "@elizaos/core";
-import { mockXMTPService } from "../services/mock-xmtp";
+import { mockXMTPService, MockMessage } from "../services/mock-xmtp";
 import { mockCronService } from "../services/mock-cron";
 import { mockDatabaseService } from "../services/mock-database";
+import { mockEnsDataSource } from "../services/mock-ens";
+import { mockRegistrarLogSource } from "../services/mock-registrar-logs";
+import { pendingImports } from "../services/pending-imports";
+import { FakeClock, resetClock, setClock } from "../services/clock";
+
+// ENS fixtures for the names used across the test suites
+export const ENS_FIXTURE_PATH = join(__dirname, "fixtures", "ens-names.json");
+
+// Recorded registrar controller logs: vitalik.eth and mydomain.eth renewed, fresh-name.eth registered
+export const REGISTRAR_LOG_FIXTURE_PATH = join(__dirname, "fixtures", "registrar-logs.json");
 
 export interface TestMessage {
   entityId: string;
@@ -26,6 +37,8 @@ export class MockAgentRuntime implements IAgentRuntime {
     this.settings.set("ETHEREUM_RPC_URL", "https://eth-mainnet.alchemyapi.io/v2/demo");
     this.settings.set("SUPABASE_URL", "mock://localhost");
     this.settings.set("SUPABASE_ANON_KEY", "mock-key");
+    this.settings.set("ENS_DATA_SOURCE", "fixture");
+    this.settings.set("ENS_FIXTURE_PATH", ENS_FIXTURE_PATH);
   }
 
   getSetting(key: string): string | undefined {
@@ -92,10 +105,72 @@ export async function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+export interface TimeTravelDay {
+  date: Date;
+  messages: MockMessage[]; // XMTP messages sent during this day
+}
+
+/**
+ * Time-travel harness: installs a fake clock, then advances virtual time day by day,
+ * running due mock cron jobs and collecting the XMTP messages each day produced
+ */
+export class TimeTravelHarness {
+  readonly clock: FakeClock;
+
+  constructor(start: Date) {
+    this.clock = new FakeClock(start);
+    setClock(this.clock);
+  }
+
+  now(): Date {
+    return this.clock.now();
+  }
+
+  /**
+   * Advance one day at a time, running the cron jobs that became due each day
+   */
+  async advanceDays(days: number = 1): Promise<TimeTravelDay[]> {
+    const results: TimeTravelDay[] = [];
+
+    for (let day = 0; day < days; day++) {
+      const sentBefore = mockXMTPService.getSentMessages().length;
+
+      this.clock.advanceDays(1);
+      await mockCronService.runDueJobs();
+
+      results.push({
+        date: this.clock.now(),
+        messages: mockXMTPService.getSentMessages().slice(sentBefore)
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Advance day by day until the given date
+   */
+  async advanceTo(date: Date): Promise<TimeTravelDay[]> {
+    const days = Math.floor((date.getTime() - this.clock.now().getTime()) / (24 * 60 * 60 * 1000));
+    return this.advanceDays(days);
+  }
+
+  /**
+   * Restore the system clock
+   */
+  restore(): void {
+    resetClock();
+  }
+}
+
 export function resetAllServices(): void {
+  resetClock();
   mockXMTPService.reset();
   mockCronService.reset();
   mockDatabaseService.reset();
+  mockEnsDataSource.reset();
+  mockRegistrarLogSource.reset();
+  pendingImports.clear();
   console.log("[TestUtils] All services reset");
 }
 